@@ -0,0 +1,20 @@
+CREATE TABLE "credit_reservations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"amount" integer NOT NULL,
+	"status" text DEFAULT 'held' NOT NULL,
+	"description" text,
+	"expires_at" timestamp NOT NULL,
+	"settled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "credit_transactions" ADD COLUMN "correlation_id" uuid;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN "reservation_id" uuid;--> statement-breakpoint
+ALTER TABLE "credit_reservations" ADD CONSTRAINT "credit_reservations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "credit_reservation_user_id_idx" ON "credit_reservations" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "credit_reservation_status_expires_at_idx" ON "credit_reservations" USING btree ("status","expires_at");--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_reservation_id_credit_reservations_id_fk" FOREIGN KEY ("reservation_id") REFERENCES "public"."credit_reservations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "credit_tx_correlation_id_idx" ON "credit_transactions" USING btree ("correlation_id");--> statement-breakpoint
+UPDATE "users" SET "credits" = 0 WHERE "credits" < 0;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_credits_non_negative" CHECK ("users"."credits" >= 0);
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"plan_id" text NOT NULL,
+	"provider" text DEFAULT 'razorpay' NOT NULL,
+	"provider_order_id" text NOT NULL,
+	"provider_payment_id" text,
+	"amount" integer NOT NULL,
+	"currency" text DEFAULT 'INR' NOT NULL,
+	"credits" integer NOT NULL,
+	"status" text DEFAULT 'created' NOT NULL,
+	"failure_reason" text,
+	"paid_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "payments_provider_order_id_unique" UNIQUE("provider_order_id")
+);
+--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payment_user_id_idx" ON "payments" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "payment_status_idx" ON "payments" USING btree ("status");
\ No newline at end of file
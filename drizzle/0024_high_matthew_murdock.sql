@@ -0,0 +1,6 @@
+ALTER TABLE "users" ADD COLUMN "plan_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "plan_expiry_notified_at" timestamp;--> statement-breakpoint
+CREATE INDEX "users_plan_expires_at_idx" ON "users" USING btree ("plan_expires_at");--> statement-breakpoint
+-- Existing paid plans are grandfathered: their first validity period starts now, not at the purchase
+-- date, so plans bought more than 30 days ago do not expire the moment this runs
+UPDATE "users" SET "plan_expires_at" = now() + interval '30 days' WHERE "plan" IN ('basic', 'premium') AND "plan_expires_at" IS NULL;
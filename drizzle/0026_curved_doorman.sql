@@ -0,0 +1,24 @@
+CREATE TABLE "referrals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"referrer_id" uuid NOT NULL,
+	"referee_id" uuid NOT NULL,
+	"code" varchar(12) NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"reject_reason" text,
+	"referee_device_id" text,
+	"referee_email_domain" text,
+	"referrer_reward" integer DEFAULT 0 NOT NULL,
+	"referee_reward" integer DEFAULT 0 NOT NULL,
+	"rewarded_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "referrals_referee_id_unique" UNIQUE("referee_id")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "referral_code" varchar(12);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "signup_device_id" text;--> statement-breakpoint
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_referrer_id_users_id_fk" FOREIGN KEY ("referrer_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_referee_id_users_id_fk" FOREIGN KEY ("referee_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "referral_referrer_id_idx" ON "referrals" USING btree ("referrer_id");--> statement-breakpoint
+CREATE INDEX "referral_referee_device_id_idx" ON "referrals" USING btree ("referee_device_id");--> statement-breakpoint
+CREATE INDEX "users_signup_device_id_idx" ON "users" USING btree ("signup_device_id");--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_referral_code_unique" UNIQUE("referral_code");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "user_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"device_id" text,
+	"device_name" text,
+	"platform" text DEFAULT 'other' NOT NULL,
+	"ip_address" text,
+	"user_agent" text,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_sessions" ADD CONSTRAINT "user_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_session_user_id_idx" ON "user_sessions" USING btree ("user_id");
\ No newline at end of file
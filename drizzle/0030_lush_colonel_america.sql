@@ -0,0 +1,17 @@
+CREATE TABLE "admin_audit_log" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"actor_id" uuid,
+	"actor_role" text NOT NULL,
+	"action" text NOT NULL,
+	"target_user_id" uuid,
+	"details" text,
+	"ip_address" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'user' NOT NULL;--> statement-breakpoint
+ALTER TABLE "admin_audit_log" ADD CONSTRAINT "admin_audit_log_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "admin_audit_log" ADD CONSTRAINT "admin_audit_log_target_user_id_users_id_fk" FOREIGN KEY ("target_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "admin_audit_actor_id_idx" ON "admin_audit_log" USING btree ("actor_id");--> statement-breakpoint
+CREATE INDEX "admin_audit_target_user_id_idx" ON "admin_audit_log" USING btree ("target_user_id");--> statement-breakpoint
+CREATE INDEX "admin_audit_created_at_idx" ON "admin_audit_log" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "data_exports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"file_url" text,
+	"size_bytes" integer,
+	"error_message" text,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"expires_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "deletion_scheduled_for" timestamp;--> statement-breakpoint
+ALTER TABLE "data_exports" ADD CONSTRAINT "data_exports_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "data_export_user_id_idx" ON "data_exports" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "data_export_status_idx" ON "data_exports" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "users_deletion_scheduled_for_idx" ON "users" USING btree ("deletion_scheduled_for");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "email_login_codes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" text NOT NULL,
+	"code_hash" text,
+	"expires_at" timestamp,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"send_count" integer DEFAULT 0 NOT NULL,
+	"window_started_at" timestamp DEFAULT now() NOT NULL,
+	"last_sent_at" timestamp,
+	"locked_until" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "email_login_codes_email_unique" UNIQUE("email")
+);
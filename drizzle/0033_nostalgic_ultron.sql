@@ -0,0 +1,17 @@
+CREATE TABLE "products" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"canonical_url" text NOT NULL,
+	"url" text NOT NULL,
+	"name" text NOT NULL,
+	"price" text,
+	"source" text,
+	"image_urls" text[] NOT NULL,
+	"parse_strategy" text,
+	"last_parsed_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "products_canonical_url_unique" UNIQUE("canonical_url")
+);
+--> statement-breakpoint
+ALTER TABLE "looks" ADD COLUMN "product_id" uuid;--> statement-breakpoint
+ALTER TABLE "looks" ADD CONSTRAINT "looks_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "looks_product_id_idx" ON "looks" USING btree ("product_id");
\ No newline at end of file
@@ -0,0 +1,15 @@
+ALTER TABLE "looks" ADD COLUMN "price_amount" integer;--> statement-breakpoint
+ALTER TABLE "looks" ADD COLUMN "price_currency" text;--> statement-breakpoint
+ALTER TABLE "looks" ADD COLUMN "original_price_amount" integer;--> statement-breakpoint
+ALTER TABLE "looks" ADD COLUMN "discount_percent" integer;--> statement-breakpoint
+ALTER TABLE "looks" ADD COLUMN "in_stock" boolean;--> statement-breakpoint
+ALTER TABLE "outfit_generations" ADD COLUMN "price_amount" integer;--> statement-breakpoint
+ALTER TABLE "outfit_generations" ADD COLUMN "price_currency" text;--> statement-breakpoint
+ALTER TABLE "outfit_generations" ADD COLUMN "original_price_amount" integer;--> statement-breakpoint
+ALTER TABLE "outfit_generations" ADD COLUMN "discount_percent" integer;--> statement-breakpoint
+ALTER TABLE "outfit_generations" ADD COLUMN "in_stock" boolean;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "price_amount" integer;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "price_currency" text;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "original_price_amount" integer;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "discount_percent" integer;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "in_stock" boolean;
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE "price_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"price_amount" integer,
+	"price_currency" text,
+	"original_price_amount" integer,
+	"in_stock" boolean,
+	"recorded_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "price_watches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"look_id" uuid,
+	"target_price_amount" integer,
+	"baseline_price_amount" integer NOT NULL,
+	"price_currency" text NOT NULL,
+	"last_notified_price_amount" integer,
+	"last_notified_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "price_checked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "price_history" ADD CONSTRAINT "price_history_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "price_watches" ADD CONSTRAINT "price_watches_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "price_watches" ADD CONSTRAINT "price_watches_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "price_watches" ADD CONSTRAINT "price_watches_look_id_looks_id_fk" FOREIGN KEY ("look_id") REFERENCES "public"."looks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "price_history_product_recorded_idx" ON "price_history" USING btree ("product_id","recorded_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "price_watches_user_product_unique" ON "price_watches" USING btree ("user_id","product_id");--> statement-breakpoint
+CREATE INDEX "price_watches_product_id_idx" ON "price_watches" USING btree ("product_id");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "generation_candidates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"job_id" uuid,
+	"studio_generation_id" uuid,
+	"position" integer NOT NULL,
+	"image_url" text NOT NULL,
+	"base_image_url" text,
+	"selected_at" timestamp,
+	"look_id" uuid,
+	"studio_asset_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generation_candidates" ADD CONSTRAINT "generation_candidates_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_candidates" ADD CONSTRAINT "generation_candidates_job_id_generation_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."generation_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_candidates" ADD CONSTRAINT "generation_candidates_studio_generation_id_studio_generations_id_fk" FOREIGN KEY ("studio_generation_id") REFERENCES "public"."studio_generations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_candidates" ADD CONSTRAINT "generation_candidates_look_id_looks_id_fk" FOREIGN KEY ("look_id") REFERENCES "public"."looks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_candidates" ADD CONSTRAINT "generation_candidates_studio_asset_id_studio_assets_id_fk" FOREIGN KEY ("studio_asset_id") REFERENCES "public"."studio_assets"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generation_candidate_job_id_idx" ON "generation_candidates" USING btree ("job_id");--> statement-breakpoint
+CREATE INDEX "generation_candidate_studio_generation_id_idx" ON "generation_candidates" USING btree ("studio_generation_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "generation_candidates" ADD COLUMN "image_width" integer;--> statement-breakpoint
+ALTER TABLE "generation_candidates" ADD COLUMN "image_height" integer;--> statement-breakpoint
+ALTER TABLE "looks" ADD COLUMN "image_width" integer;--> statement-breakpoint
+ALTER TABLE "looks" ADD COLUMN "image_height" integer;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "parsed_images" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"image_url" text NOT NULL,
+	"product_name" text,
+	"category" text,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "parsed_images" ADD CONSTRAINT "parsed_images_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "parsed_image_user_id_idx" ON "parsed_images" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "parsed_image_expires_at_idx" ON "parsed_images" USING btree ("expires_at");
\ No newline at end of file
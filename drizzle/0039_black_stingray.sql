@@ -0,0 +1,3 @@
+ALTER TABLE "outfit_generations" ADD COLUMN "job_id" uuid;--> statement-breakpoint
+ALTER TABLE "outfit_generations" ADD CONSTRAINT "outfit_generations_job_id_generation_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."generation_jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "outfit_gen_job_id_idx" ON "outfit_generations" USING btree ("job_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "outfit_generations" ADD COLUMN "image_width" integer;--> statement-breakpoint
+ALTER TABLE "outfit_generations" ADD COLUMN "image_height" integer;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "looks" ADD COLUMN "job_id" uuid;--> statement-breakpoint
+ALTER TABLE "looks" ADD CONSTRAINT "looks_job_id_generation_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."generation_jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "looks_job_id_idx" ON "looks" USING btree ("job_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "promo_redemptions" ADD COLUMN "status" text DEFAULT 'redeemed' NOT NULL;--> statement-breakpoint
+ALTER TABLE "promo_redemptions" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+CREATE INDEX "promo_redemption_status_expires_at_idx" ON "promo_redemptions" USING btree ("status","expires_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "plan_period_started_at" timestamp;--> statement-breakpoint
+UPDATE "users" SET "plan_period_started_at" = "plan_purchased_at" WHERE "plan" <> 'free';
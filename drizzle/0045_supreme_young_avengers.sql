@@ -0,0 +1,2 @@
+ALTER TABLE "studio_generations" ADD COLUMN "reservation_id" uuid;--> statement-breakpoint
+ALTER TABLE "studio_generations" ADD CONSTRAINT "studio_generations_reservation_id_credit_reservations_id_fk" FOREIGN KEY ("reservation_id") REFERENCES "public"."credit_reservations"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
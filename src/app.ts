@@ -66,7 +66,8 @@ const corsOptions = {
         }
     },
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key', 'X-Api-Key'],
+    exposedHeaders: ['Idempotent-Replayed', 'X-RateLimit-Limit', 'X-RateLimit-Remaining'],
     credentials: true,
     maxAge: 86400,
 };
@@ -75,7 +76,15 @@ const corsOptions = {
 
 app.use(globalRateLimiter);
 app.use(cors(corsOptions));
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+    limit: '10mb',
+    // Payment webhooks are signed over the exact bytes received
+    verify: (req: Request, _res, buf) => {
+        if (req.originalUrl.startsWith('/api/credits/webhook')) {
+            (req as Request & { rawBody?: Buffer }).rawBody = buf;
+        }
+    },
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // ==================== HEALTH CHECK ====================
@@ -102,6 +111,9 @@ import demoRoutes from './modules/demo/demo.routes';
 
 import studioRoutes from './modules/studio/studio.routes';
 import creditsRoutes from './modules/credits/credits.routes';
+import apiKeysRoutes from './modules/api-keys/api-keys.routes';
+import adminRoutes from './modules/admin/admin.routes';
+import priceWatchesRoutes from './modules/price-watches/price-watches.routes';
 
 // Mount route modules
 app.use('/auth', authRateLimiter, authRoutes);
@@ -109,11 +121,14 @@ app.use('/api/waitlist', waitlistRoutes);
 app.use('/api/users', usersRoutes);
 app.use('/api/looks', looksRoutes);
 app.use('/api/outfits', outfitsRoutes);
-app.use('/api', generationRoutes);  // parse-link, generate, upscale
+app.use('/api', generationRoutes);  // parse-link, parse-image, generate, upscale
 app.use('/api', socialRoutes);       // feed, reactions, follows, leaderboard
 app.use('/api/demo', demoRoutes);
 app.use('/api/studio', studioRoutes);
 app.use('/api/credits', creditsRoutes);
+app.use('/api/keys', apiKeysRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/price-watches', priceWatchesRoutes);
 
 // ==================== ERROR HANDLING ====================
 
@@ -1,4 +1,5 @@
-import { pgTable, uuid, text, varchar, timestamp, boolean, integer, index } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, varchar, timestamp, boolean, integer, date, index, uniqueIndex, check, AnyPgColumn } from 'drizzle-orm/pg-core';
+import { sql, relations } from 'drizzle-orm';
 
 export const users = pgTable('users', {
     id: uuid('id').primaryKey().defaultRandom(),
@@ -16,10 +17,63 @@ export const users = pgTable('users', {
     credits: integer('credits').default(3).notNull(),
     plan: text('plan', { enum: ['free', 'basic', 'premium', 'business'] }).default('free').notNull(),
     planPurchasedAt: timestamp('plan_purchased_at'),
+    planPeriodStartedAt: timestamp('plan_period_started_at'), // Start of the current paid period (renewals and upgrades keep it)
+    planExpiresAt: timestamp('plan_expires_at'), // null = never expires (free / business)
+    planExpiryNotifiedAt: timestamp('plan_expiry_notified_at'), // Reminder sent for the current period
+    referralCode: varchar('referral_code', { length: 12 }).unique(),
+    signupDeviceId: text('signup_device_id'), // Client device id at sign-up (referral fraud checks)
+    role: text('role', { enum: ['user', 'support', 'admin'] }).default('user').notNull(),
+    deletionScheduledFor: timestamp('deletion_scheduled_for'), // Account and all stored files are purged after this
+    tokensValidAfter: timestamp('tokens_valid_after'), // Google ID tokens issued before this are rejected (set on "log out everywhere")
     createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => {
     return {
         usernameIdx: index('username_idx').on(table.username),
+        planExpiresAtIdx: index('users_plan_expires_at_idx').on(table.planExpiresAt),
+        signupDeviceIdx: index('users_signup_device_id_idx').on(table.signupDeviceId),
+        deletionScheduledForIdx: index('users_deletion_scheduled_for_idx').on(table.deletionScheduledFor),
+        creditsNonNegative: check('users_credits_non_negative', sql`${table.credits} >= 0`),
+    };
+});
+
+// Structured price columns shared by products, looks and outfit generations
+// Amounts are stored in hundredths (paise, cents)
+const productPriceColumns = () => ({
+    priceAmount: integer('price_amount'),
+    priceCurrency: text('price_currency'), // ISO 4217, e.g. "INR"
+    originalPriceAmount: integer('original_price_amount'), // Pre-discount price
+    discountPercent: integer('discount_percent'),
+    inStock: boolean('in_stock'),
+});
+
+// Products: Canonical product per link, written whenever a link is parsed
+export const products = pgTable('products', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    canonicalUrl: text('canonical_url').unique().notNull(),
+    url: text('url').notNull(), // Last URL actually fetched (tracking params removed)
+    name: text('name').notNull(),
+    price: text('price'), // Display string, e.g. "₹2,999"
+    source: text('source'),
+    imageUrls: text('image_urls').array().notNull(),
+    parseStrategy: text('parse_strategy'), // Extractor name or "gemini"
+    ...productPriceColumns(),
+    lastParsedAt: timestamp('last_parsed_at').defaultNow().notNull(),
+    priceCheckedAt: timestamp('price_checked_at'), // Last scheduled check for price watches
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Price History: One row per observed price change of a product
+export const priceHistory = pgTable('price_history', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    productId: uuid('product_id').references(() => products.id, { onDelete: 'cascade' }).notNull(),
+    priceAmount: integer('price_amount'), // Hundredths (paise, cents)
+    priceCurrency: text('price_currency'),
+    originalPriceAmount: integer('original_price_amount'),
+    inStock: boolean('in_stock'),
+    recordedAt: timestamp('recorded_at').defaultNow().notNull(),
+}, (table) => {
+    return {
+        productRecordedIdx: index('price_history_product_recorded_idx').on(table.productId, table.recordedAt),
     };
 });
 
@@ -30,16 +84,42 @@ export const looks = pgTable('looks', {
     productName: text('product_name'),
     productImageUrl: text('product_image_url'),
     generatedImageUrl: text('generated_image_url'),
+    imageWidth: integer('image_width'), // Size of the generated image in pixels
+    imageHeight: integer('image_height'),
     baseImageUrl: text('base_image_url'),  // Original user photo used for generation
+    productId: uuid('product_id').references(() => products.id, { onDelete: 'set null' }), // Parsed product behind productUrl
+    ...productPriceColumns(), // Price when the look was created
     isPublic: boolean('is_public').default(true).notNull(),
     viewCount: integer('view_count').default(0).notNull(),
+    jobId: uuid('job_id').references((): AnyPgColumn => generationJobs.id, { onDelete: 'set null' }), // Try-on job that generated the look
     createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => {
     return {
         isPublicIdx: index('is_public_idx').on(table.isPublic),
+        jobIdIdx: uniqueIndex('looks_job_id_idx').on(table.jobId),
         userIdIdx: index('user_id_idx').on(table.userId),
         createdAtIdx: index('created_at_idx').on(table.createdAt),
         userPublicIdx: index('user_public_idx').on(table.userId, table.isPublic),
+        productIdIdx: index('looks_product_id_idx').on(table.productId),
+    };
+});
+
+// Price Watches: A user waiting for a look's product to drop in price
+export const priceWatches = pgTable('price_watches', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    productId: uuid('product_id').references(() => products.id, { onDelete: 'cascade' }).notNull(),
+    lookId: uuid('look_id').references(() => looks.id, { onDelete: 'set null' }), // Look the watch was started from
+    targetPriceAmount: integer('target_price_amount'), // Hundredths; null = any drop below the baseline
+    baselinePriceAmount: integer('baseline_price_amount').notNull(), // Price when the watch was created
+    priceCurrency: text('price_currency').notNull(),
+    lastNotifiedPriceAmount: integer('last_notified_price_amount'), // Only a lower price notifies again
+    lastNotifiedAt: timestamp('last_notified_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+    return {
+        userProductUnique: uniqueIndex('price_watches_user_product_unique').on(table.userId, table.productId),
+        productIdIdx: index('price_watches_product_id_idx').on(table.productId),
     };
 });
 
@@ -105,12 +185,99 @@ export const outfitGenerations = pgTable('outfit_generations', {
     productUrl: text('product_url'),
     productName: text('product_name'),
     productImageUrl: text('product_image_url'),
+    ...productPriceColumns(), // Price when the step was generated
     generatedImageUrl: text('generated_image_url').notNull(),
+    imageWidth: integer('image_width'), // Size of the generated image in pixels
+    imageHeight: integer('image_height'),
+    jobId: uuid('job_id').references(() => generationJobs.id, { onDelete: 'set null' }), // Try-on job that generated the step
     createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => {
     return {
         outfitIdIdx: index('outfit_gen_outfit_id_idx').on(table.outfitId),
         stepOrderIdx: index('outfit_gen_step_order_idx').on(table.outfitId, table.stepOrder),
+        jobIdIdx: index('outfit_gen_job_id_idx').on(table.jobId),
+    };
+});
+
+// Generation Jobs: Durable queue for try-on generation (processed by the generation worker)
+export const generationJobs = pgTable('generation_jobs', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    payload: text('payload').notNull(), // JSON string of the generation request
+    status: text('status', { enum: ['pending', 'processing', 'completed', 'failed'] }).default('pending').notNull(),
+    attempts: integer('attempts').default(0).notNull(),
+    maxAttempts: integer('max_attempts').default(3).notNull(),
+    runAt: timestamp('run_at').defaultNow().notNull(), // Next time the job is eligible to run (backoff)
+    lockedAt: timestamp('locked_at'), // When a worker claimed the job
+    resultUrl: text('result_url'),
+    lookId: uuid('look_id').references(() => looks.id, { onDelete: 'set null' }),
+    outfitId: uuid('outfit_id').references(() => outfits.id, { onDelete: 'set null' }),
+    reservationId: uuid('reservation_id').references(() => creditReservations.id, { onDelete: 'set null' }), // Credit hold for this job
+    errorCode: text('error_code'),
+    errorMessage: text('error_message'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    completedAt: timestamp('completed_at'),
+}, (table) => {
+    return {
+        userIdIdx: index('generation_job_user_id_idx').on(table.userId),
+        statusRunAtIdx: index('generation_job_status_run_at_idx').on(table.status, table.runAt),
+    };
+});
+
+// Generation Candidates: Alternative outputs of one generation (a try-on job or a studio generation);
+// the user picks one, which is promoted into looks or studio_assets
+export const generationCandidates = pgTable('generation_candidates', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    jobId: uuid('job_id').references(() => generationJobs.id, { onDelete: 'cascade' }),
+    studioGenerationId: uuid('studio_generation_id').references(() => studioGenerations.id, { onDelete: 'cascade' }),
+    position: integer('position').notNull(), // 0-based order within the group
+    imageUrl: text('image_url').notNull(),
+    imageWidth: integer('image_width'),
+    imageHeight: integer('image_height'),
+    baseImageUrl: text('base_image_url'), // Person photo the candidate was generated from
+    selectedAt: timestamp('selected_at'),
+    lookId: uuid('look_id').references(() => looks.id, { onDelete: 'set null' }), // Set when promoted to a look
+    studioAssetId: uuid('studio_asset_id').references(() => studioAssets.id, { onDelete: 'set null' }), // Set when promoted to a studio asset
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+    return {
+        jobIdIdx: index('generation_candidate_job_id_idx').on(table.jobId),
+        studioGenerationIdIdx: index('generation_candidate_studio_generation_id_idx').on(table.studioGenerationId),
+    };
+});
+
+// Parsed Images: Garments cropped from uploaded photos - a try-on refers to one by id until it expires
+export const parsedImages = pgTable('parsed_images', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    imageUrl: text('image_url').notNull(),
+    productName: text('product_name'),
+    category: text('category'),
+    expiresAt: timestamp('expires_at').notNull(), // Image and row are deleted after this
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+    return {
+        userIdIdx: index('parsed_image_user_id_idx').on(table.userId),
+        expiresAtIdx: index('parsed_image_expires_at_idx').on(table.expiresAt),
+    };
+});
+
+// Credit Reservations: Credits held for an in-flight operation (captured on success, released on failure/timeout)
+export const creditReservations = pgTable('credit_reservations', {
+    id: uuid('id').primaryKey().defaultRandom(), // Also the correlation id on related credit transactions
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    amount: integer('amount').notNull(),
+    status: text('status', { enum: ['held', 'captured', 'released'] }).default('held').notNull(),
+    description: text('description'),
+    expiresAt: timestamp('expires_at').notNull(), // Held credits are released automatically after this
+    settledAt: timestamp('settled_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+    return {
+        userIdIdx: index('credit_reservation_user_id_idx').on(table.userId),
+        statusExpiresAtIdx: index('credit_reservation_status_expires_at_idx').on(table.status, table.expiresAt),
     };
 });
 
@@ -119,7 +286,8 @@ export const creditTransactions = pgTable('credit_transactions', {
     id: uuid('id').primaryKey().defaultRandom(),
     userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
     amount: integer('amount').notNull(), // Positive = add, Negative = deduct
-    type: text('type', { enum: ['signup_bonus', 'purchase', 'generation', 'refund'] }).notNull(),
+    type: text('type', { enum: ['signup_bonus', 'purchase', 'generation', 'refund', 'hold', 'capture', 'release', 'expiry', 'promo', 'referral_bonus', 'admin_adjustment'] }).notNull(),
+    correlationId: uuid('correlation_id'), // Groups hold/capture/release steps of one reservation
     plan: text('plan'), // Plan purchased (if type = 'purchase')
     description: text('description'),
     lookId: uuid('look_id').references(() => looks.id, { onDelete: 'set null' }),
@@ -129,6 +297,7 @@ export const creditTransactions = pgTable('credit_transactions', {
     return {
         userIdIdx: index('credit_tx_user_id_idx').on(table.userId),
         typeIdx: index('credit_tx_type_idx').on(table.type),
+        correlationIdIdx: index('credit_tx_correlation_id_idx').on(table.correlationId),
         createdAtIdx: index('credit_tx_created_at_idx').on(table.createdAt),
     };
 });
@@ -148,6 +317,208 @@ export const purchaseIntents = pgTable('purchase_intents', {
     };
 });
 
+export const purchaseIntentsRelations = relations(purchaseIntents, ({ one }) => ({
+    user: one(users, { fields: [purchaseIntents.userId], references: [users.id] }),
+}));
+
+// Payments: One row per checkout order with the payment provider
+export const payments = pgTable('payments', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    planId: text('plan_id', { enum: ['basic', 'premium', 'business'] }).notNull(),
+    provider: text('provider').default('razorpay').notNull(),
+    providerOrderId: text('provider_order_id').unique().notNull(),
+    providerPaymentId: text('provider_payment_id'),
+    amount: integer('amount').notNull(), // Smallest currency unit (paise)
+    currency: text('currency').default('INR').notNull(),
+    credits: integer('credits').notNull(), // Plan credits granted when paid
+    promoCodeId: uuid('promo_code_id').references(() => promoCodes.id, { onDelete: 'set null' }),
+    discountAmount: integer('discount_amount').default(0).notNull(), // Promo discount in paise
+    status: text('status', { enum: ['created', 'paid', 'failed'] }).default('created').notNull(),
+    failureReason: text('failure_reason'),
+    paidAt: timestamp('paid_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+    return {
+        userIdIdx: index('payment_user_id_idx').on(table.userId),
+        statusIdx: index('payment_status_idx').on(table.status),
+    };
+});
+
+// Promo Codes: Marketing discounts and bonus credit codes
+export const promoCodes = pgTable('promo_codes', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    code: varchar('code', { length: 32 }).unique().notNull(), // Stored uppercase
+    type: text('type', { enum: ['percent_off', 'flat_off', 'bonus_credits'] }).notNull(),
+    value: integer('value').notNull(), // Percent (1-100), INR off, or credits granted
+    planIds: text('plan_ids').array(), // null = valid for every plan
+    maxRedemptions: integer('max_redemptions'), // null = unlimited
+    perUserLimit: integer('per_user_limit').default(1).notNull(),
+    redemptionCount: integer('redemption_count').default(0).notNull(),
+    isActive: boolean('is_active').default(true).notNull(),
+    startsAt: timestamp('starts_at'),
+    expiresAt: timestamp('expires_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Promo Redemptions: One row per use of a promo code
+export const promoRedemptions = pgTable('promo_redemptions', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    promoCodeId: uuid('promo_code_id').references(() => promoCodes.id, { onDelete: 'cascade' }).notNull(),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    paymentId: uuid('payment_id').references(() => payments.id, { onDelete: 'set null' }), // Set for checkout redemptions
+    creditsGranted: integer('credits_granted').default(0).notNull(),
+    discountAmount: integer('discount_amount').default(0).notNull(), // Paise
+    status: text('status', { enum: ['pending', 'redeemed', 'released'] }).default('redeemed').notNull(), // Pending while a checkout is unpaid
+    expiresAt: timestamp('expires_at'), // A pending checkout's hold is released after this
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+    return {
+        promoUserIdx: index('promo_redemption_promo_user_idx').on(table.promoCodeId, table.userId),
+        paymentIdIdx: uniqueIndex('promo_redemption_payment_id_idx').on(table.paymentId),
+        statusExpiresAtIdx: index('promo_redemption_status_expires_at_idx').on(table.status, table.expiresAt),
+    };
+});
+
+// Referrals: Attribution of a new user to the user whose code they signed up with
+export const referrals = pgTable('referrals', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    referrerId: uuid('referrer_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    refereeId: uuid('referee_id').references(() => users.id, { onDelete: 'cascade' }).unique().notNull(),
+    code: varchar('code', { length: 12 }).notNull(),
+    status: text('status', { enum: ['pending', 'rewarded', 'rejected'] }).default('pending').notNull(),
+    rejectReason: text('reject_reason'), // e.g. DEVICE_REUSED, DOMAIN_LIMIT
+    refereeDeviceId: text('referee_device_id'),
+    refereeEmailDomain: text('referee_email_domain'),
+    referrerReward: integer('referrer_reward').default(0).notNull(),
+    refereeReward: integer('referee_reward').default(0).notNull(),
+    rewardedAt: timestamp('rewarded_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+    return {
+        referrerIdIdx: index('referral_referrer_id_idx').on(table.referrerId),
+        deviceIdx: index('referral_referee_device_id_idx').on(table.refereeDeviceId),
+    };
+});
+
+// User Sessions: One row per sign-in (device). Access tokens carry the session id; revoking it signs the device out.
+export const userSessions = pgTable('user_sessions', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    deviceId: text('device_id'),
+    deviceName: text('device_name'), // e.g. "iPhone 15"
+    platform: text('platform', { enum: ['ios', 'android', 'web', 'other'] }).default('other').notNull(),
+    ipAddress: text('ip_address'),
+    userAgent: text('user_agent'),
+    lastSeenAt: timestamp('last_seen_at').defaultNow().notNull(),
+    revokedAt: timestamp('revoked_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+    return {
+        userIdIdx: index('user_session_user_id_idx').on(table.userId),
+    };
+});
+
+// Refresh Tokens: Hashed, single-use tokens. Each rotation stays in the same family (= session id) so reuse of an old token revokes the whole chain.
+export const refreshTokens = pgTable('refresh_tokens', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    tokenHash: text('token_hash').unique().notNull(), // SHA-256 of the token
+    familyId: uuid('family_id').notNull(), // user_sessions.id
+    expiresAt: timestamp('expires_at').notNull(),
+    usedAt: timestamp('used_at'), // Set when rotated - presenting it again is reuse
+    revokedAt: timestamp('revoked_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+    return {
+        userIdIdx: index('refresh_token_user_id_idx').on(table.userId),
+        familyIdIdx: index('refresh_token_family_id_idx').on(table.familyId),
+    };
+});
+
+// Email Login Codes: One-time codes for email sign-in (one row per email, replaced on resend)
+export const emailLoginCodes = pgTable('email_login_codes', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    email: text('email').unique().notNull(), // Normalized (lowercase)
+    codeHash: text('code_hash'), // SHA-256 of email + code; null once used or invalidated
+    expiresAt: timestamp('expires_at'),
+    attempts: integer('attempts').default(0).notNull(), // Wrong guesses for the current code
+    sendCount: integer('send_count').default(0).notNull(), // Codes sent in the current window
+    windowStartedAt: timestamp('window_started_at').defaultNow().notNull(),
+    lastSentAt: timestamp('last_sent_at'),
+    lockedUntil: timestamp('locked_until'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// API Keys: Business-plan keys for server-to-server access (only the hash is stored)
+export const apiKeys = pgTable('api_keys', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    name: varchar('name', { length: 50 }).notNull(),
+    prefix: varchar('prefix', { length: 16 }).notNull(), // Shown in listings to identify the key
+    keyHash: text('key_hash').unique().notNull(), // SHA-256 of the full key
+    scopes: text('scopes').array().notNull(), // e.g. generate, studio, read:looks
+    rateLimitPerMinute: integer('rate_limit_per_minute').default(60).notNull(),
+    lastUsedAt: timestamp('last_used_at'),
+    revokedAt: timestamp('revoked_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+    return {
+        userIdIdx: index('api_key_user_id_idx').on(table.userId),
+    };
+});
+
+// API Key Usage: Request counts per key, endpoint and day
+export const apiKeyUsage = pgTable('api_key_usage', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    apiKeyId: uuid('api_key_id').references(() => apiKeys.id, { onDelete: 'cascade' }).notNull(),
+    endpoint: text('endpoint').notNull(), // e.g. "POST /api/generate"
+    day: date('day').notNull(), // UTC, YYYY-MM-DD
+    requestCount: integer('request_count').default(0).notNull(),
+}, (table) => {
+    return {
+        keyEndpointDayIdx: uniqueIndex('api_key_usage_key_endpoint_day_idx').on(table.apiKeyId, table.endpoint, table.day),
+    };
+});
+
+// Data Exports: Zip of a user's images and records, built in the background
+export const dataExports = pgTable('data_exports', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    status: text('status', { enum: ['pending', 'processing', 'completed', 'failed'] }).default('pending').notNull(),
+    fileUrl: text('file_url'), // r2:// URL of the zip
+    sizeBytes: integer('size_bytes'),
+    errorMessage: text('error_message'),
+    startedAt: timestamp('started_at'),
+    completedAt: timestamp('completed_at'),
+    expiresAt: timestamp('expires_at'), // Zip is deleted after this
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+    return {
+        userIdIdx: index('data_export_user_id_idx').on(table.userId),
+        statusIdx: index('data_export_status_idx').on(table.status),
+    };
+});
+
+// Admin Audit Log: Every action taken through /api/admin
+export const adminAuditLog = pgTable('admin_audit_log', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    actorId: uuid('actor_id').references(() => users.id, { onDelete: 'set null' }),
+    actorRole: text('actor_role').notNull(),
+    action: text('action').notNull(), // e.g. 'credits.adjust', 'user.view'
+    targetUserId: uuid('target_user_id').references(() => users.id, { onDelete: 'set null' }),
+    details: text('details'), // JSON
+    ipAddress: text('ip_address'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+    return {
+        actorIdIdx: index('admin_audit_actor_id_idx').on(table.actorId),
+        targetUserIdIdx: index('admin_audit_target_user_id_idx').on(table.targetUserId),
+        createdAtIdx: index('admin_audit_created_at_idx').on(table.createdAt),
+    };
+});
+
 // Waitlist: Store email signups with platform preference and demo usage
 export const waitlist = pgTable('waitlist', {
     id: uuid('id').primaryKey().defaultRandom(),
@@ -208,6 +579,7 @@ export const studioGenerations = pgTable('studio_generations', {
     transparentUrl: text('transparent_url'), // Background-removed version cache
     status: text('status', { enum: ['pending', 'processing', 'completed', 'failed'] }).default('pending').notNull(),
     errorMessage: text('error_message'),
+    reservationId: uuid('reservation_id').references(() => creditReservations.id, { onDelete: 'set null' }), // Credit hold for this generation
     createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => {
     return {
@@ -365,3 +737,36 @@ export type StudioModelImage = typeof studioModelImages.$inferSelect;
 export type NewStudioModelImage = typeof studioModelImages.$inferInsert;
 export type CreditTransaction = typeof creditTransactions.$inferSelect;
 export type NewCreditTransaction = typeof creditTransactions.$inferInsert;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type NewGenerationJob = typeof generationJobs.$inferInsert;
+export type GenerationCandidate = typeof generationCandidates.$inferSelect;
+export type NewGenerationCandidate = typeof generationCandidates.$inferInsert;
+export type ParsedImage = typeof parsedImages.$inferSelect;
+export type NewParsedImage = typeof parsedImages.$inferInsert;
+export type CreditReservation = typeof creditReservations.$inferSelect;
+export type NewCreditReservation = typeof creditReservations.$inferInsert;
+export type Payment = typeof payments.$inferSelect;
+export type NewPayment = typeof payments.$inferInsert;
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type NewPromoCode = typeof promoCodes.$inferInsert;
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
+export type NewPromoRedemption = typeof promoRedemptions.$inferInsert;
+export type Referral = typeof referrals.$inferSelect;
+export type NewReferral = typeof referrals.$inferInsert;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type NewRefreshToken = typeof refreshTokens.$inferInsert;
+export type UserSession = typeof userSessions.$inferSelect;
+export type NewUserSession = typeof userSessions.$inferInsert;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
+export type ApiKeyUsage = typeof apiKeyUsage.$inferSelect;
+export type AdminAuditLogEntry = typeof adminAuditLog.$inferSelect;
+export type NewAdminAuditLogEntry = typeof adminAuditLog.$inferInsert;
+export type DataExport = typeof dataExports.$inferSelect;
+export type NewDataExport = typeof dataExports.$inferInsert;
+export type EmailLoginCode = typeof emailLoginCodes.$inferSelect;
+export type Product = typeof products.$inferSelect;
+export type NewProduct = typeof products.$inferInsert;
+export type PriceHistoryEntry = typeof priceHistory.$inferSelect;
+export type PriceWatch = typeof priceWatches.$inferSelect;
+export type NewPriceWatch = typeof priceWatches.$inferInsert;
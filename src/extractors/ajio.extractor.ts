@@ -0,0 +1,51 @@
+/**
+ * AJIO Extractor
+ * Product pages embed their Redux store as `window.__PRELOADED_STATE__ = {...}`
+ */
+
+import { ProductExtractor } from './types';
+import { absoluteUrl, collectSizes, productFromJsonLd, readAssignedJson, unique } from './utils';
+import { buildProductPrice, formatPrice, parseAvailability } from '../utils/price';
+
+export const ajioExtractor: ProductExtractor = {
+    name: 'ajio',
+    domains: ['ajio.com'],
+
+    extract({ $, html, url }) {
+        const details = readAssignedJson(html, 'window.__PRELOADED_STATE__')?.product?.productDetails;
+        if (!details?.name) {
+            return productFromJsonLd($, url, 'AJIO');
+        }
+
+        const images: any[] = details.images || [];
+        // Each image comes in several sizes - keep the largest
+        const zoomed = images.filter(image => image.format === 'zoom');
+        const imageUrls = unique((zoomed.length > 0 ? zoomed : images)
+            .map(image => absoluteUrl(image.url, url))
+            .filter((src): src is string => !!src));
+
+        const pricing = buildProductPrice({
+            amount: details.price?.value ?? details.price?.formattedValue,
+            currency: details.price?.currencyIso || 'INR',
+            originalAmount: details.wasPriceData?.value,
+            inStock: details.stock?.stockLevelStatus,
+        });
+
+        return {
+            name: details.brandName && !details.name.startsWith(details.brandName)
+                ? `${details.brandName} ${details.name}`
+                : details.name,
+            imageUrls,
+            price: formatPrice(pricing.amount, pricing.currency) || details.price?.formattedValue || '',
+            pricing,
+            source: 'AJIO',
+            sizes: collectSizes((details.variantOptions || []).map((option: any) => ({
+                label: option.scDisplaySize ?? option.displaySizelabel,
+                inStock: parseAvailability(option.stock?.stockLevelStatus),
+            }))),
+            material: (details.featureData || [])
+                .find((feature: any) => /fabric|material/i.test(feature.name ?? ''))
+                ?.featureValues?.map((value: any) => value.value).filter(Boolean).join(', ') || null,
+        };
+    },
+};
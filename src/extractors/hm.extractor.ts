@@ -0,0 +1,105 @@
+/**
+ * H&M Extractor
+ * JSON-LD when present, otherwise the Next.js page props
+ */
+
+import { ProductExtractor } from './types';
+import { absoluteUrl, collectSizes, productFromJsonLd, readNextData, unique } from './utils';
+import { buildProductPrice, formatPrice } from '../utils/price';
+
+/**
+ * Depth-first search for the first object matching the predicate
+ */
+function findObject(value: any, predicate: (node: any) => boolean, depth = 0): any {
+    if (!value || typeof value !== 'object' || depth > 12) return null;
+    if (!Array.isArray(value) && predicate(value)) return value;
+
+    for (const child of Object.values(value)) {
+        const found = findObject(child, predicate, depth + 1);
+        if (found) return found;
+    }
+    return null;
+}
+
+/**
+ * Every object matching the predicate (matches are not searched further)
+ */
+function findObjects(value: any, predicate: (node: any) => boolean, depth = 0, found: any[] = []): any[] {
+    if (!value || typeof value !== 'object' || depth > 12) return found;
+    if (!Array.isArray(value) && predicate(value)) {
+        found.push(value);
+        return found;
+    }
+
+    for (const child of Object.values(value)) {
+        findObjects(child, predicate, depth + 1, found);
+    }
+    return found;
+}
+
+function galleryImages(article: any, url: URL): string[] {
+    return unique((article.galleryDetails || [])
+        .map((image: any) => absoluteUrl(image.baseUrl || image.url, url))
+        .filter((src: string | null): src is string => !!src));
+}
+
+export const hmExtractor: ProductExtractor = {
+    name: 'hm',
+    domains: ['hm.com', 'www2.hm.com'],
+
+    extract({ $, url }) {
+        const fromJsonLd = productFromJsonLd($, url, 'H&M');
+        if (fromJsonLd && fromJsonLd.imageUrls.length > 0) {
+            return fromJsonLd;
+        }
+
+        const nextData = readNextData($);
+        const article = findObject(nextData?.props?.pageProps, node =>
+            typeof node.productName === 'string' && Array.isArray(node.galleryDetails)
+        );
+        if (!article) return fromJsonLd;
+
+        const imageUrls = galleryImages(article, url);
+
+        // Each colour is an article with its own gallery
+        const articles = findObjects(nextData?.props?.pageProps, node =>
+            typeof node.colorName === 'string' && Array.isArray(node.galleryDetails)
+        );
+
+        // redPrice is the sale price; whitePrice is the regular one
+        const amountOf = (price: any) => typeof price === 'object' && price ? price.price ?? price.value : price;
+        const current = article.redPrice ?? article.whitePrice ?? article.price;
+        const pricing = buildProductPrice({
+            amount: amountOf(current),
+            currency: (typeof current === 'object' && current?.currency) || 'INR',
+            originalAmount: article.redPrice ? amountOf(article.whitePrice) : undefined,
+            inStock: typeof article.inStock === 'boolean' ? article.inStock : undefined,
+        });
+
+        return {
+            name: article.productName,
+            imageUrls,
+            price: formatPrice(pricing.amount, pricing.currency),
+            pricing,
+            source: 'H&M',
+            sizes: collectSizes((article.sizes || []).map((size: any) => ({
+                label: size.name,
+                inStock: typeof size.inStock === 'boolean' ? size.inStock : null,
+            }))),
+            variants: articles.length > 1
+                ? articles.map(variant => ({
+                    id: String(variant.articleCode ?? variant.code ?? variant.colorName),
+                    color: variant.colorName,
+                    imageUrls: galleryImages(variant, url),
+                    url: absoluteUrl(variant.url ?? variant.pdpUrl, url),
+                    inStock: typeof variant.inStock === 'boolean' ? variant.inStock : null,
+                }))
+                : [],
+            material: (article.compositions || [])
+                .flatMap((composition: any) => composition.materials || [])
+                .map((material: any) => material.percentage ? `${material.name} ${material.percentage}%` : material.name)
+                .filter(Boolean)
+                .join(', ') || null,
+        };
+    },
+};
@@ -0,0 +1,94 @@
+/**
+ * Product Extractors
+ * Site-specific parsers that read product info straight from the HTML, so the
+ * link parser only pays for a Gemini call when none of them can handle a page.
+ */
+
+import * as cheerio from 'cheerio';
+import { logger } from '../utils/logger';
+import { ExtractedProduct, ProductExtractor } from './types';
+import { pricingFromMeta, sizeChartFromHtml } from './utils';
+import { ProductPrice } from '../utils/price';
+import type { ProductInfo, SizeChart } from '../linkParser';
+import { myntraExtractor } from './myntra.extractor';
+import { ajioExtractor } from './ajio.extractor';
+import { zaraExtractor } from './zara.extractor';
+import { hmExtractor } from './hm.extractor';
+import { jsonLdExtractor } from './jsonld.extractor';
+
+export * from './types';
+
+// Site-specific extractors first; generic ones (no domains) are tried last
+const extractors: ProductExtractor[] = [
+    myntraExtractor,
+    ajioExtractor,
+    zaraExtractor,
+    hmExtractor,
+    jsonLdExtractor,
+];
+
+export interface ExtractionResult {
+    extractor: string;
+    product: Omit<ProductInfo, 'originalUrl'>;
+}
+
+function matchesDomain(extractor: ProductExtractor, hostname: string): boolean {
+    if (!extractor.domains) return true;
+    const host = hostname.replace(/^www\./, '');
+    return extractor.domains.some(domain => host === domain || host.endsWith(`.${domain}`));
+}
+
+/**
+ * Extractors that apply to a URL, most specific first
+ */
+export function getExtractors(url: string): ProductExtractor[] {
+    const { hostname } = new URL(url);
+    return extractors.filter(extractor => matchesDomain(extractor, hostname));
+}
+
+/**
+ * Run the matching extractors in order and return the first usable product
+ * A product needs a name and at least one image; anything less falls through to the next extractor.
+ */
+export function extractProduct(html: string, url: string): ExtractionResult | null {
+    const pageUrl = new URL(url);
+    const candidates = getExtractors(url);
+    if (candidates.length === 0) return null;
+
+    const $ = cheerio.load(html);
+
+    for (const extractor of candidates) {
+        try {
+            const product = extractor.extract({ $, html, url: pageUrl });
+            if (product && product.name && product.imageUrls.length > 0) {
+                return { extractor: extractor.name, product: withDetails(product, $) };
+            }
+            logger.debug({ extractor: extractor.name, url }, 'Extractor found no usable product');
+        } catch (error: any) {
+            logger.warn({ extractor: extractor.name, url, error: error.message }, 'Extractor failed');
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Fill in details the extractor left out; size charts are usually plain HTML tables
+ */
+function withDetails(product: ExtractedProduct, $: cheerio.CheerioAPI): Omit<ProductInfo, 'originalUrl'> {
+    return {
+        ...product,
+        sizes: product.sizes ?? [],
+        variants: product.variants ?? [],
+        material: product.material ?? null,
+        sizeChart: product.sizeChart ?? sizeChartFromHtml($),
+    };
+}
+
+/**
+ * Price from the page's meta tags and any size chart table - used when no extractor could read the product
+ */
+export function extractPageFallbacks(html: string): { pricing: ProductPrice; sizeChart: SizeChart | null } {
+    const $ = cheerio.load(html);
+    return { pricing: pricingFromMeta($), sizeChart: sizeChartFromHtml($) };
+}
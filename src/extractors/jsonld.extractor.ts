@@ -0,0 +1,15 @@
+/**
+ * Generic JSON-LD Extractor
+ * Any store that publishes a schema.org Product
+ */
+
+import { ProductExtractor } from './types';
+import { productFromJsonLd } from './utils';
+
+export const jsonLdExtractor: ProductExtractor = {
+    name: 'json-ld',
+
+    extract({ $, url }) {
+        return productFromJsonLd($, url);
+    },
+};
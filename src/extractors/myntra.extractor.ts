@@ -0,0 +1,84 @@
+/**
+ * Myntra Extractor
+ * Product pages embed their data as `window.__myx = {...}` (pdpData)
+ */
+
+import { ProductExtractor } from './types';
+import type { SizeChart } from '../linkParser';
+import { absoluteUrl, collectSizes, productFromJsonLd, readAssignedJson, unique } from './utils';
+import { buildProductPrice, formatPrice } from '../utils/price';
+
+/**
+ * Size chart from per-size measurements, e.g. Chest / Length in inches
+ */
+function sizeChart(sizes: any[]): SizeChart | null {
+    const measured = sizes.filter(size => Array.isArray(size.measurements) && size.measurements.length > 0);
+    if (measured.length === 0) return null;
+
+    const columns: string[] = unique(measured.flatMap(size => size.measurements.map((m: any) => String(m.name))));
+    const unit = measured[0].measurements[0]?.unit;
+
+    return {
+        headers: ['Size', ...columns.map(name => unit ? `${name} (${unit})` : name)],
+        rows: measured.map(size => [
+            String(size.label),
+            ...columns.map(name => String(size.measurements.find((m: any) => m.name === name)?.value ?? '')),
+        ]),
+    };
+}
+
+export const myntraExtractor: ProductExtractor = {
+    name: 'myntra',
+    domains: ['myntra.com'],
+
+    extract({ $, html, url }) {
+        const pdp = readAssignedJson(html, 'window.__myx')?.pdpData;
+        if (!pdp?.name) {
+            return productFromJsonLd($, url, 'Myntra');
+        }
+
+        const albums: any[] = pdp.media?.albums || [];
+        const album = albums.find(a => a.name === 'default') || albums[0];
+        const imageUrls = unique((album?.images || [])
+            .map((image: any) => absoluteUrl(image.imageURL || image.src, url))
+            .filter((src: string | null): src is string => !!src)
+            .map((src: string) => src.replace(/^http:/, 'https:')));
+
+        const sizes: any[] = pdp.sizes || [];
+        const pricing = buildProductPrice({
+            amount: pdp.price?.discounted ?? pdp.price?.mrp,
+            currency: 'INR',
+            originalAmount: pdp.price?.mrp,
+            inStock: typeof pdp.flags?.outOfStock === 'boolean'
+                ? !pdp.flags.outOfStock
+                : sizes.length > 0 ? sizes.some(size => size.available) : undefined,
+        });
+
+        return {
+            name: pdp.name,
+            imageUrls,
+            price: formatPrice(pricing.amount, 'INR'),
+            pricing,
+            source: 'Myntra',
+            sizes: collectSizes(sizes.map(size => ({ label: size.label, inStock: typeof size.available === 'boolean' ? size.available : null }))),
+            // Other colours are separate styles with their own page; only their swatch image is on this one
+            variants: pdp.baseColour && Array.isArray(pdp.colours) && pdp.colours.length > 0
+                ? [
+                    { id: String(pdp.id), color: pdp.baseColour, imageUrls, url: url.toString(), inStock: pricing.inStock },
+                    ...pdp.colours
+                        .filter((colour: any) => colour.label && colour.image)
+                        .map((colour: any) => ({
+                            id: String(colour.id ?? colour.url ?? colour.label),
+                            color: colour.label,
+                            imageUrls: [absoluteUrl(colour.image, url)].filter((src): src is string => !!src),
+                            url: absoluteUrl(colour.url, url),
+                            inStock: null,
+                        })),
+                ]
+                : [],
+            material: pdp.productDetails?.find((detail: any) => /material/i.test(detail.title ?? ''))?.description
+                ?.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim() || null,
+            sizeChart: sizeChart(sizes),
+        };
+    },
+};
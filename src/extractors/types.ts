@@ -0,0 +1,32 @@
+/**
+ * Product Extractor Types
+ */
+
+import type { CheerioAPI } from 'cheerio';
+import type { ProductDetails, ProductInfo } from '../linkParser';
+
+/**
+ * Product fields an extractor produces (originalUrl is added by the parser)
+ * Details the extractor cannot read are left out and filled with empty values.
+ */
+export type ExtractedProduct = Omit<ProductInfo, 'originalUrl' | keyof ProductDetails> & Partial<ProductDetails>;
+
+export interface ExtractionContext {
+    $: CheerioAPI;
+    html: string;
+    url: URL;
+}
+
+/**
+ * Reads product info straight from a page's HTML - no AI call
+ */
+export interface ProductExtractor {
+    /** Reported as the parse strategy, e.g. "myntra" */
+    readonly name: string;
+
+    /** Hostnames (without www.) this extractor handles, including subdomains. Omitted = any site. */
+    readonly domains?: string[];
+
+    /** Return null when the page does not contain what the extractor needs */
+    extract(context: ExtractionContext): ExtractedProduct | null;
+}
@@ -0,0 +1,308 @@
+/**
+ * Shared helpers for product extractors
+ */
+
+import type { CheerioAPI } from 'cheerio';
+import type { ExtractedProduct } from './types';
+import type { ProductSize, ProductVariant, SizeChart } from '../linkParser';
+import { ProductPrice, buildProductPrice, emptyProductPrice, formatPrice, mergeProductPrice, parseAvailability } from '../utils/price';
+
+type JsonObject = Record<string, any>;
+
+/**
+ * Resolve a possibly relative or protocol-relative URL against the page URL
+ */
+export function absoluteUrl(src: unknown, base: URL): string | null {
+    if (typeof src !== 'string' || !src.trim() || src.startsWith('data:')) return null;
+    try {
+        return new URL(src.trim(), base).toString();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Parse every JSON-LD block on the page (invalid blocks are skipped)
+ */
+export function readJsonLd($: CheerioAPI): JsonObject[] {
+    const nodes: JsonObject[] = [];
+
+    $('script[type="application/ld+json"]').each((_, el) => {
+        try {
+            const data = JSON.parse($(el).text());
+            const queue = Array.isArray(data) ? data : [data];
+            for (const node of queue) {
+                if (!node || typeof node !== 'object') continue;
+                nodes.push(node);
+                if (Array.isArray(node['@graph'])) nodes.push(...node['@graph']);
+            }
+        } catch {
+            // Malformed JSON-LD is common - ignore the block
+        }
+    });
+
+    return nodes;
+}
+
+function hasType(node: JsonObject, type: string): boolean {
+    const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+    return types.includes(type);
+}
+
+function toImageUrls(image: unknown, base: URL): string[] {
+    const items = Array.isArray(image) ? image : [image];
+    return items
+        .map(item => absoluteUrl(typeof item === 'object' && item ? (item as JsonObject).url || (item as JsonObject).contentUrl : item, base))
+        .filter((url): url is string => url !== null);
+}
+
+function isListPrice(spec: JsonObject): boolean {
+    return typeof spec.priceType === 'string' && /(StrikethroughPrice|ListPrice|MSRP)$/i.test(spec.priceType);
+}
+
+/**
+ * Price from JSON-LD offers - the first offer with a price wins
+ * A StrikethroughPrice/ListPrice price specification is read as the original price.
+ */
+function offerPricing(offers: unknown): ProductPrice {
+    const list = Array.isArray(offers) ? offers : [offers];
+    for (const offer of list) {
+        if (!offer || typeof offer !== 'object') continue;
+        const o = offer as JsonObject;
+        const specs: JsonObject[] = (Array.isArray(o.priceSpecification) ? o.priceSpecification : [o.priceSpecification])
+            .filter((spec: unknown): spec is JsonObject => !!spec && typeof spec === 'object');
+        const selling = specs.find(spec => !isListPrice(spec));
+        const listed = specs.find(isListPrice);
+
+        const price = buildProductPrice({
+            amount: o.price ?? o.lowPrice ?? selling?.price,
+            currency: o.priceCurrency ?? selling?.priceCurrency ?? listed?.priceCurrency,
+            originalAmount: listed?.price,
+            inStock: o.availability,
+        });
+        if (price.amount !== null) return price;
+    }
+    return emptyProductPrice();
+}
+
+/**
+ * Price from Open Graph / product meta tags and microdata, for pages without JSON-LD offers
+ */
+export function pricingFromMeta($: CheerioAPI): ProductPrice {
+    const meta = (...names: string[]) => {
+        for (const name of names) {
+            const value = $(`meta[property="${name}"]`).attr('content') || $(`meta[name="${name}"]`).attr('content');
+            if (value) return value;
+        }
+        return undefined;
+    };
+
+    const salePrice = meta('product:sale_price:amount');
+    const listPrice = meta('product:price:amount', 'og:price:amount');
+
+    return buildProductPrice({
+        amount: salePrice ?? listPrice ?? $('[itemprop="price"]').first().attr('content'),
+        currency: meta('product:sale_price:currency', 'product:price:currency', 'og:price:currency')
+            ?? $('[itemprop="priceCurrency"]').first().attr('content'),
+        originalAmount: salePrice ? listPrice : undefined,
+        inStock: meta('product:availability', 'og:availability')
+            ?? $('[itemprop="availability"]').first().attr('content')
+            ?? $('link[itemprop="availability"]').first().attr('href'),
+    });
+}
+
+function nameOf(value: unknown): string | null {
+    const text = typeof value === 'object' && value ? (value as JsonObject).name : value;
+    return typeof text === 'string' && text.trim() ? decodeEntities(text) : null;
+}
+
+function offerAvailability(offers: unknown): boolean | null {
+    const list = Array.isArray(offers) ? offers : [offers];
+    const statuses = list
+        .map(offer => offer && typeof offer === 'object' ? parseAvailability((offer as JsonObject).availability) : null)
+        .filter((status): status is boolean => status !== null);
+    return statuses.length > 0 ? statuses.includes(true) : null;
+}
+
+/**
+ * Combine stock status - in stock if any source is, out of stock only if all known sources are
+ */
+export function anyInStock(statuses: (boolean | null)[]): boolean | null {
+    const known = statuses.filter((status): status is boolean => status !== null);
+    return known.length > 0 ? known.includes(true) : null;
+}
+
+/**
+ * Variant id from a colour name, for stores without SKUs
+ */
+export function slugify(text: string): string {
+    return text.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Sizes in page order, merging duplicates (a size is in stock if any entry for it is)
+ */
+export function collectSizes(entries: { label: unknown; inStock: boolean | null }[]): ProductSize[] {
+    const sizes = new Map<string, (boolean | null)[]>();
+    for (const entry of entries) {
+        if (typeof entry.label !== 'string' || !entry.label.trim()) continue;
+        const label = entry.label.trim();
+        sizes.set(label, [...(sizes.get(label) ?? []), entry.inStock]);
+    }
+    return Array.from(sizes, ([label, statuses]) => ({ label, inStock: anyInStock(statuses) }));
+}
+
+/**
+ * Colour variants and sizes from JSON-LD variant items
+ * Items are either a ProductGroup's hasVariant list or one Product per colour (Zara).
+ */
+function variantsFromJsonLd(items: JsonObject[], url: URL): { variants: ProductVariant[]; sizes: ProductSize[] } {
+    const byColor = new Map<string, JsonObject[]>();
+    for (const item of items) {
+        const color = nameOf(item.color);
+        if (!color) continue;
+        byColor.set(color, [...(byColor.get(color) ?? []), item]);
+    }
+
+    const variants = Array.from(byColor, ([color, group]) => ({
+        id: slugify(color), // SKUs here are per colour and size
+        color,
+        imageUrls: unique(group.flatMap(item => toImageUrls(item.image, url))),
+        url: absoluteUrl(group[0].url ?? group[0].offers?.url, url),
+        inStock: anyInStock(group.map(item => offerAvailability(item.offers))),
+    }));
+
+    const sizes = collectSizes(items.map(item => ({
+        label: nameOf(item.size),
+        inStock: offerAvailability(item.offers),
+    })));
+
+    // A single colour is just the product itself
+    return { variants: variants.length > 1 ? variants : [], sizes };
+}
+
+function materialFromJsonLd(product: JsonObject): string | null {
+    const materials = (Array.isArray(product.material) ? product.material : [product.material])
+        .map(nameOf)
+        .filter((material): material is string => material !== null);
+    return materials.length > 0 ? materials.join(', ') : null;
+}
+
+/**
+ * Size chart from the first HTML table whose header starts with "Size"
+ */
+export function sizeChartFromHtml($: CheerioAPI): SizeChart | null {
+    const MAX_ROWS = 30;
+    const MAX_COLUMNS = 12;
+
+    for (const table of $('table').toArray()) {
+        const rows = $(table).find('tr').toArray()
+            .map(row => $(row).find('th, td').toArray()
+                .map(cell => $(cell).text().replace(/\s+/g, ' ').trim())
+                .slice(0, MAX_COLUMNS))
+            .filter(cells => cells.some(Boolean));
+
+        if (rows.length < 2 || !/size/i.test(rows[0][0] ?? '')) continue;
+
+        return { headers: rows[0], rows: rows.slice(1, MAX_ROWS + 1) };
+    }
+    return null;
+}
+
+/**
+ * First JSON-LD Product (or ProductGroup) as a product, or null
+ */
+export function productFromJsonLd($: CheerioAPI, url: URL, source?: string): ExtractedProduct | null {
+    const nodes = readJsonLd($);
+    const product = nodes.find(n => hasType(n, 'Product')) ?? nodes.find(n => hasType(n, 'ProductGroup'));
+    if (!product || typeof product.name !== 'string') return null;
+
+    const variants: JsonObject[] = Array.isArray(product.hasVariant) ? product.hasVariant : [];
+    const colorProducts = nodes.filter(n => hasType(n, 'Product') && nameOf(n.color));
+    const details = variantsFromJsonLd(variants.length > 0 ? variants : colorProducts, url);
+    const imageUrls = unique([
+        ...toImageUrls(product.image, url),
+        ...variants.flatMap(v => toImageUrls(v.image, url)),
+    ]);
+
+    const brand = typeof product.brand === 'string' ? product.brand : product.brand?.name;
+
+    const offers = [product.offers, ...variants.map(v => v.offers)]
+        .map(offerPricing)
+        .find(price => price.amount !== null);
+    const pricing = mergeProductPrice(offers ?? emptyProductPrice(), pricingFromMeta($));
+
+    return {
+        name: decodeEntities(product.name),
+        imageUrls,
+        price: formatPrice(pricing.amount, pricing.currency),
+        pricing,
+        source: source || brand || siteName($) || url.hostname.replace('www.', ''),
+        sizes: details.sizes,
+        variants: details.variants,
+        material: materialFromJsonLd(product),
+    };
+}
+
+/**
+ * Parsed __NEXT_DATA__ payload of a Next.js page, or null
+ */
+export function readNextData($: CheerioAPI): JsonObject | null {
+    const text = $('script#__NEXT_DATA__').text();
+    if (!text) return null;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Parse a JSON object assigned in an inline script, e.g. `window.__myx = {...}`
+ */
+export function readAssignedJson(html: string, variable: string): JsonObject | null {
+    const marker = html.indexOf(`${variable} =`) >= 0 ? `${variable} =` : `${variable}=`;
+    const start = html.indexOf(marker);
+    if (start < 0) return null;
+
+    const open = html.indexOf('{', start + marker.length);
+    if (open < 0) return null;
+
+    // Walk to the matching brace, skipping string contents
+    let depth = 0;
+    let inString = false;
+    for (let i = open; i < html.length; i++) {
+        const ch = html[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{') depth++;
+        else if (ch === '}' && --depth === 0) {
+            try {
+                return JSON.parse(html.slice(open, i + 1));
+            } catch {
+                return null;
+            }
+        }
+    }
+    return null;
+}
+
+export function siteName($: CheerioAPI): string | undefined {
+    return $('meta[property="og:site_name"]').attr('content') || undefined;
+}
+
+export function unique(urls: string[]): string[] {
+    return Array.from(new Set(urls));
+}
+
+export function decodeEntities(text: string): string {
+    return text
+        .replace(/&amp;/g, '&')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;|&apos;/g, "'")
+        .trim();
+}
@@ -0,0 +1,16 @@
+/**
+ * Zara Extractor
+ * Product pages publish one JSON-LD Product per colour; the first is the selected one
+ */
+
+import { ProductExtractor } from './types';
+import { productFromJsonLd } from './utils';
+
+export const zaraExtractor: ProductExtractor = {
+    name: 'zara',
+    domains: ['zara.com'],
+
+    extract({ $, url }) {
+        return productFromJsonLd($, url, 'Zara');
+    },
+};
@@ -0,0 +1,32 @@
+/**
+ * HTTP Fetcher
+ * Plain GET with browser-like headers - free and fast, but no JS rendering and easily blocked.
+ */
+
+import { safeFetchText } from '../utils/safeFetch';
+import { PageFetcher, FetchOptions } from './types';
+
+// Largest page accepted (product pages with inlined state can be a few MB)
+const MAX_PAGE_BYTES = 10 * 1024 * 1024;
+
+const BROWSER_HEADERS = {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+    'Accept-Language': 'en-US,en;q=0.9',
+};
+
+export class HttpFetcher implements PageFetcher {
+    readonly name = 'http';
+
+    isAvailable(): boolean {
+        return true;
+    }
+
+    async fetch(url: string, options: FetchOptions): Promise<string> {
+        return safeFetchText(url, {
+            timeoutMs: options.timeoutMs,
+            maxBytes: MAX_PAGE_BYTES,
+            headers: BROWSER_HEADERS,
+        });
+    }
+}
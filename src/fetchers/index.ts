@@ -0,0 +1,117 @@
+/**
+ * Page Fetchers
+ * Download product pages through one of several backends, falling back to the
+ * next when one fails.
+ *
+ * FETCHER_ORDER sets the default order (comma-separated names).
+ * FETCHER_DOMAINS overrides it per site, e.g. "zara.com=puppeteer,scrapedo;myntra.com=http,scrapedo" -
+ * subdomains match their parent domain.
+ */
+
+import { logger } from '../utils/logger';
+import { assertPublicUrl } from '../utils/safeFetch';
+import { PageFetcher, FetchAttempt, FetchPageResult } from './types';
+import { ScrapeDoFetcher } from './scrapedo.fetcher';
+import { PuppeteerFetcher } from './puppeteer.fetcher';
+import { HttpFetcher } from './http.fetcher';
+
+export * from './types';
+export { closeBrowser } from './puppeteer.fetcher';
+
+// Per backend attempt
+const FETCH_TIMEOUT_MS = 30000;
+
+const DEFAULT_ORDER = ['scrapedo', 'puppeteer', 'http'];
+
+const fetchers: Record<string, PageFetcher> = Object.fromEntries(
+    [new ScrapeDoFetcher(), new PuppeteerFetcher(), new HttpFetcher()].map(fetcher => [fetcher.name, fetcher])
+);
+
+function parseOrder(value: string): string[] {
+    const names = value.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+    for (const name of names) {
+        if (!fetchers[name]) {
+            throw new Error(`Unknown page fetcher: ${name}`);
+        }
+    }
+    return names;
+}
+
+function parseDomainStrategies(value: string): Map<string, string[]> {
+    const strategies = new Map<string, string[]>();
+    for (const entry of value.split(';')) {
+        const [domain, order] = entry.split('=');
+        if (!domain?.trim() || !order) continue;
+        strategies.set(domain.trim().toLowerCase().replace(/^www\./, ''), parseOrder(order));
+    }
+    return strategies;
+}
+
+const defaultOrder = process.env.FETCHER_ORDER ? parseOrder(process.env.FETCHER_ORDER) : DEFAULT_ORDER;
+const domainStrategies = parseDomainStrategies(process.env.FETCHER_DOMAINS || '');
+
+/**
+ * Backends to try for a URL, in order - unavailable ones are left out
+ */
+export function getFetchers(url: string): PageFetcher[] {
+    const host = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+
+    let order = defaultOrder;
+    for (const [domain, domainOrder] of domainStrategies) {
+        if (host === domain || host.endsWith(`.${domain}`)) {
+            order = domainOrder;
+            break;
+        }
+    }
+
+    return order.map(name => fetchers[name]).filter(fetcher => fetcher.isAvailable());
+}
+
+/**
+ * Fetch a page's HTML, trying each backend for the site until one returns a page
+ * When every backend fails, html is null and error lists each backend's error.
+ */
+export async function fetchPage(url: string): Promise<FetchPageResult> {
+    const totalStart = Date.now();
+    const attempts: FetchAttempt[] = [];
+
+    try {
+        await assertPublicUrl(url);
+    } catch {
+        return { html: null, fetcher: null, attempts, totalMs: Date.now() - totalStart, error: 'URL_NOT_ALLOWED' };
+    }
+
+    const candidates = getFetchers(url);
+    if (candidates.length === 0) {
+        return { html: null, fetcher: null, attempts, totalMs: 0, error: 'No page fetcher available' };
+    }
+
+    for (const fetcher of candidates) {
+        const start = Date.now();
+        try {
+            const html = await fetcher.fetch(url, { timeoutMs: FETCH_TIMEOUT_MS });
+            if (!html || typeof html !== 'string' || !html.includes('<')) {
+                throw new Error('Response is not HTML');
+            }
+
+            const ms = Date.now() - start;
+            attempts.push({ fetcher: fetcher.name, ms, success: true });
+            logger.info({ fetcher: fetcher.name, duration: ms }, 'Page fetch complete');
+
+            return { html, fetcher: fetcher.name, attempts, totalMs: Date.now() - totalStart };
+        } catch (error: any) {
+            const ms = Date.now() - start;
+            attempts.push({ fetcher: fetcher.name, ms, success: false, error: error?.message || 'Fetch failed' });
+            logger.warn({ fetcher: fetcher.name, url, duration: ms, error: error?.message }, 'Page fetch failed, trying next backend');
+        }
+    }
+
+    const summary = attempts.map(attempt => `${attempt.fetcher}: ${attempt.error}`).join('; ');
+    return {
+        html: null,
+        fetcher: null,
+        attempts,
+        totalMs: Date.now() - totalStart,
+        error: `Could not fetch page (${summary})`,
+    };
+}
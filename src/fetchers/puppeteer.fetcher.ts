@@ -0,0 +1,170 @@
+/**
+ * Puppeteer Fetcher
+ * Self-hosted headless Chrome with the stealth plugin. Renders client-side pages
+ * without paying for a proxy, but uses the server's own IP.
+ *
+ * One browser is shared by the process and closed when idle; the number of
+ * open pages is capped so a burst of parses cannot exhaust memory.
+ *
+ * The browser has no direct network access: all of its traffic, WebSockets included,
+ * goes through the guarded proxy from safeFetch, which refuses internal addresses.
+ */
+
+import puppeteer from 'puppeteer-extra';
+import StealthPlugin from 'puppeteer-extra-plugin-stealth';
+import type { Browser } from 'puppeteer';
+import { logger } from '../utils/logger';
+import { startGuardedProxy } from '../utils/safeFetch';
+import { PageFetcher, FetchOptions } from './types';
+
+puppeteer.use(StealthPlugin());
+
+// Pages rendered at the same time (0 disables the backend)
+const MAX_PAGES = parseInt(process.env.PUPPETEER_MAX_PAGES || '2', 10);
+
+// Browser is closed after this long without a fetch
+const IDLE_CLOSE_MS = 5 * 60 * 1000;
+
+// Longest wait for client-side rendering after the document loads
+const NETWORK_IDLE_WAIT_MS = 8000;
+
+// Not needed for the HTML - skipped to save bandwidth and time
+const BLOCKED_RESOURCES = new Set(['image', 'media', 'font', 'stylesheet']);
+
+let browserPromise: Promise<Browser> | null = null;
+let idleTimer: NodeJS.Timeout | null = null;
+let activePages = 0;
+const waiting: Array<() => void> = [];
+
+async function launchBrowser(): Promise<Browser> {
+    const proxy = await startGuardedProxy();
+    try {
+        const browser = await puppeteer.launch({
+            headless: true,
+            args: [
+                '--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage',
+                `--proxy-server=${proxy.url}`,
+                // Loopback is bypassed by default; send it to the proxy so it gets refused too
+                '--proxy-bypass-list=<-loopback>',
+                // WebRTC could otherwise open UDP connections around the proxy
+                '--force-webrtc-ip-handling-policy=disable_non_proxied_udp',
+            ],
+        });
+        browser.on('disconnected', () => {
+            proxy.close().catch(() => undefined);
+        });
+        return browser;
+    } catch (error) {
+        await proxy.close().catch(() => undefined);
+        throw error;
+    }
+}
+
+async function getBrowser(): Promise<Browser> {
+    if (!browserPromise) {
+        browserPromise = launchBrowser().then(browser => {
+            browser.on('disconnected', () => {
+                browserPromise = null;
+            });
+            logger.info('Headless browser launched');
+            return browser;
+        }).catch(error => {
+            browserPromise = null;
+            throw error;
+        });
+    }
+    return browserPromise;
+}
+
+/**
+ * Wait for a free page slot
+ */
+async function acquireSlot(): Promise<void> {
+    if (idleTimer) {
+        clearTimeout(idleTimer);
+        idleTimer = null;
+    }
+    if (activePages < MAX_PAGES) {
+        activePages++;
+        return;
+    }
+    // The releasing fetch hands its slot straight over
+    await new Promise<void>(resolve => waiting.push(resolve));
+}
+
+function releaseSlot(): void {
+    const next = waiting.shift();
+    if (next) {
+        next();
+        return;
+    }
+
+    activePages--;
+    if (activePages === 0) {
+        idleTimer = setTimeout(() => {
+            idleTimer = null;
+            closeBrowser().catch(err => logger.warn({ err }, 'Failed to close idle browser'));
+        }, IDLE_CLOSE_MS);
+        idleTimer.unref();
+    }
+}
+
+/**
+ * Close the shared browser (idle timeout, shutdown)
+ */
+export async function closeBrowser(): Promise<void> {
+    const pending = browserPromise;
+    browserPromise = null;
+    if (!pending) return;
+
+    const browser = await pending.catch(() => null);
+    await browser?.close();
+}
+
+export class PuppeteerFetcher implements PageFetcher {
+    readonly name = 'puppeteer';
+
+    isAvailable(): boolean {
+        return MAX_PAGES > 0;
+    }
+
+    async fetch(url: string, options: FetchOptions): Promise<string> {
+        await acquireSlot();
+        try {
+            const browser = await getBrowser();
+            const page = await browser.newPage();
+            try {
+                await page.setRequestInterception(true);
+                page.on('request', request => {
+                    if (BLOCKED_RESOURCES.has(request.resourceType())) {
+                        request.abort().catch(() => undefined);
+                        return;
+                    }
+                    // Addresses are checked by the proxy; only the scheme is checked here
+                    if (!/^(https?|data|blob):/.test(request.url())) {
+                        request.abort('addressunreachable').catch(() => undefined);
+                        return;
+                    }
+                    request.continue().catch(() => undefined);
+                });
+
+                const start = Date.now();
+                const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: options.timeoutMs });
+                if (response && response.status() >= 400) {
+                    throw new Error(`Page returned status ${response.status()}`);
+                }
+
+                // Let client-side rendering finish; pages that keep polling are read as they are
+                const remainingMs = Math.max(options.timeoutMs - (Date.now() - start), 0);
+                await page.waitForNetworkIdle({ idleTime: 500, timeout: Math.min(remainingMs, NETWORK_IDLE_WAIT_MS) })
+                    .catch(() => undefined);
+
+                return await page.content();
+            } finally {
+                await page.close().catch(() => undefined);
+            }
+        } finally {
+            releaseSlot();
+        }
+    }
+}
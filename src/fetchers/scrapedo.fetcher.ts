@@ -0,0 +1,29 @@
+/**
+ * scrape.do Fetcher
+ * Paid proxy API with residential IPs and JS rendering - gets past most bot protection.
+ */
+
+import axios from 'axios';
+import { PageFetcher, FetchOptions } from './types';
+
+const SCRAPE_API_URL = 'http://api.scrape.do/';
+
+export class ScrapeDoFetcher implements PageFetcher {
+    readonly name = 'scrapedo';
+
+    isAvailable(): boolean {
+        return !!process.env.SCRAPEAPI;
+    }
+
+    async fetch(url: string, options: FetchOptions): Promise<string> {
+        const response = await axios.get(SCRAPE_API_URL, {
+            params: { url, token: process.env.SCRAPEAPI, super: true },
+            timeout: options.timeoutMs,
+            responseType: 'text',
+            headers: {
+                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+            }
+        });
+        return response.data;
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * Page Fetcher Types
+ */
+
+export interface FetchOptions {
+    timeoutMs: number;
+}
+
+/**
+ * Backend that downloads a product page's HTML
+ */
+export interface PageFetcher {
+    /** Used in strategy config and reported in parse timing, e.g. "scrapedo" */
+    readonly name: string;
+
+    /** False when the backend is not configured (e.g. no API token) - it is skipped */
+    isAvailable(): boolean;
+
+    /** Rendered or raw HTML of the page. Throws when the page could not be fetched. */
+    fetch(url: string, options: FetchOptions): Promise<string>;
+}
+
+/**
+ * One backend's try at fetching a page
+ */
+export interface FetchAttempt {
+    fetcher: string;
+    ms: number;
+    success: boolean;
+    error?: string;
+}
+
+export interface FetchPageResult {
+    html: string | null; // null when every backend failed
+    fetcher: string | null; // Backend that succeeded
+    attempts: FetchAttempt[];
+    totalMs: number;
+    error?: string;
+}
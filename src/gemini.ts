@@ -2,21 +2,35 @@ import { getVertexAccessToken } from './vertex-auth';
 import { getAuthenticatedUrl } from './storage';
 import axios from 'axios';
 import { logger } from './utils/logger';
+import { safeFetchImage } from './utils/safeFetch';
+import { fitToAspectRatio } from './utils/aspectRatio';
 
 /**
- * Generate virtual try-on image using Vertex AI Virtual Try-On API
+ * Whether a Vertex AI request error is transient and worth retrying
+ * (timeouts, rate limiting and 5xx responses)
+ */
+export function isRetryableVertexError(err: any): boolean {
+    const status = err?.response?.status;
+    const isTimeout = err?.code === 'ECONNABORTED' || err?.code === 'ETIMEDOUT' || err?.message?.includes('timeout');
+    const isNetworkError = err?.code === 'ECONNRESET' || err?.code === 'EAI_AGAIN';
+    return isTimeout || isNetworkError || status === 429 || (status >= 500 && status < 600);
+}
+
+/**
+ * Generate virtual try-on images using Vertex AI Virtual Try-On API - one per sample
  * Model: virtual-try-on-preview-08-04
  */
 export async function generateVirtualTryOn(
     bodyPhotoUrl: string,
     productBase64s: string[],
     productName: string,
-    aspectRatio: string = '3:4'
-): Promise<string> {
+    aspectRatio?: string,
+    sampleCount: number = 1
+): Promise<string[]> {
     const totalStart = Date.now();
 
     try {
-        logger.info({ productName, aspectRatio }, 'Starting Vertex AI try-on');
+        logger.info({ productName, aspectRatio, sampleCount }, 'Starting Vertex AI try-on');
 
         // 1. Validate Environment
         const projectId = process.env.GOOGLE_CLOUD_PROJECT_ID;
@@ -35,11 +49,10 @@ export async function generateVirtualTryOn(
             finalBodyUrl = await getAuthenticatedUrl(bodyPhotoUrl);
         }
 
-        const bodyResponse = await axios.get(finalBodyUrl, {
-            responseType: 'arraybuffer',
-            timeout: 15000
-        });
-        const bodyBase64 = Buffer.from(bodyResponse.data).toString('base64');
+        const bodyImage = await safeFetchImage(finalBodyUrl, { timeoutMs: 15000 });
+        // The API keeps the person photo's shape, so the output ratio is set by fitting the input
+        const bodyBuffer = aspectRatio ? await fitToAspectRatio(bodyImage.buffer, aspectRatio) : bodyImage.buffer;
+        const bodyBase64 = bodyBuffer.toString('base64');
         logger.info({ duration: Date.now() - downloadStart }, 'Body image downloaded');
 
         // 3. Prepare Product Image (Use the first one as the main product)
@@ -76,7 +89,7 @@ export async function generateVirtualTryOn(
                 }
             ],
             parameters: {
-                sampleCount: 1,
+                sampleCount,
                 // Optional parameters
                 // seed: 12345,
                 // personGeneration: "allow_adult", 
@@ -109,10 +122,8 @@ export async function generateVirtualTryOn(
                 break;
             } catch (err: any) {
                 lastError = err;
-                const isTimeout = err.code === 'ECONNABORTED' || err.message?.includes('timeout');
-                const isRetryable = isTimeout || (err.response?.status >= 500 && err.response?.status < 600);
 
-                if (attempt < maxRetries && isRetryable) {
+                if (attempt < maxRetries && isRetryableVertexError(err)) {
                     logger.warn({ attempt: attempt + 1, error: err.message }, 'Vertex AI request failed, will retry...');
                     // Small delay before retry
                     await new Promise(resolve => setTimeout(resolve, 2000));
@@ -135,15 +146,16 @@ export async function generateVirtualTryOn(
             throw new Error('No predictions returned from Vertex AI');
         }
 
-        const prediction = response.data.predictions[0];
-        const outputBase64 = prediction.bytesBase64Encoded;
+        const outputs: string[] = response.data.predictions
+            .map((prediction: any) => prediction.bytesBase64Encoded)
+            .filter(Boolean);
 
-        if (!outputBase64) {
+        if (outputs.length === 0) {
             throw new Error('Empty image data in Vertex AI response');
         }
 
-        logger.info({ duration: Date.now() - totalStart }, 'Vertex try-on complete');
-        return outputBase64;
+        logger.info({ duration: Date.now() - totalStart, samples: outputs.length }, 'Vertex try-on complete');
+        return outputs;
 
     } catch (error: any) {
         logger.error({ error: error.message, details: error.response?.data }, 'Error generating virtual try-on');
@@ -228,11 +240,8 @@ export async function generateWithPose(options: PoseGenerationOptions): Promise<
         if (modelImageUrl.startsWith('r2://') || modelImageUrl.includes('backblazeb2.com')) {
             finalModelUrl = await getAuthenticatedUrl(modelImageUrl);
         }
-        const modelResponse = await axios.get(finalModelUrl, {
-            responseType: 'arraybuffer',
-            timeout: 30000
-        });
-        modelBase64 = Buffer.from(modelResponse.data).toString('base64');
+        const modelImage = await safeFetchImage(finalModelUrl, { timeoutMs: 30000 });
+        modelBase64 = modelImage.buffer.toString('base64');
         logger.debug('Model image downloaded');
 
         // Download pose image if provided
@@ -241,11 +250,8 @@ export async function generateWithPose(options: PoseGenerationOptions): Promise<
             if (poseImageUrl.startsWith('r2://') || poseImageUrl.includes('backblazeb2.com')) {
                 finalPoseUrl = await getAuthenticatedUrl(poseImageUrl);
             }
-            const poseResponse = await axios.get(finalPoseUrl, {
-                responseType: 'arraybuffer',
-                timeout: 30000
-            });
-            poseBase64 = Buffer.from(poseResponse.data).toString('base64');
+            const poseImage = await safeFetchImage(finalPoseUrl, { timeoutMs: 30000 });
+            poseBase64 = poseImage.buffer.toString('base64');
             logger.debug('Pose image downloaded');
         }
 
@@ -257,11 +263,8 @@ export async function generateWithPose(options: PoseGenerationOptions): Promise<
                 if (propImageUrl.startsWith('r2://') || propImageUrl.includes('backblazeb2.com')) {
                     finalPropUrl = await getAuthenticatedUrl(propImageUrl);
                 }
-                const propResponse = await axios.get(finalPropUrl, {
-                    responseType: 'arraybuffer',
-                    timeout: 30000
-                });
-                propBase64 = Buffer.from(propResponse.data).toString('base64');
+                const propImage = await safeFetchImage(finalPropUrl, { timeoutMs: 30000 });
+                propBase64 = propImage.buffer.toString('base64');
                 logger.debug('Prop image downloaded for style reference');
             } catch (err: any) {
                 logger.warn({ error: err.message }, 'Failed to download prop image, continuing without style reference');
@@ -0,0 +1,207 @@
+import sharp from 'sharp';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { logger } from './utils/logger';
+import { emptyProductPrice } from './utils/price';
+import { GARMENT_CATEGORIES, GarmentCategory, isGarmentCategory } from './utils/garments';
+import { ImageClassification, emptyProductDetails, parseJsonSafely } from './linkParser';
+
+const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+
+// Photos are normalised to this long edge before detection; boxes are mapped onto the same pixels
+const MAX_IMAGE_EDGE = 2048;
+
+// Garments returned per photo
+const MAX_ITEMS = 5;
+
+// Boxes smaller than this fraction of the photo are accessories in the background, not the subject
+const MIN_BOX_AREA = 0.01;
+
+// Crops are widened by this fraction of the box on each side so edges are not cut off
+const BOX_PADDING = 0.04;
+
+// Gemini box coordinates are normalised to 0-1000
+const BOX_SCALE = 1000;
+
+export interface DetectedGarment {
+    name: string;
+    category: GarmentCategory | null;
+    color: string | null;
+    material: string | null;
+    classification: ImageClassification['type'];
+    confidence: number;
+    box: { left: number; top: number; width: number; height: number }; // Pixels in the normalised photo
+    crop: Buffer; // JPEG
+}
+
+export interface ImageParseResult {
+    success: boolean;
+    error?: string;
+    garments: DetectedGarment[];
+    timing: {
+        detectMs: number;
+        cropMs: number;
+        totalMs: number;
+    };
+    tokensUsed: {
+        input: number;
+        output: number;
+    };
+}
+
+/**
+ * Placeholder product fields for a garment found in a photo - there is no page to read a price or sizes from
+ */
+export function garmentProductFields(garment: DetectedGarment) {
+    return {
+        name: garment.name,
+        price: '',
+        pricing: emptyProductPrice(),
+        source: 'Photo',
+        ...emptyProductDetails(),
+        material: garment.material,
+    };
+}
+
+/**
+ * Detect garments in a screenshot or photo with Gemini vision and crop each one out
+ * Throws INVALID_IMAGE when the upload cannot be decoded.
+ */
+export async function parseProductImage(image: Buffer): Promise<ImageParseResult> {
+    const totalStart = Date.now();
+    let detectMs = 0, cropMs = 0;
+    const tokensUsed = { input: 0, output: 0 };
+
+    // Apply EXIF rotation and shrink once, so the model and the crops see the same pixels
+    let normalized: { data: Buffer; info: sharp.OutputInfo };
+    try {
+        normalized = await sharp(image)
+            .rotate()
+            .resize(MAX_IMAGE_EDGE, MAX_IMAGE_EDGE, { fit: 'inside', withoutEnlargement: true })
+            .jpeg({ quality: 90 })
+            .toBuffer({ resolveWithObject: true });
+    } catch {
+        throw new Error('INVALID_IMAGE');
+    }
+    const { width, height } = normalized.info;
+
+    try {
+        logger.info({ width, height }, 'Starting garment detection');
+
+        const detectStart = Date.now();
+        const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+
+        const prompt = `You are analyzing a photo or screenshot for a virtual try-on fashion app.
+The user wants to try on the clothes shown in it.
+
+Find every distinct CLOTHING ITEM, SHOE or BAG that is clearly visible (at most ${MAX_ITEMS}, most prominent first).
+IGNORE: items that are mostly hidden or cut off, people's skin and hair, background objects, app UI, text overlays.
+
+For each item provide:
+1. name: short shopping-style name, e.g. "Black Leather Biker Jacket"
+2. category: one of ${GARMENT_CATEGORIES.map(category => `"${category}"`).join(', ')}
+3. color: main colour
+4. material: visible material, or null if unclear
+5. type: "product_only" if the item is shown on its own (flat-lay, hanger, packshot),
+   "model_full_outfit" if it is worn by a person, "unclear" otherwise
+6. confidence: 0.0 to 1.0
+7. box_2d: bounding box as [ymin, xmin, ymax, xmax], normalised to 0-${BOX_SCALE}
+
+Return ONLY valid JSON (no markdown, no code fences):
+{
+  "items": [
+    {"name": "Black Leather Biker Jacket", "category": "outerwear", "color": "Black", "material": "Leather", "type": "model_full_outfit", "confidence": 0.9, "box_2d": [120, 250, 560, 780]}
+  ]
+}`;
+
+        const result = await model.generateContent([
+            prompt,
+            { inlineData: { mimeType: 'image/jpeg', data: normalized.data.toString('base64') } },
+        ]);
+        const responseText = result.response.text();
+
+        const usageMetadata = result.response.usageMetadata;
+        if (usageMetadata) {
+            tokensUsed.input = usageMetadata.promptTokenCount || 0;
+            tokensUsed.output = usageMetadata.candidatesTokenCount || 0;
+        }
+
+        detectMs = Date.now() - detectStart;
+        logger.info({ duration: detectMs }, 'Garment detection complete');
+
+        const parsed = parseJsonSafely(responseText);
+        if (!parsed || !Array.isArray(parsed.items)) {
+            throw new Error('Failed to parse Gemini response as JSON');
+        }
+
+        // Step 2: Crop each detected item
+        const cropStart = Date.now();
+        const garments: DetectedGarment[] = [];
+
+        for (const item of parsed.items.slice(0, MAX_ITEMS)) {
+            const box = toPixelBox(item?.box_2d, width, height);
+            if (!box || typeof item.name !== 'string' || !item.name.trim()) continue;
+
+            const crop = await sharp(normalized.data)
+                .extract(box)
+                .jpeg({ quality: 90 })
+                .toBuffer();
+
+            garments.push({
+                name: item.name.trim(),
+                category: isGarmentCategory(item.category) ? item.category : null,
+                color: typeof item.color === 'string' ? item.color : null,
+                material: typeof item.material === 'string' && item.material.trim() ? item.material.trim() : null,
+                classification: ['product_only', 'model_full_outfit'].includes(item.type) ? item.type : 'unclear',
+                confidence: typeof item.confidence === 'number' ? Math.min(Math.max(item.confidence, 0), 1) : 0.5,
+                box,
+                crop,
+            });
+        }
+        cropMs = Date.now() - cropStart;
+
+        const totalMs = Date.now() - totalStart;
+        logger.info({ duration: totalMs, detected: parsed.items.length, cropped: garments.length }, 'Image parse complete');
+
+        return {
+            success: garments.length > 0,
+            error: garments.length > 0 ? undefined : 'No clothing items found in the image',
+            garments,
+            timing: { detectMs, cropMs, totalMs },
+            tokensUsed,
+        };
+    } catch (error: any) {
+        const totalMs = Date.now() - totalStart;
+        logger.error({ duration: totalMs, error: error?.message || error }, 'Image parse failed');
+
+        return {
+            success: false,
+            error: error?.message || 'Could not parse image',
+            garments: [],
+            timing: { detectMs, cropMs, totalMs },
+            tokensUsed,
+        };
+    }
+}
+
+/**
+ * Padded pixel box from Gemini's [ymin, xmin, ymax, xmax] (0-1000), or null if it is unusable or tiny
+ */
+function toPixelBox(raw: unknown, width: number, height: number) {
+    if (!Array.isArray(raw) || raw.length !== 4 || !raw.every(value => typeof value === 'number' && Number.isFinite(value))) {
+        return null;
+    }
+
+    const [yMin, xMin, yMax, xMax] = raw.map(value => Math.min(Math.max(value / BOX_SCALE, 0), 1));
+    if (xMax <= xMin || yMax <= yMin || (xMax - xMin) * (yMax - yMin) < MIN_BOX_AREA) {
+        return null;
+    }
+
+    const padX = (xMax - xMin) * BOX_PADDING;
+    const padY = (yMax - yMin) * BOX_PADDING;
+    const left = Math.floor(Math.max(xMin - padX, 0) * width);
+    const top = Math.floor(Math.max(yMin - padY, 0) * height);
+    const right = Math.ceil(Math.min(xMax + padX, 1) * width);
+    const bottom = Math.ceil(Math.min(yMax + padY, 1) * height);
+
+    return { left, top, width: right - left, height: bottom - top };
+}
@@ -1,14 +1,53 @@
-import axios from 'axios';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { logger } from './utils/logger';
+import { safeFetchImage } from './utils/safeFetch';
+import { fetchPage, FetchAttempt } from './fetchers';
+import { extractProduct, extractPageFallbacks } from './extractors';
+import { collectSizes, slugify } from './extractors/utils';
+import { ProductPrice, buildProductPrice, emptyProductPrice, mergeProductPrice, parsePriceText } from './utils/price';
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-const SCRAPE_API_TOKEN = process.env.SCRAPEAPI;
 
-export interface ProductInfo {
+// Same cap the Gemini prompt asks for
+const MAX_PRODUCT_IMAGES = 6;
+
+// Colour variants kept per product
+const MAX_VARIANTS = 12;
+
+// "hit" = fresh cached result, "stale" = cached result being refreshed in the background
+export type ProductCacheStatus = 'hit' | 'stale' | 'miss';
+
+export interface ProductSize {
+    label: string; // As the store shows it, e.g. "M" or "UK 8"
+    inStock: boolean | null;
+}
+
+export interface ProductVariant {
+    id: string; // Store SKU when available, otherwise derived from the colour
+    color: string | null;
+    imageUrls: string[];
+    url: string | null; // Page for this variant, if the store has one
+    inStock: boolean | null;
+}
+
+export interface SizeChart {
+    headers: string[];
+    rows: string[][];
+}
+
+/** Optional details - empty when the page does not have them */
+export interface ProductDetails {
+    sizes: ProductSize[];
+    variants: ProductVariant[];
+    material: string | null;
+    sizeChart: SizeChart | null;
+}
+
+export interface ProductInfo extends ProductDetails {
     name: string;
     imageUrls: string[];
-    price: string;
+    price: string; // Display string, e.g. "₹2,999"
+    pricing: ProductPrice;
     source: string;
     originalUrl: string;
 }
@@ -17,8 +56,14 @@ export interface ParseResult {
     success: boolean;
     error?: string;
     product: ProductInfo;
+    strategy?: string; // Extractor name (e.g. "myntra", "json-ld") or "gemini"
+    productId?: string; // Row in the products table, set once the result is persisted
+    cacheStatus?: ProductCacheStatus;
     timing?: {
-        scrapeMs: number;
+        scrapeMs: number; // Page fetch, including failed backends
+        fetcher?: string; // Backend that returned the page
+        fetchAttempts?: FetchAttempt[];
+        extractMs?: number;
         geminiMs: number;
         totalMs: number;
     };
@@ -46,8 +91,13 @@ export interface OutfitParseResult {
     success: boolean;
     error?: string;
     product: EnhancedProductInfo;
+    strategy?: string;
+    productId?: string;
+    cacheStatus?: ProductCacheStatus;
     timing?: {
         scrapeMs: number;
+        fetcher?: string;
+        fetchAttempts?: FetchAttempt[];
         geminiMs: number;
         classificationMs: number;
         totalMs: number;
@@ -62,7 +112,7 @@ export interface OutfitParseResult {
     };
 }
 
-function parseJsonSafely(text: string) {
+export function parseJsonSafely(text: string) {
     try {
         return JSON.parse(text);
     } catch {
@@ -239,39 +289,98 @@ function sanitizeImageUrl(url: string): string | null {
 }
 
 
+export function emptyProductDetails(): ProductDetails {
+    return { sizes: [], variants: [], material: null, sizeChart: null };
+}
+
 /**
- * Parse product link using scrape.do + Gemini AI (direct HTML analysis)
+ * Sanitize variant images the same way as product images; variants without usable images are dropped
+ */
+function sanitizeVariants(variants: ProductVariant[]): ProductVariant[] {
+    return variants
+        .map(variant => ({
+            ...variant,
+            imageUrls: variant.imageUrls
+                .map(imgUrl => sanitizeImageUrl(imgUrl))
+                .filter((imgUrl): imgUrl is string => imgUrl !== null)
+                .slice(0, MAX_PRODUCT_IMAGES),
+        }))
+        .filter(variant => variant.imageUrls.length > 0)
+        .slice(0, MAX_VARIANTS);
+}
+
+/**
+ * Variants as returned by Gemini: [{ color, imageUrls, inStock }]
+ */
+function variantsFromAI(raw: unknown): ProductVariant[] {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter(item => item && typeof item.color === 'string' && item.color.trim() && Array.isArray(item.imageUrls))
+        .map(item => ({
+            id: slugify(item.color),
+            color: item.color.trim(),
+            imageUrls: item.imageUrls.filter((imgUrl: unknown): imgUrl is string => typeof imgUrl === 'string'),
+            url: null,
+            inStock: typeof item.inStock === 'boolean' ? item.inStock : null,
+        }));
+}
+
+/**
+ * Parse product link: fetch the page (scrape.do, headless browser or plain HTTP, per site),
+ * then a site extractor, then Gemini AI (direct HTML analysis)
  */
 export async function parseProductLink(url: string): Promise<ParseResult> {
     const totalStart = Date.now();
-    let scrapeMs = 0, geminiMs = 0;
+    let scrapeMs = 0, extractMs = 0, geminiMs = 0;
+    let fetcher: string | undefined;
+    let fetchAttempts: FetchAttempt[] = [];
     let tokensUsed = { input: 0, output: 0 };
 
     try {
         logger.info({ url }, 'Starting link parse');
 
-        // Step 1: Fetch HTML via scrape.do
-        const scrapeStart = Date.now();
-        const encodedUrl = encodeURIComponent(url);
-        const scrapeUrl = `http://api.scrape.do/?url=${encodedUrl}&token=${SCRAPE_API_TOKEN}&super=true`;
+        // Step 1: Fetch HTML, falling back through the site's backends
+        const page = await fetchPage(url);
+        scrapeMs = page.totalMs;
+        fetchAttempts = page.attempts;
+        fetcher = page.fetcher ?? undefined;
 
-        logger.debug('Fetching via scrape.do (Super Proxy)');
-        const response = await axios.get(scrapeUrl, {
-            timeout: 30000,
-            headers: {
-                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
-            }
-        });
+        if (!page.html) {
+            throw new Error(page.error || 'Could not fetch page');
+        }
+        const html = page.html;
+
+        // Step 2: Structured data on the page - no Gemini call for supported stores
+        const extractStart = Date.now();
+        const extracted = extractProduct(html, url);
+        extractMs = Date.now() - extractStart;
 
-        const html = response.data;
-        scrapeMs = Date.now() - scrapeStart;
-        logger.info({ duration: scrapeMs }, 'Scrape.do fetch complete');
+        if (extracted) {
+            const imageUrls = extracted.product.imageUrls
+                .map(imgUrl => sanitizeImageUrl(imgUrl))
+                .filter((imgUrl): imgUrl is string => imgUrl !== null)
+                .slice(0, MAX_PRODUCT_IMAGES);
 
-        if (!html || typeof html !== 'string') {
-            throw new Error('Invalid HTML response from scrape.do');
+            if (imageUrls.length > 0) {
+                const totalMs = Date.now() - totalStart;
+                logger.info({ duration: totalMs, url, strategy: extracted.extractor }, 'Link parse complete');
+
+                return {
+                    success: true,
+                    strategy: extracted.extractor,
+                    product: {
+                        ...extracted.product,
+                        imageUrls,
+                        variants: sanitizeVariants(extracted.product.variants),
+                        originalUrl: url,
+                    },
+                    timing: { scrapeMs, fetcher, fetchAttempts, extractMs, geminiMs, totalMs },
+                    tokensUsed,
+                };
+            }
         }
 
-        // Step 2: Clean HTML and send directly to Gemini
+        // Step 3: Clean HTML and send directly to Gemini
         const geminiStart = Date.now();
 
         // NEW: Extract candidate images from RAW HTML before cleaning/truncation
@@ -293,9 +402,11 @@ ${cleanedHtml}
 YOUR TASK:
 Extract the following from this product page:
 1. Product name/title
-2. Price (with currency symbol)
+2. Price (with currency symbol), plus the numeric current price, the ISO currency code,
+   the original price before any discount, and whether the product is in stock
 3. The MAIN PRODUCT IMAGE URLs (hero images showing the actual product being sold)
 4. Store/brand name
+5. Available sizes, colour variants (with each colour's image URLs) and material, if shown
 
 CRITICAL RULES FOR IMAGES:
 - Analyze both the HTML context AND the "CANDIDATE IMAGE URLS" list provided above.
@@ -308,8 +419,15 @@ Return ONLY valid JSON (no markdown, no code fences):
 {
   "name": "Product Name",
   "price": "₹2,999" or "$49.90" or "",
+  "priceAmount": 2999 or null,
+  "currency": "INR" or null,
+  "originalPriceAmount": 3999 or null,
+  "inStock": true or false or null,
   "source": "Store Name",
-  "imageUrls": ["url1", "url2"]
+  "imageUrls": ["url1", "url2"],
+  "sizes": [{ "label": "M", "inStock": true }],
+  "variants": [{ "color": "Black", "imageUrls": ["url3"], "inStock": true }],
+  "material": "100% Cotton" or null
 }`;
 
         const result = await model.generateContent(prompt);
@@ -333,7 +451,7 @@ Return ONLY valid JSON (no markdown, no code fences):
         }
 
         const totalMs = Date.now() - totalStart;
-        logger.info({ duration: totalMs, url }, 'Link parse complete');
+        logger.info({ duration: totalMs, url, strategy: 'gemini' }, 'Link parse complete');
 
         const hostname = new URL(url).hostname.replace('www.', '');
 
@@ -343,17 +461,39 @@ Return ONLY valid JSON (no markdown, no code fences):
             .map((imgUrl: string) => sanitizeImageUrl(imgUrl))
             .filter((imgUrl: string | null): imgUrl is string => imgUrl !== null);
 
+        // Meta tags are more reliable than the model for numbers; the model fills the gaps
+        const fallbacks = extractPageFallbacks(html);
+        const priceText = parsePriceText(parsed.price);
+        const pricing = mergeProductPrice(fallbacks.pricing, buildProductPrice({
+            amount: parsed.priceAmount ?? priceText.amount,
+            currency: parsed.currency ?? priceText.currency,
+            originalAmount: parsed.originalPriceAmount,
+            inStock: parsed.inStock,
+        }));
+
         return {
             success: true,
+            strategy: 'gemini',
             product: {
                 name: parsed.name || hostname,
                 imageUrls: sanitizedImageUrls,
                 price: parsed.price || '',
+                pricing,
                 source: parsed.source || hostname,
+                sizes: collectSizes(Array.isArray(parsed.sizes) ? parsed.sizes.map((size: any) => ({
+                    label: size?.label,
+                    inStock: typeof size?.inStock === 'boolean' ? size.inStock : null,
+                })) : []),
+                variants: sanitizeVariants(variantsFromAI(parsed.variants)),
+                material: typeof parsed.material === 'string' && parsed.material.trim() ? parsed.material.trim() : null,
+                sizeChart: fallbacks.sizeChart,
                 originalUrl: url
             },
             timing: {
                 scrapeMs,
+                fetcher,
+                fetchAttempts,
+                extractMs,
                 geminiMs,
                 totalMs
             },
@@ -371,11 +511,16 @@ Return ONLY valid JSON (no markdown, no code fences):
                 name: 'Product',
                 imageUrls: [],
                 price: '',
+                pricing: emptyProductPrice(),
                 source: 'Unknown',
+                ...emptyProductDetails(),
                 originalUrl: url
             },
             timing: {
                 scrapeMs,
+                fetcher,
+                fetchAttempts,
+                extractMs,
                 geminiMs,
                 totalMs
             },
@@ -408,21 +553,17 @@ export async function classifyProductImagesForOutfit(imageUrls: string[]): Promi
 
         for (const url of imageUrls.slice(0, 10)) { // Limit to 10 images max
             try {
-                const response = await axios.get(url, {
-                    responseType: 'arraybuffer',
-                    timeout: 10000,
+                const image = await safeFetchImage(url, {
+                    timeoutMs: 10000,
                     headers: {
                         'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
                     }
                 });
 
-                const contentType = response.headers['content-type'] || 'image/jpeg';
-                const base64 = Buffer.from(response.data).toString('base64');
-
                 imageContents.push({
                     inlineData: {
-                        mimeType: contentType,
-                        data: base64
+                        mimeType: image.contentType,
+                        data: image.buffer.toString('base64')
                     }
                 });
             } catch (err: any) {
@@ -560,6 +701,7 @@ export async function parseProductLinkForOutfit(url: string): Promise<OutfitPars
             return {
                 success: baseResult.success,
                 error: baseResult.error,
+                strategy: baseResult.strategy,
                 product: {
                     ...baseResult.product,
                     classifiedImages: [],
@@ -568,6 +710,8 @@ export async function parseProductLinkForOutfit(url: string): Promise<OutfitPars
                 },
                 timing: {
                     scrapeMs: baseResult.timing?.scrapeMs || 0,
+                    fetcher: baseResult.timing?.fetcher,
+                    fetchAttempts: baseResult.timing?.fetchAttempts,
                     geminiMs: baseResult.timing?.geminiMs || 0,
                     classificationMs: 0,
                     totalMs: Date.now() - totalStart
@@ -604,6 +748,7 @@ export async function parseProductLinkForOutfit(url: string): Promise<OutfitPars
 
         return {
             success: true,
+            strategy: baseResult.strategy,
             product: {
                 ...baseResult.product,
                 classifiedImages: classifications,
@@ -612,6 +757,8 @@ export async function parseProductLinkForOutfit(url: string): Promise<OutfitPars
             },
             timing: {
                 scrapeMs: baseResult.timing?.scrapeMs || 0,
+                fetcher: baseResult.timing?.fetcher,
+                fetchAttempts: baseResult.timing?.fetchAttempts,
                 geminiMs: baseResult.timing?.geminiMs || 0,
                 classificationMs,
                 totalMs: Date.now() - totalStart
@@ -632,7 +779,9 @@ export async function parseProductLinkForOutfit(url: string): Promise<OutfitPars
                 name: 'Product',
                 imageUrls: [],
                 price: '',
+                pricing: emptyProductPrice(),
                 source: 'Unknown',
+                ...emptyProductDetails(),
                 originalUrl: url,
                 classifiedImages: [],
                 preferredImageUrl: null,
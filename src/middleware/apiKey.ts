@@ -0,0 +1,67 @@
+/**
+ * API Key Middleware
+ * Lets business customers call selected endpoints with X-Api-Key instead of a user token
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest, authenticateUser } from './auth';
+import { apiKeysService, ApiKeyScope } from '../modules/api-keys/api-keys.service';
+import { cacheService } from '../services/cache.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Middleware factory: authenticate with X-Api-Key (requiring the given scope), else fall back to authenticateUser
+ * The key owner becomes req.user, so downstream handlers behave exactly as for a logged-in user.
+ */
+export function authenticateUserOrApiKey(scope: ApiKeyScope) {
+    return async (req: AuthRequest, res: Response, next: NextFunction) => {
+        const key = req.header('x-api-key');
+        if (!key) {
+            return authenticateUser(req, res, next);
+        }
+
+        try {
+            const result = await apiKeysService.findActiveKey(key);
+            if (!result) {
+                return res.status(401).json({ error: 'Invalid API key', code: 'INVALID_API_KEY' });
+            }
+
+            const { apiKey, owner } = result;
+
+            if (!apiKey.scopes.includes(scope)) {
+                return res.status(403).json({
+                    error: 'API key is missing a required scope',
+                    code: 'INSUFFICIENT_SCOPE',
+                    requiredScope: scope,
+                });
+            }
+
+            // Fixed one-minute window per key
+            const window = Math.floor(Date.now() / 60000);
+            const count = await cacheService.increment(`apikey:ratelimit:${apiKey.id}:${window}`, 60);
+            res.setHeader('X-RateLimit-Limit', apiKey.rateLimitPerMinute);
+            if (count !== null) {
+                res.setHeader('X-RateLimit-Remaining', Math.max(0, apiKey.rateLimitPerMinute - count));
+                if (count > apiKey.rateLimitPerMinute) {
+                    return res.status(429).json({ error: 'API key rate limit exceeded', code: 'RATE_LIMITED' });
+                }
+            }
+
+            // Metered once the route is known (route pattern, not raw path, so ids don't split counts).
+            // Metering must never fail the request.
+            const baseUrl = req.baseUrl;
+            res.on('finish', () => {
+                const endpoint = `${req.method} ${baseUrl}${req.route?.path ?? req.path}`;
+                apiKeysService.recordUsage(apiKey.id, endpoint)
+                    .catch(err => logger.warn({ apiKeyId: apiKey.id, error: err.message }, 'Failed to record API key usage'));
+            });
+
+            req.user = owner;
+            req.apiKeyId = apiKey.id;
+            next();
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'API Key Middleware Error');
+            res.status(401).json({ error: 'Authentication failed' });
+        }
+    };
+}
@@ -1,26 +1,89 @@
 import { Request, Response, NextFunction } from 'express';
 import { OAuth2Client } from 'google-auth-library';
-import { eq } from 'drizzle-orm';
+import { eq, and, isNull } from 'drizzle-orm';
 import { db } from '../db';
-import { users } from '../db/schema';
+import { users, userSessions, User } from '../db/schema';
+import { verifyAccessToken, AccessTokenPayload } from '../utils/tokens';
 import { logger } from '../utils/logger';
 
 const client = new OAuth2Client(process.env.GOOGLE_WEB_CLIENT_ID);
-const isProduction = process.env.NODE_ENV === 'production';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Raw user-ID bearer tokens are accepted until this date (ISO) so old app builds keep working
+const LEGACY_UUID_AUTH_UNTIL = process.env.LEGACY_UUID_AUTH_UNTIL ? new Date(process.env.LEGACY_UUID_AUTH_UNTIL) : null;
 
 export interface AuthRequest extends Request {
     user?: any;
+    sessionId?: string; // Set when authenticated with an access token
+    apiKeyId?: string; // Set when authenticated with X-Api-Key
+}
+
+function isLegacyUuidAuthAllowed(): boolean {
+    return !!LEGACY_UUID_AUTH_UNTIL && LEGACY_UUID_AUTH_UNTIL > new Date();
+}
+
+/**
+ * Resolve the user for a bearer token
+ * Returns the user and the method used, or null if the token is not valid.
+ */
+async function resolveUser(token: string): Promise<{ user: User; method: string; sessionId?: string } | null> {
+    // 1. Signed access token issued by /auth/google or /auth/refresh - its session must not be revoked
+    const claims = verifyAccessToken<AccessTokenPayload & { sid?: string }>(token);
+    if (claims) {
+        if (!claims.sid) return null;
+
+        const [user, session] = await Promise.all([
+            db.query.users.findFirst({ where: eq(users.id, claims.sub) }),
+            db.query.userSessions.findFirst({
+                where: and(eq(userSessions.id, claims.sid), isNull(userSessions.revokedAt)),
+                columns: { id: true },
+            }),
+        ]);
+        return user && session ? { user, method: 'access_token', sessionId: session.id } : null;
+    }
+
+    // 2. Legacy raw user ID - only during the migration window
+    if (uuidRegex.test(token)) {
+        if (!isLegacyUuidAuthAllowed()) return null;
+
+        const user = await db.query.users.findFirst({
+            where: eq(users.id, token),
+        });
+        if (user) {
+            logger.warn({ userId: user.id }, 'Deprecated user-ID bearer auth used');
+        }
+        return user ? { user, method: 'legacy_uuid' } : null;
+    }
+
+    // 3. Google ID token
+    const ticket = await client.verifyIdToken({
+        idToken: token,
+        audience: process.env.GOOGLE_WEB_CLIENT_ID,
+    });
+
+    const payload = ticket.getPayload();
+    if (!payload || !payload.sub) return null;
+
+    const user = await db.query.users.findFirst({
+        where: eq(users.googleId, payload.sub),
+    });
+    if (!user) return null;
+
+    // Not tied to a session, so "log out everywhere" is enforced by issue time
+    if (user.tokensValidAfter && (payload.iat ?? 0) < Math.floor(user.tokensValidAfter.getTime() / 1000)) {
+        return null;
+    }
+    return { user, method: 'google' };
 }
 
 /**
  * Middleware: Authenticate user
  * 
- * Supports two authentication methods:
- * 1. Google ID Token (production): Authorization: Bearer <googleIdToken>
- * 2. User ID (development/temporary): Authorization: Bearer <userId> (UUID format)
- * 
- * The UUID-based auth is temporary until proper Google Sign-In is fully integrated.
- * In production, this should be replaced with proper JWT tokens.
+ * Supported bearer tokens:
+ * 1. Access token issued by /auth/google or /auth/refresh (short-lived, HS256, rejected once its session is revoked)
+ * 2. Google ID token (rejected if issued before the user's last "log out everywhere")
+ * 3. Raw user ID - deprecated, only accepted until LEGACY_UUID_AUTH_UNTIL
  */
 export async function authenticateUser(req: AuthRequest, res: Response, next: NextFunction) {
     const authStart = Date.now();
@@ -31,52 +94,16 @@ export async function authenticateUser(req: AuthRequest, res: Response, next: Ne
         }
 
         const token = authHeader.split(' ')[1];
+        const result = await resolveUser(token);
 
-        // Check if token is a UUID (userId-based auth)
-        // This is used when the client stores userId after OAuth login
-        // The user was already authenticated during /auth/google flow
-        const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-
-        if (uuidRegex.test(token)) {
-            // userId-based authentication - user was already OAuth verified during login
-            const user = await db.query.users.findFirst({
-                where: eq(users.id, token),
-            });
-
-            if (!user) {
-                return res.status(401).json({ error: 'User not found' });
-            }
-
-            req.user = user;
-            logger.debug({ userId: user.id, duration: Date.now() - authStart }, 'Auth (userId)');
-            return next();
-        }
-
-        // Google ID Token verification
-        const ticket = await client.verifyIdToken({
-            idToken: token,
-            audience: process.env.GOOGLE_WEB_CLIENT_ID,
-        });
-
-        const payload = ticket.getPayload();
-        if (!payload || !payload.sub) {
-            return res.status(401).json({ error: 'Invalid Token' });
-        }
-
-        const googleId = payload.sub;
-
-        // Find user in DB by Google ID
-        const user = await db.query.users.findFirst({
-            where: eq(users.googleId, googleId),
-        });
-
-        if (!user) {
-            return res.status(401).json({ error: 'User not found' });
+        if (!result) {
+            return res.status(401).json({ error: 'Invalid or expired token', code: 'INVALID_TOKEN' });
         }
 
         // Attach user to request
-        req.user = user;
-        logger.debug({ userId: user.id, duration: Date.now() - authStart }, 'Auth (Google)');
+        req.user = result.user;
+        req.sessionId = result.sessionId;
+        logger.debug({ userId: result.user.id, method: result.method, duration: Date.now() - authStart }, 'Auth');
         next();
     } catch (error: any) {
         logger.error({ error: error.message }, 'Auth Middleware Error');
@@ -87,7 +114,7 @@ export async function authenticateUser(req: AuthRequest, res: Response, next: Ne
 /**
  * Middleware: Optional authentication
  * 
- * Attempts to authenticate the user if a token is present.
+ * Attempts to authenticate the user if a token is present (same token types as authenticateUser).
  * If no token is present or authentication fails, the request proceeds without req.user.
  * This allows endpoints to serve public content while still identifying logged-in users.
  */
@@ -101,32 +128,13 @@ export async function authenticateOptional(req: AuthRequest, res: Response, next
 
     // Attempt auth, but ignore errors
     try {
-        const token = authHeader.split(' ')[1];
-        const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-
-        if (uuidRegex.test(token)) {
-            const user = await db.query.users.findFirst({
-                where: eq(users.id, token),
-            });
-            if (user) req.user = user;
-            return next();
-        }
-
-        const ticket = await client.verifyIdToken({
-            idToken: token,
-            audience: process.env.GOOGLE_WEB_CLIENT_ID,
-        });
-
-        const payload = ticket.getPayload();
-        if (payload && payload.sub) {
-            const user = await db.query.users.findFirst({
-                where: eq(users.googleId, payload.sub),
-            });
-            if (user) req.user = user;
+        const result = await resolveUser(authHeader.split(' ')[1]);
+        if (result) {
+            req.user = result.user;
+            req.sessionId = result.sessionId;
         }
     } catch (error) {
         // Ignore auth errors for optional auth - just treat as guest
-        // logger.debug('Optional auth failed, proceeding as guest');
     }
 
     next();
@@ -0,0 +1,129 @@
+/**
+ * Idempotency Middleware
+ * Replays the stored response when a client retries a request with the same Idempotency-Key,
+ * so retries of side-effecting endpoints (generation, purchase, upload) run only once.
+ */
+
+import { Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { cacheService } from '../services/cache.service';
+import { AuthRequest } from './auth';
+import { logger } from '../utils/logger';
+
+const HEADER = 'idempotency-key';
+const MAX_KEY_LENGTH = 255;
+
+// How long a completed response is replayed
+const RESPONSE_TTL_SECONDS = 60 * 60 * 24;
+
+// How long an in-flight request holds the key (released early when it finishes)
+const IN_PROGRESS_TTL_SECONDS = 5 * 60;
+
+interface IdempotencyRecord {
+    status: 'in_progress' | 'completed';
+    fingerprint: string;
+    statusCode?: number;
+    body?: unknown;
+}
+
+/**
+ * Hash of everything that identifies the operation - a key reused with a different payload is rejected
+ */
+function fingerprintRequest(req: AuthRequest): string {
+    const hash = crypto.createHash('sha256')
+        .update(req.method)
+        .update(req.baseUrl + req.path)
+        .update(JSON.stringify(req.body ?? null));
+
+    if (req.file?.buffer) {
+        hash.update(req.file.buffer);
+    }
+    return hash.digest('hex');
+}
+
+/**
+ * Middleware: honour the Idempotency-Key header
+ * Must run after authentication (keys are scoped per user) and after multer on upload routes.
+ * Requests without the header pass straight through; keyed requests fail closed (503) while the store is down.
+ */
+export const idempotent = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const idempotencyKey = req.header(HEADER);
+    if (!idempotencyKey) return next();
+
+    if (idempotencyKey.length > MAX_KEY_LENGTH) {
+        return res.status(400).json({
+            error: 'Invalid Idempotency-Key',
+            code: 'INVALID_IDEMPOTENCY_KEY',
+            message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+        });
+    }
+
+    const userId = req.user?.id || 'anonymous';
+    const cacheKey = `idempotency:${userId}:${req.method}:${req.baseUrl + req.path}:${idempotencyKey}`;
+    const fingerprint = fingerprintRequest(req);
+
+    const acquired = await cacheService.setIfAbsent<IdempotencyRecord>(
+        cacheKey,
+        { status: 'in_progress', fingerprint },
+        IN_PROGRESS_TTL_SECONDS
+    );
+
+    if (!acquired) {
+        const existing = await cacheService.get<IdempotencyRecord>(cacheKey);
+
+        if (existing) {
+            if (existing.fingerprint !== fingerprint) {
+                return res.status(422).json({
+                    error: 'Idempotency-Key reused',
+                    code: 'IDEMPOTENCY_KEY_REUSED',
+                    message: 'This Idempotency-Key was already used with a different request',
+                });
+            }
+
+            if (existing.status === 'in_progress') {
+                return res.status(409).json({
+                    error: 'Request in progress',
+                    code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+                    message: 'A request with this Idempotency-Key is still being processed',
+                });
+            }
+
+            logger.info({ userId, path: req.originalUrl }, 'Idempotent request replayed');
+            res.setHeader('Idempotent-Replayed', 'true');
+            return res.status(existing.statusCode || 200).json(existing.body);
+        }
+
+        // Redis unavailable (or the key lapsed just now) - running the request unguarded could run it twice
+        logger.warn({ userId, path: req.originalUrl }, 'Idempotency store unavailable, request refused');
+        res.setHeader('Retry-After', '5');
+        return res.status(503).json({
+            error: 'Idempotency unavailable',
+            code: 'IDEMPOTENCY_UNAVAILABLE',
+            message: 'Requests with an Idempotency-Key cannot be processed right now, please retry',
+        });
+    }
+
+    // Capture the response body so it can be replayed
+    let responseBody: unknown;
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+        responseBody = body;
+        return originalJson(body);
+    };
+
+    res.on('finish', () => {
+        // Only successful responses are stored; failures release the key so the client can retry
+        if (res.statusCode < 400 && responseBody !== undefined) {
+            cacheService.set<IdempotencyRecord>(cacheKey, {
+                status: 'completed',
+                fingerprint,
+                statusCode: res.statusCode,
+                body: responseBody,
+            }, RESPONSE_TTL_SECONDS);
+        } else {
+            cacheService.del(cacheKey);
+        }
+    });
+
+    next();
+};
@@ -41,3 +41,12 @@ export const writeRateLimiter = rateLimit({
     standardHeaders: true,
     legacyHeaders: false,
 });
+
+// Sign-in code requests per IP
+export const emailCodeIpRateLimiter = rateLimit({
+    windowMs: 60 * 60 * 1000,
+    max: 20,
+    message: { error: 'Too many sign-in codes requested, please try again later.', code: 'OTP_SEND_LIMIT' },
+    standardHeaders: true,
+    legacyHeaders: false,
+});
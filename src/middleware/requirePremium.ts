@@ -1,6 +1,6 @@
 /**
  * Premium Feature Middleware
- * Checks if user has Premium or Business plan
+ * Checks if user has an active (unexpired) Premium or Business plan
  */
 
 import { Response, NextFunction } from 'express';
@@ -9,6 +9,7 @@ import { db } from '../db';
 import { users } from '../db/schema';
 import { AuthRequest } from './auth';
 import { logger } from '../utils/logger';
+import { hasActivePremium } from '../modules/credits/plans.service';
 
 export const requirePremium = async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
@@ -20,20 +21,22 @@ export const requirePremium = async (req: AuthRequest, res: Response, next: Next
 
         const user = await db.query.users.findFirst({
             where: eq(users.id, userId),
-            columns: { plan: true },
+            columns: { plan: true, planExpiresAt: true },
         });
 
         if (!user) {
             return res.status(404).json({ error: 'User not found' });
         }
 
-        if (!['premium', 'business'].includes(user.plan)) {
-            logger.info({ userId, plan: user.plan }, 'Premium feature access denied');
+        if (!hasActivePremium(user)) {
+            const expired = ['premium', 'business'].includes(user.plan);
+            logger.info({ userId, plan: user.plan, expired }, 'Premium feature access denied');
             return res.status(403).json({
                 error: 'Premium feature',
-                code: 'PREMIUM_REQUIRED',
-                message: 'Upgrade to Premium to unlock this feature!',
+                code: expired ? 'PLAN_EXPIRED' : 'PREMIUM_REQUIRED',
+                message: expired ? 'Your Premium plan has expired. Renew to keep using this feature!' : 'Upgrade to Premium to unlock this feature!',
                 currentPlan: user.plan,
+                planExpiresAt: user.planExpiresAt,
             });
         }
 
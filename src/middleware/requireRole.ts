@@ -0,0 +1,29 @@
+/**
+ * Role Middleware
+ * Restricts a route to staff roles - must run after authenticateUser
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import { User } from '../db/schema';
+import { logger } from '../utils/logger';
+
+export type UserRole = User['role'];
+
+export const requireRole = (...roles: UserRole[]) => {
+    return (req: AuthRequest, res: Response, next: NextFunction) => {
+        const user = req.user as User | undefined;
+
+        if (!user) {
+            return res.status(401).json({ error: 'Unauthorized' });
+        }
+
+        // API keys act on behalf of their owner but never carry staff privileges
+        if (req.apiKeyId || !roles.includes(user.role)) {
+            logger.warn({ userId: user.id, role: user.role, path: req.originalUrl }, 'Role check failed');
+            return res.status(403).json({ error: 'Forbidden', code: 'FORBIDDEN' });
+        }
+
+        next();
+    };
+};
@@ -1,7 +1,8 @@
 import { z } from 'zod';
-
-// Valid aspect ratios for user images
-const VALID_ASPECT_RATIOS = ['9:16', '2:3', '3:4', '4:5'] as const;
+import { API_KEY_SCOPES } from '../modules/api-keys/api-keys.service';
+import { GARMENT_CATEGORIES, findLayeringConflict } from '../utils/garments';
+import { MAX_SAMPLE_COUNT } from '../providers/types';
+import { ASPECT_RATIOS } from '../utils/aspectRatio';
 
 // ISO 8601 date string validator
 const isoDateString = z.string().refine((val) => {
@@ -32,6 +33,21 @@ export const Schemas = {
         }),
     }),
 
+    // exportId param validator
+    exportIdParam: z.object({
+        params: z.object({
+            userId: z.string().uuid('Invalid User ID format'),
+            exportId: z.string().uuid('Invalid Export ID format'),
+        }),
+    }),
+
+    // Generation jobId param validator
+    jobIdParam: z.object({
+        params: z.object({
+            jobId: z.string().uuid('Invalid Job ID format'),
+        }),
+    }),
+
     // Feed pagination validator (with max page)
     feedPagination: z.object({
         query: z.object({
@@ -54,7 +70,7 @@ export const Schemas = {
         body: z.object({
             phone: z.string().regex(/^\+?[1-9]\d{1,14}$/, 'Invalid phone number format').optional().or(z.literal('')),
             name: z.string().max(100).optional(),
-            aspectRatio: z.enum(VALID_ASPECT_RATIOS).optional(),
+            aspectRatio: z.enum(ASPECT_RATIOS).optional(),
         }),
     }),
 
@@ -64,7 +80,7 @@ export const Schemas = {
             userId: z.string().uuid('Invalid User ID format'),
         }),
         body: z.object({
-            aspectRatio: z.enum(VALID_ASPECT_RATIOS).optional(),
+            aspectRatio: z.enum(ASPECT_RATIOS).optional(),
             isActive: z.enum(['true', 'false']).optional(),
         }),
     }),
@@ -125,11 +141,84 @@ export const Schemas = {
             userId: z.string().uuid('Invalid User ID'),
             productUrl: z.string().url().optional(),
             productName: z.string().min(1, 'Product name is required'),
-            productImageUrls: z.array(z.string().url()).min(1, 'At least one product image is required'),
+            productImageUrls: z.array(z.string().url()).min(1, 'At least one product image is required').optional(),
+            // Colour variant from parse-link - its images replace productImageUrls
+            variantId: z.string().min(1).max(200).optional(),
+            // Garment from parse-image - its stored crop replaces productImageUrls
+            parsedImageId: z.string().uuid('Invalid Parsed Image ID').optional(),
             // Outfit mode parameters
             outfitId: z.string().uuid('Invalid Outfit ID').optional(),
             baseImageUrl: z.string().url('Invalid base image URL').optional(),
             stepOrder: z.number().int().min(1).optional(),
+            // Candidate images to choose from (plan-limited, one credit each)
+            variants: z.number().int().min(1).max(MAX_SAMPLE_COUNT).optional(),
+            // Output ratio - defaults to the active body image's
+            aspectRatio: z.enum(ASPECT_RATIOS).optional(),
+        })
+            .refine(body => !body.variantId || !!body.productUrl, {
+                message: 'productUrl is required with variantId',
+                path: ['productUrl'],
+            })
+            .refine(body => !!body.variantId || !!body.parsedImageId || !!body.productImageUrls, {
+                message: 'At least one product image is required',
+                path: ['productImageUrls'],
+            })
+            .refine(body => !body.outfitId || (body.variants ?? 1) === 1, {
+                message: 'Multiple variants are not available in Outfit Mode',
+                path: ['variants'],
+            }),
+    }),
+
+    // Pick one candidate of a multi-variant try-on
+    selectCandidate: z.object({
+        params: z.object({
+            jobId: z.string().uuid('Invalid Job ID format'),
+        }),
+        body: z.object({
+            candidateId: z.string().uuid('Invalid Candidate ID'),
+        }),
+    }),
+
+    // Pick one candidate of a multi-variant studio generation
+    studioSelectCandidate: z.object({
+        params: z.object({
+            generationId: z.string().uuid('Invalid Generation ID format'),
+        }),
+        body: z.object({
+            candidateId: z.string().uuid('Invalid Candidate ID'),
+        }),
+    }),
+
+    // Outfit Mode: Several garments in one job, layered server-side
+    generateMulti: z.object({
+        body: z.object({
+            userId: z.string().uuid('Invalid User ID'),
+            outfitId: z.string().uuid('Invalid Outfit ID').optional(),
+            outfitName: z.string().max(100).optional(),
+            aspectRatio: z.enum(ASPECT_RATIOS).optional(),
+            items: z.array(z.object({
+                category: z.enum(GARMENT_CATEGORIES),
+                productUrl: z.string().url().optional(),
+                productName: z.string().min(1).max(500).optional(),
+                productImageUrls: z.array(z.string().url()).min(1, 'At least one product image is required').optional(),
+                variantId: z.string().min(1).max(200).optional(),
+                parsedImageId: z.string().uuid('Invalid Parsed Image ID').optional(),
+            })
+                .refine(item => !item.variantId || !!item.productUrl, {
+                    message: 'productUrl is required with variantId',
+                    path: ['productUrl'],
+                })
+                .refine(item => !!item.variantId || !!item.parsedImageId || !!item.productImageUrls, {
+                    message: 'At least one product image is required',
+                    path: ['productImageUrls'],
+                }))
+                .min(2, 'At least two garments are required')
+                .max(5, 'At most five garments can be combined'),
+        }).superRefine((body, ctx) => {
+            const conflict = findLayeringConflict(body.items.map(item => item.category));
+            if (conflict) {
+                ctx.addIssue({ code: 'custom', message: conflict, path: ['items'] });
+            }
         }),
     }),
 
@@ -174,4 +263,157 @@ export const Schemas = {
             code: z.string().length(6, 'Verification code must be 6 digits'),
         }),
     }),
+
+    // Email sign-in: request a code
+    emailLoginStart: z.object({
+        body: z.object({
+            email: z.string().trim().email('Invalid email format').max(254),
+        }),
+    }),
+
+    // Email sign-in: verify the code
+    emailLoginVerify: z.object({
+        body: z.object({
+            email: z.string().trim().email('Invalid email format').max(254),
+            code: z.string().regex(/^\d{6}$/, 'Verification code must be 6 digits'),
+            referralCode: z.string().max(12).optional(),
+            deviceId: z.string().max(128).optional(),
+            deviceName: z.string().max(100).optional(),
+            platform: z.enum(['ios', 'android', 'web']).optional(),
+        }),
+    }),
+
+    // Start a purchase
+    purchase: z.object({
+        body: z.object({
+            planId: z.enum(['basic', 'premium', 'business']),
+            promoCode: z.string().trim().min(1).max(32).optional(),
+        }),
+    }),
+
+    // Redeem a promo code
+    redeemPromo: z.object({
+        body: z.object({
+            code: z.string().trim().min(1).max(32),
+        }),
+    }),
+
+    // Verify a completed checkout
+    verifyPayment: z.object({
+        body: z.object({
+            orderId: z.string().min(1).max(100),
+            paymentId: z.string().min(1).max(100),
+            signature: z.string().min(1).max(256),
+        }),
+    }),
+
+    // Refresh / logout
+    refreshToken: z.object({
+        body: z.object({
+            refreshToken: z.string().min(32).max(256),
+        }),
+    }),
+
+    // sessionId param validator
+    sessionIdParam: z.object({
+        params: z.object({
+            sessionId: z.string().uuid('Invalid Session ID format'),
+        }),
+    }),
+
+    // Create an API key
+    createApiKey: z.object({
+        body: z.object({
+            name: z.string().trim().min(1).max(50),
+            scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+            rateLimitPerMinute: z.number().int().min(1).max(600).optional(),
+        }),
+    }),
+
+    // keyId param validator
+    apiKeyIdParam: z.object({
+        params: z.object({
+            keyId: z.string().uuid('Invalid API key ID format'),
+        }),
+    }),
+
+    // Watch a look's product for price drops
+    createPriceWatch: z.object({
+        body: z.object({
+            lookId: z.string().uuid('Invalid Look ID format'),
+            targetPrice: z.number().positive().max(10_000_000).optional(),
+        }),
+    }),
+
+    // watchId param validator
+    priceWatchIdParam: z.object({
+        params: z.object({
+            watchId: z.string().uuid('Invalid price watch ID format'),
+        }),
+    }),
+
+    // API key usage report range
+    apiKeyUsage: z.object({
+        query: z.object({
+            from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional(),
+            to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional(),
+        }),
+    }),
+
+    // Admin: user search
+    adminUserSearch: z.object({
+        query: z.object({
+            q: z.string().trim().min(2).max(100),
+        }),
+    }),
+
+    // Admin: grant (positive) or remove (negative) credits
+    adminAdjustCredits: z.object({
+        params: z.object({
+            userId: z.string().uuid('Invalid User ID format'),
+        }),
+        body: z.object({
+            amount: z.number().int().min(-10000).max(10000).refine(n => n !== 0, 'Amount cannot be zero'),
+            reason: z.string().trim().min(3).max(200),
+        }),
+    }),
+
+    // Admin: plan override (expiresAt null = never expires, omitted = standard validity)
+    adminOverridePlan: z.object({
+        params: z.object({
+            userId: z.string().uuid('Invalid User ID format'),
+        }),
+        body: z.object({
+            plan: z.enum(['free', 'basic', 'premium', 'business']),
+            expiresAt: isoDateString.nullable().optional(),
+        }),
+    }),
+
+    // Admin: role change
+    adminSetRole: z.object({
+        params: z.object({
+            userId: z.string().uuid('Invalid User ID format'),
+        }),
+        body: z.object({
+            role: z.enum(['user', 'support', 'admin']),
+        }),
+    }),
+
+    // Admin: paginated lists
+    adminPagination: z.object({
+        query: z.object({
+            page: z.coerce.number().min(1).max(1000).optional(),
+            limit: z.coerce.number().min(1).max(100).optional(),
+        }),
+    }),
+
+    // Admin: audit log filters
+    adminAuditLog: z.object({
+        query: z.object({
+            actorId: z.string().uuid('Invalid User ID format').optional(),
+            targetUserId: z.string().uuid('Invalid User ID format').optional(),
+            page: z.coerce.number().min(1).max(1000).optional(),
+            limit: z.coerce.number().min(1).max(100).optional(),
+        }),
+    }),
 };
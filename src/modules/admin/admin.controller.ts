@@ -0,0 +1,174 @@
+/**
+ * Admin Controller
+ * Handles HTTP requests for the staff-only admin API
+ */
+
+import { Response } from 'express';
+import { AdminService, AdminActor } from './admin.service';
+import { CreditsService } from '../credits/credits.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { AuthRequest } from '../../middleware/auth';
+import { logger } from '../../utils/logger';
+
+export class AdminController {
+    private service = new AdminService();
+    private creditsService = new CreditsService();
+    private waitlistService = new WaitlistService();
+
+    /**
+     * Search users by id, email or username
+     */
+    searchUsers = async (req: AuthRequest, res: Response) => {
+        try {
+            const q = req.query.q as string;
+            const results = await this.service.searchUsers(q);
+
+            await this.service.recordAudit(this.actor(req), { action: 'user.search', details: { q, results: results.length } });
+
+            res.json({ users: results });
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Error searching users');
+            res.status(500).json({ error: 'Failed to search users' });
+        }
+    };
+
+    /**
+     * Get a user with recent credit activity
+     */
+    getUser = async (req: AuthRequest, res: Response) => {
+        try {
+            const { userId } = req.params;
+            const data = await this.service.getUser(userId);
+
+            await this.service.recordAudit(this.actor(req), { action: 'user.view', targetUserId: userId });
+
+            res.json(data);
+        } catch (error: any) {
+            if (error.message === 'USER_NOT_FOUND') {
+                return res.status(404).json({ error: 'User not found' });
+            }
+            logger.error({ error: error.message }, 'Error getting user');
+            res.status(500).json({ error: 'Failed to get user' });
+        }
+    };
+
+    /**
+     * Grant or remove credits
+     */
+    adjustCredits = async (req: AuthRequest, res: Response) => {
+        try {
+            const { amount, reason } = req.body;
+            const result = await this.service.adjustCredits(this.actor(req), req.params.userId, amount, reason);
+
+            res.json({ success: true, ...result });
+        } catch (error: any) {
+            if (error.message === 'USER_NOT_FOUND') {
+                return res.status(404).json({ error: 'User not found' });
+            }
+            if (error.message === 'INSUFFICIENT_CREDITS') {
+                return res.status(400).json({
+                    error: 'Adjustment would make the balance negative',
+                    code: 'INSUFFICIENT_CREDITS',
+                });
+            }
+            logger.error({ error: error.message }, 'Error adjusting credits');
+            res.status(500).json({ error: 'Failed to adjust credits' });
+        }
+    };
+
+    /**
+     * Override a user's plan
+     */
+    overridePlan = async (req: AuthRequest, res: Response) => {
+        try {
+            const { plan, expiresAt } = req.body;
+            const result = await this.service.overridePlan(this.actor(req), req.params.userId, {
+                plan,
+                expiresAt: expiresAt === undefined ? undefined : expiresAt && new Date(expiresAt),
+            });
+
+            res.json({ success: true, ...result });
+        } catch (error: any) {
+            if (error.message === 'USER_NOT_FOUND') {
+                return res.status(404).json({ error: 'User not found' });
+            }
+            logger.error({ error: error.message }, 'Error overriding plan');
+            res.status(500).json({ error: 'Failed to override plan' });
+        }
+    };
+
+    /**
+     * Change a user's role
+     */
+    setRole = async (req: AuthRequest, res: Response) => {
+        try {
+            const result = await this.service.setRole(this.actor(req), req.params.userId, req.body.role);
+            res.json({ success: true, ...result });
+        } catch (error: any) {
+            if (error.message === 'USER_NOT_FOUND') {
+                return res.status(404).json({ error: 'User not found' });
+            }
+            if (error.message === 'CANNOT_CHANGE_OWN_ROLE') {
+                return res.status(400).json({ error: 'You cannot change your own role', code: 'CANNOT_CHANGE_OWN_ROLE' });
+            }
+            logger.error({ error: error.message }, 'Error changing role');
+            res.status(500).json({ error: 'Failed to change role' });
+        }
+    };
+
+    /**
+     * Purchase intents (plan clicks) for outreach
+     */
+    getPurchaseIntents = async (req: AuthRequest, res: Response) => {
+        try {
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = parseInt(req.query.limit as string) || 50;
+
+            const data = await this.creditsService.getPurchaseIntents(page, limit);
+
+            await this.service.recordAudit(this.actor(req), { action: 'purchase_intents.list', details: { page, limit } });
+
+            res.json(data);
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Error getting purchase intents');
+            res.status(500).json({ error: 'Failed to get purchase intents' });
+        }
+    };
+
+    /**
+     * Waitlist sign-up counts
+     */
+    getWaitlistStats = async (req: AuthRequest, res: Response) => {
+        try {
+            const stats = await this.waitlistService.getStats();
+
+            await this.service.recordAudit(this.actor(req), { action: 'waitlist.stats' });
+
+            res.json(stats);
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Error getting waitlist stats');
+            res.status(500).json({ error: 'Failed to get waitlist stats' });
+        }
+    };
+
+    /**
+     * Admin audit log
+     */
+    getAuditLog = async (req: AuthRequest, res: Response) => {
+        try {
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = parseInt(req.query.limit as string) || 50;
+            const { actorId, targetUserId } = req.query as { actorId?: string; targetUserId?: string };
+
+            const data = await this.service.getAuditLog({ actorId, targetUserId }, page, limit);
+            res.json(data);
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Error getting audit log');
+            res.status(500).json({ error: 'Failed to get audit log' });
+        }
+    };
+
+    private actor(req: AuthRequest): AdminActor {
+        return { id: req.user.id, role: req.user.role, ipAddress: req.ip };
+    }
+}
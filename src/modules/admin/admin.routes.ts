@@ -0,0 +1,35 @@
+/**
+ * Admin Routes
+ * Staff-only API - support staff can read, admins can also change accounts
+ */
+
+import { Router } from 'express';
+import { AdminController } from './admin.controller';
+import { authenticateUser } from '../../middleware/auth';
+import { requireRole } from '../../middleware/requireRole';
+import { validate } from '../../middleware/validation';
+import { Schemas } from '../../middleware/schemas';
+import { writeRateLimiter } from '../../middleware/rateLimiter';
+
+const router = Router();
+const controller = new AdminController();
+
+router.use(authenticateUser, requireRole('support', 'admin'));
+
+// User lookup
+router.get('/users', validate(Schemas.adminUserSearch), controller.searchUsers);
+router.get('/users/:userId', validate(Schemas.userIdParam), controller.getUser);
+
+// Account changes (admin only)
+router.post('/users/:userId/credits', requireRole('admin'), writeRateLimiter, validate(Schemas.adminAdjustCredits), controller.adjustCredits);
+router.put('/users/:userId/plan', requireRole('admin'), writeRateLimiter, validate(Schemas.adminOverridePlan), controller.overridePlan);
+router.put('/users/:userId/role', requireRole('admin'), writeRateLimiter, validate(Schemas.adminSetRole), controller.setRole);
+
+// Reporting
+router.get('/purchase-intents', validate(Schemas.adminPagination), controller.getPurchaseIntents);
+router.get('/waitlist/stats', controller.getWaitlistStats);
+
+// Audit log (admin only)
+router.get('/audit-log', requireRole('admin'), validate(Schemas.adminAuditLog), controller.getAuditLog);
+
+export default router;
@@ -0,0 +1,253 @@
+/**
+ * Admin Service
+ * Staff-only user lookup, credit adjustments, plan overrides and the audit log
+ */
+
+import { eq, or, ilike, desc, and, gte, sql, SQL } from 'drizzle-orm';
+import { db } from '../../db';
+import { users, creditTransactions, adminAuditLog, AdminAuditLogEntry, User } from '../../db/schema';
+import { cacheService } from '../../services/cache.service';
+import { logger } from '../../utils/logger';
+import { computePlanExpiry, getPlanPeriodStart } from '../credits/plans.service';
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const SEARCH_LIMIT = 20;
+
+/** The staff member performing an action */
+export interface AdminActor {
+    id: string;
+    role: User['role'];
+    ipAddress?: string;
+}
+
+interface AuditEntry {
+    action: string;
+    targetUserId?: string | null;
+    details?: Record<string, unknown>;
+}
+
+interface PlanOverride {
+    plan: User['plan'];
+    expiresAt?: Date | null; // Omitted: standard validity for the plan
+}
+
+// Columns safe to show support staff
+const USER_SUMMARY_COLUMNS = {
+    id: true,
+    email: true,
+    username: true,
+    name: true,
+    role: true,
+    plan: true,
+    planPurchasedAt: true,
+    planExpiresAt: true,
+    credits: true,
+    createdAt: true,
+} as const;
+
+export class AdminService {
+    /**
+     * Find users by id, email or username
+     */
+    async searchUsers(query: string) {
+        const q = query.trim();
+
+        const where = uuidRegex.test(q)
+            ? eq(users.id, q)
+            : or(ilike(users.email, `%${q}%`), ilike(users.username, `%${q.replace(/^@/, '')}%`));
+
+        return db.query.users.findMany({
+            where,
+            columns: USER_SUMMARY_COLUMNS,
+            orderBy: [desc(users.createdAt)],
+            limit: SEARCH_LIMIT,
+        });
+    }
+
+    /**
+     * User detail with recent credit activity
+     */
+    async getUser(userId: string) {
+        const user = await db.query.users.findFirst({
+            where: eq(users.id, userId),
+            columns: USER_SUMMARY_COLUMNS,
+        });
+
+        if (!user) {
+            throw new Error('USER_NOT_FOUND');
+        }
+
+        const recentTransactions = await db.query.creditTransactions.findMany({
+            where: eq(creditTransactions.userId, userId),
+            orderBy: [desc(creditTransactions.createdAt)],
+            limit: 20,
+        });
+
+        return { user, recentTransactions };
+    }
+
+    /**
+     * Grant (positive) or remove (negative) credits
+     * A removal that would take the balance below zero is rejected rather than clamped.
+     */
+    async adjustCredits(actor: AdminActor, userId: string, amount: number, reason: string) {
+        const result = await db.transaction(async (tx) => {
+            const [updated] = await tx.update(users)
+                .set({ credits: sql`${users.credits} + ${amount}` })
+                .where(and(eq(users.id, userId), gte(sql`${users.credits} + ${amount}`, 0)))
+                .returning({ credits: users.credits });
+
+            if (!updated) {
+                const exists = await tx.query.users.findFirst({ where: eq(users.id, userId), columns: { id: true } });
+                throw new Error(exists ? 'INSUFFICIENT_CREDITS' : 'USER_NOT_FOUND');
+            }
+
+            await tx.insert(creditTransactions).values({
+                userId,
+                amount,
+                type: 'admin_adjustment',
+                description: reason,
+            });
+
+            await this.recordAudit(actor, {
+                action: amount >= 0 ? 'credits.grant' : 'credits.deduct',
+                targetUserId: userId,
+                details: { amount, reason, balanceAfter: updated.credits },
+            }, tx);
+
+            return { credits: updated.credits };
+        });
+
+        await cacheService.invalidateUser(userId);
+        logger.info({ actorId: actor.id, userId, amount }, 'Admin credit adjustment');
+        return result;
+    }
+
+    /**
+     * Put a user on a plan without a payment
+     */
+    async overridePlan(actor: AdminActor, userId: string, { plan, expiresAt }: PlanOverride) {
+        const result = await db.transaction(async (tx) => {
+            const [before] = await tx.select({ plan: users.plan, planExpiresAt: users.planExpiresAt, planPeriodStartedAt: users.planPeriodStartedAt })
+                .from(users)
+                .where(eq(users.id, userId))
+                .for('update');
+
+            if (!before) {
+                throw new Error('USER_NOT_FOUND');
+            }
+
+            const now = new Date();
+            const planExpiresAt = plan === 'free'
+                ? null
+                : expiresAt !== undefined ? expiresAt : computePlanExpiry(plan, undefined, now);
+
+            const [updated] = await tx.update(users)
+                .set({
+                    plan,
+                    planPurchasedAt: plan === 'free' ? null : now,
+                    planPeriodStartedAt: plan === 'free' ? null : getPlanPeriodStart(before, now),
+                    planExpiresAt,
+                    planExpiryNotifiedAt: null,
+                })
+                .where(eq(users.id, userId))
+                .returning({ plan: users.plan, planExpiresAt: users.planExpiresAt });
+
+            await this.recordAudit(actor, {
+                action: 'plan.override',
+                targetUserId: userId,
+                details: { from: before, to: updated },
+            }, tx);
+
+            return updated;
+        });
+
+        await cacheService.invalidateUser(userId);
+        logger.info({ actorId: actor.id, userId, plan }, 'Admin plan override');
+        return result;
+    }
+
+    /**
+     * Change a user's staff role
+     */
+    async setRole(actor: AdminActor, userId: string, role: User['role']) {
+        if (userId === actor.id) {
+            throw new Error('CANNOT_CHANGE_OWN_ROLE');
+        }
+
+        const result = await db.transaction(async (tx) => {
+            const [before] = await tx.select({ role: users.role })
+                .from(users)
+                .where(eq(users.id, userId))
+                .for('update');
+
+            if (!before) {
+                throw new Error('USER_NOT_FOUND');
+            }
+
+            await tx.update(users).set({ role }).where(eq(users.id, userId));
+
+            await this.recordAudit(actor, {
+                action: 'role.change',
+                targetUserId: userId,
+                details: { from: before.role, to: role },
+            }, tx);
+
+            return { role };
+        });
+
+        await cacheService.invalidateUser(userId);
+        logger.info({ actorId: actor.id, userId, role }, 'Admin role change');
+        return result;
+    }
+
+    /**
+     * Audit log, newest first
+     */
+    async getAuditLog(filters: { actorId?: string; targetUserId?: string }, page: number = 1, limit: number = 50) {
+        const conditions: SQL[] = [];
+        if (filters.actorId) conditions.push(eq(adminAuditLog.actorId, filters.actorId));
+        if (filters.targetUserId) conditions.push(eq(adminAuditLog.targetUserId, filters.targetUserId));
+        const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+        const entries = await db.query.adminAuditLog.findMany({
+            where,
+            orderBy: [desc(adminAuditLog.createdAt)],
+            limit,
+            offset: (page - 1) * limit,
+        });
+
+        const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+            .from(adminAuditLog)
+            .where(where);
+
+        return {
+            entries: entries.map(entry => this.formatEntry(entry)),
+            pagination: { page, limit, total: count, totalPages: Math.ceil(count / limit) },
+        };
+    }
+
+    /**
+     * Write an audit log row - pass the transaction so the entry commits with the change it describes
+     */
+    async recordAudit(actor: AdminActor, entry: AuditEntry, executor: DbExecutor = db): Promise<void> {
+        await executor.insert(adminAuditLog).values({
+            actorId: actor.id,
+            actorRole: actor.role,
+            action: entry.action,
+            targetUserId: entry.targetUserId ?? null,
+            details: entry.details ? JSON.stringify(entry.details) : null,
+            ipAddress: actor.ipAddress ?? null,
+        });
+    }
+
+    private formatEntry(entry: AdminAuditLogEntry) {
+        return {
+            ...entry,
+            details: entry.details ? JSON.parse(entry.details) : null,
+        };
+    }
+}
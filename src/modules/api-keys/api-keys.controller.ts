@@ -0,0 +1,99 @@
+/**
+ * API Keys Controller
+ * Handles HTTP requests for business API key management
+ */
+
+import { Response } from 'express';
+import { apiKeysService } from './api-keys.service';
+import { AuthRequest } from '../../middleware/auth';
+import { logger } from '../../utils/logger';
+
+const MAX_REPORT_DAYS = 92;
+
+export class ApiKeysController {
+    private service = apiKeysService;
+
+    /**
+     * Create an API key (the key is only shown once)
+     */
+    create = async (req: AuthRequest, res: Response) => {
+        try {
+            const { name, scopes, rateLimitPerMinute } = req.body;
+
+            const apiKey = await this.service.createKey(req.user.id, { name, scopes, rateLimitPerMinute });
+
+            res.status(201).json({
+                success: true,
+                apiKey,
+                message: 'Store this key now - it will not be shown again.',
+            });
+        } catch (error: any) {
+            if (error.message === 'BUSINESS_PLAN_REQUIRED') {
+                return res.status(403).json({
+                    error: 'Business plan required',
+                    code: 'BUSINESS_PLAN_REQUIRED',
+                    message: 'API access is available on the Business plan.',
+                });
+            }
+            if (error.message === 'API_KEY_LIMIT_REACHED') {
+                return res.status(400).json({ error: 'Too many active API keys', code: 'API_KEY_LIMIT_REACHED' });
+            }
+            logger.error({ error: error.message }, 'Error creating API key');
+            res.status(500).json({ error: 'Failed to create API key' });
+        }
+    };
+
+    /**
+     * List the user's API keys
+     */
+    list = async (req: AuthRequest, res: Response) => {
+        try {
+            const apiKeys = await this.service.listKeys(req.user.id);
+            res.json({ apiKeys });
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Error listing API keys');
+            res.status(500).json({ error: 'Failed to get API keys' });
+        }
+    };
+
+    /**
+     * Revoke an API key
+     */
+    revoke = async (req: AuthRequest, res: Response) => {
+        try {
+            const revoked = await this.service.revokeKey(req.user.id, req.params.keyId);
+
+            if (!revoked) {
+                return res.status(404).json({ error: 'API key not found' });
+            }
+
+            res.json({ success: true });
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Error revoking API key');
+            res.status(500).json({ error: 'Failed to revoke API key' });
+        }
+    };
+
+    /**
+     * Usage report (defaults to the last 30 days)
+     */
+    usage = async (req: AuthRequest, res: Response) => {
+        try {
+            const today = new Date();
+            const to = (req.query.to as string) || today.toISOString().slice(0, 10);
+            const from = (req.query.from as string)
+                || new Date(today.getTime() - 29 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+            const days = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+            if (days < 0 || days > MAX_REPORT_DAYS) {
+                return res.status(400).json({ error: `Date range must be between 0 and ${MAX_REPORT_DAYS} days` });
+            }
+
+            const report = await this.service.getUsageReport(req.user.id, from, to);
+            res.json(report);
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Error getting API key usage');
+            res.status(500).json({ error: 'Failed to get usage report' });
+        }
+    };
+}
@@ -0,0 +1,31 @@
+/**
+ * API Keys Routes
+ * Business plan API key management and usage reporting
+ */
+
+import { Router } from 'express';
+import { ApiKeysController } from './api-keys.controller';
+import { authenticateUser } from '../../middleware/auth';
+import { validate } from '../../middleware/validation';
+import { Schemas } from '../../middleware/schemas';
+import { writeRateLimiter } from '../../middleware/rateLimiter';
+
+const router = Router();
+const controller = new ApiKeysController();
+
+// All key management requires a user token (keys cannot manage keys)
+router.use(authenticateUser);
+
+// Create an API key (Business plan)
+router.post('/', writeRateLimiter, validate(Schemas.createApiKey), controller.create);
+
+// List API keys
+router.get('/', controller.list);
+
+// Usage report
+router.get('/usage', validate(Schemas.apiKeyUsage), controller.usage);
+
+// Revoke an API key
+router.delete('/:keyId', writeRateLimiter, validate(Schemas.apiKeyIdParam), controller.revoke);
+
+export default router;
@@ -0,0 +1,190 @@
+/**
+ * API Keys Service
+ * Business-plan API key lifecycle, lookup and usage metering
+ */
+
+import crypto from 'crypto';
+import { eq, and, isNull, gte, lte, desc, sql, inArray } from 'drizzle-orm';
+import { db } from '../../db';
+import { apiKeys, apiKeyUsage, users, ApiKey } from '../../db/schema';
+import { hashToken } from '../../utils/tokens';
+import { hasActivePremium } from '../credits/plans.service';
+import { logger } from '../../utils/logger';
+
+export const API_KEY_SCOPES = ['generate', 'studio', 'read:looks'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+const KEY_PREFIX = 'snk_live_';
+const MAX_ACTIVE_KEYS = 10;
+
+interface CreateApiKeyData {
+    name: string;
+    scopes: ApiKeyScope[];
+    rateLimitPerMinute?: number;
+}
+
+export class ApiKeysService {
+    /**
+     * Create a key - the plaintext key is only returned here, never stored
+     */
+    async createKey(userId: string, data: CreateApiKeyData) {
+        await this.assertBusinessPlan(userId);
+
+        const [{ active }] = await db.select({ active: sql<number>`count(*)::int` })
+            .from(apiKeys)
+            .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)));
+
+        if (active >= MAX_ACTIVE_KEYS) {
+            throw new Error('API_KEY_LIMIT_REACHED');
+        }
+
+        const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+
+        const [created] = await db.insert(apiKeys).values({
+            userId,
+            name: data.name,
+            prefix: key.slice(0, KEY_PREFIX.length + 6),
+            keyHash: hashToken(key),
+            scopes: [...new Set(data.scopes)],
+            rateLimitPerMinute: data.rateLimitPerMinute,
+        }).returning();
+
+        logger.info({ userId, apiKeyId: created.id, scopes: created.scopes }, 'API key created');
+        return { ...this.toPublic(created), key };
+    }
+
+    /**
+     * List the user's keys (without secrets)
+     */
+    async listKeys(userId: string) {
+        const keys = await db.query.apiKeys.findMany({
+            where: eq(apiKeys.userId, userId),
+            orderBy: [desc(apiKeys.createdAt)],
+        });
+        return keys.map(k => this.toPublic(k));
+    }
+
+    /**
+     * Revoke a key owned by the user
+     */
+    async revokeKey(userId: string, keyId: string): Promise<boolean> {
+        const [revoked] = await db.update(apiKeys)
+            .set({ revokedAt: new Date() })
+            .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+            .returning({ id: apiKeys.id });
+
+        if (revoked) {
+            logger.info({ userId, apiKeyId: keyId }, 'API key revoked');
+        }
+        return !!revoked;
+    }
+
+    /**
+     * Resolve an active key and its owner
+     * Keys stop working if the owner's business plan lapses.
+     */
+    async findActiveKey(key: string) {
+        if (!key.startsWith(KEY_PREFIX)) return null;
+
+        const apiKey = await db.query.apiKeys.findFirst({
+            where: and(eq(apiKeys.keyHash, hashToken(key)), isNull(apiKeys.revokedAt)),
+        });
+        if (!apiKey) return null;
+
+        const owner = await db.query.users.findFirst({
+            where: eq(users.id, apiKey.userId),
+        });
+        if (!owner || owner.plan !== 'business' || !hasActivePremium(owner)) return null;
+
+        return { apiKey, owner };
+    }
+
+    /**
+     * Count a request against the key (per endpoint, per UTC day)
+     */
+    async recordUsage(apiKeyId: string, endpoint: string): Promise<void> {
+        const day = new Date().toISOString().slice(0, 10);
+
+        await db.insert(apiKeyUsage)
+            .values({ apiKeyId, endpoint, day, requestCount: 1 })
+            .onConflictDoUpdate({
+                target: [apiKeyUsage.apiKeyId, apiKeyUsage.endpoint, apiKeyUsage.day],
+                set: { requestCount: sql`${apiKeyUsage.requestCount} + 1` },
+            });
+
+        await db.update(apiKeys)
+            .set({ lastUsedAt: new Date() })
+            .where(eq(apiKeys.id, apiKeyId));
+    }
+
+    /**
+     * Usage report for all of the user's keys between two UTC days (inclusive)
+     */
+    async getUsageReport(userId: string, from: string, to: string) {
+        const keys = await db.query.apiKeys.findMany({
+            where: eq(apiKeys.userId, userId),
+            columns: { id: true, name: true, prefix: true },
+        });
+
+        if (keys.length === 0) {
+            return { from, to, totalRequests: 0, keys: [] };
+        }
+
+        const rows = await db.select()
+            .from(apiKeyUsage)
+            .where(and(
+                inArray(apiKeyUsage.apiKeyId, keys.map(k => k.id)),
+                gte(apiKeyUsage.day, from),
+                lte(apiKeyUsage.day, to)
+            ))
+            .orderBy(apiKeyUsage.day);
+
+        const report = keys.map(key => {
+            const usage = rows.filter(r => r.apiKeyId === key.id);
+            const byEndpoint: Record<string, number> = {};
+            for (const row of usage) {
+                byEndpoint[row.endpoint] = (byEndpoint[row.endpoint] || 0) + row.requestCount;
+            }
+
+            return {
+                ...key,
+                totalRequests: usage.reduce((sum, r) => sum + r.requestCount, 0),
+                byEndpoint,
+                daily: usage.map(r => ({ day: r.day, endpoint: r.endpoint, requests: r.requestCount })),
+            };
+        });
+
+        return {
+            from,
+            to,
+            totalRequests: report.reduce((sum, k) => sum + k.totalRequests, 0),
+            keys: report,
+        };
+    }
+
+    private async assertBusinessPlan(userId: string): Promise<void> {
+        const user = await db.query.users.findFirst({
+            where: eq(users.id, userId),
+            columns: { plan: true, planExpiresAt: true },
+        });
+
+        if (!user || user.plan !== 'business' || !hasActivePremium(user)) {
+            throw new Error('BUSINESS_PLAN_REQUIRED');
+        }
+    }
+
+    private toPublic(key: ApiKey) {
+        return {
+            id: key.id,
+            name: key.name,
+            prefix: key.prefix,
+            scopes: key.scopes,
+            rateLimitPerMinute: key.rateLimitPerMinute,
+            lastUsedAt: key.lastUsedAt,
+            revokedAt: key.revokedAt,
+            createdAt: key.createdAt,
+        };
+    }
+}
+
+export const apiKeysService = new ApiKeysService();
@@ -5,6 +5,7 @@
 
 import { Request, Response } from 'express';
 import { AuthService } from './auth.service';
+import { AuthRequest } from '../../middleware/auth';
 import { logger } from '../../utils/logger';
 
 export class AuthController {
@@ -15,25 +16,182 @@ export class AuthController {
      */
     googleLogin = async (req: Request, res: Response) => {
         try {
-            const { idToken, accessToken } = req.body;
+            const { idToken, accessToken, referralCode, deviceId, deviceName, platform } = req.body;
 
             if (!idToken && !accessToken) {
                 return res.status(400).json({ error: 'Missing ID Token or Access Token' });
             }
 
-            const result = await this.authService.authenticateWithGoogle(idToken, accessToken);
+            const result = await this.authService.authenticateWithGoogle(idToken, accessToken, {
+                referralCode: typeof referralCode === 'string' ? referralCode.slice(0, 12) : undefined,
+                deviceId: typeof deviceId === 'string' ? deviceId.slice(0, 128) : undefined,
+                deviceName: typeof deviceName === 'string' ? deviceName.slice(0, 100) : undefined,
+                platform: ['ios', 'android', 'web'].includes(platform) ? platform : 'other',
+                ipAddress: req.ip,
+                userAgent: req.get('user-agent'),
+            });
 
             if (!result.success) {
-                return res.status(result.status || 401).json({ error: result.error });
+                return res.status(result.status || 401).json({ error: result.error, code: result.code });
             }
 
             res.json({
                 success: true,
                 user: result.user,
+                ...result.tokens,
             });
         } catch (error: any) {
             logger.error({ error: error.message }, 'Google Auth Error');
             res.status(500).json({ error: 'Authentication failed' });
         }
     };
+
+    /**
+     * Email a sign-in code
+     */
+    emailStart = async (req: Request, res: Response) => {
+        try {
+            const result = await this.authService.startEmailLogin(req.body.email);
+
+            if (!result.success) {
+                if (result.retryAfterSeconds) res.setHeader('Retry-After', String(result.retryAfterSeconds));
+                return res.status(result.status || 400).json({
+                    error: result.error,
+                    code: result.code,
+                    retryAfterSeconds: result.retryAfterSeconds,
+                });
+            }
+
+            res.json({ success: true, message: 'Check your email for a sign-in code!' });
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Email Sign-in Start Error');
+            res.status(500).json({ error: 'Failed to send sign-in code' });
+        }
+    };
+
+    /**
+     * Sign in with an emailed code
+     */
+    emailVerify = async (req: Request, res: Response) => {
+        try {
+            const { email, code, referralCode, deviceId, deviceName, platform } = req.body;
+
+            const result = await this.authService.authenticateWithEmail(email, code, {
+                referralCode,
+                deviceId,
+                deviceName,
+                platform: ['ios', 'android', 'web'].includes(platform) ? platform : 'other',
+                ipAddress: req.ip,
+                userAgent: req.get('user-agent'),
+            });
+
+            if (!result.success) {
+                if (result.retryAfterSeconds) res.setHeader('Retry-After', String(result.retryAfterSeconds));
+                return res.status(result.status || 400).json({
+                    error: result.error,
+                    code: result.code,
+                    attemptsRemaining: result.attemptsRemaining,
+                    retryAfterSeconds: result.retryAfterSeconds,
+                });
+            }
+
+            res.json({
+                success: true,
+                user: result.user,
+                ...result.tokens,
+            });
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Email Sign-in Verify Error');
+            res.status(500).json({ error: 'Authentication failed' });
+        }
+    };
+
+    /**
+     * Rotate refresh token and issue a new access token
+     */
+    refresh = async (req: Request, res: Response) => {
+        try {
+            const { refreshToken } = req.body;
+
+            const tokens = await this.authService.refresh(refreshToken, req.ip);
+
+            res.json({
+                success: true,
+                ...tokens,
+            });
+        } catch (error: any) {
+            if (error.message === 'INVALID_REFRESH_TOKEN' || error.message === 'REFRESH_TOKEN_REUSED') {
+                return res.status(401).json({ error: 'Invalid refresh token', code: error.message });
+            }
+            logger.error({ error: error.message }, 'Token Refresh Error');
+            res.status(500).json({ error: 'Failed to refresh token' });
+        }
+    };
+
+    /**
+     * Log out - revoke the refresh token
+     */
+    logout = async (req: Request, res: Response) => {
+        try {
+            const { refreshToken } = req.body;
+
+            await this.authService.logout(refreshToken);
+
+            res.json({ success: true });
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Logout Error');
+            res.status(500).json({ error: 'Failed to log out' });
+        }
+    };
+
+    /**
+     * List the current user's signed-in devices
+     */
+    listSessions = async (req: AuthRequest, res: Response) => {
+        try {
+            const sessions = await this.authService.listSessions(req.user.id);
+
+            res.json({
+                sessions: sessions.map(session => ({
+                    ...session,
+                    current: session.id === req.sessionId,
+                })),
+            });
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'List Sessions Error');
+            res.status(500).json({ error: 'Failed to get sessions' });
+        }
+    };
+
+    /**
+     * Sign out a single device
+     */
+    revokeSession = async (req: AuthRequest, res: Response) => {
+        try {
+            const revoked = await this.authService.revokeSession(req.user.id, req.params.sessionId);
+
+            if (!revoked) {
+                return res.status(404).json({ error: 'Session not found' });
+            }
+
+            res.json({ success: true });
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Revoke Session Error');
+            res.status(500).json({ error: 'Failed to revoke session' });
+        }
+    };
+
+    /**
+     * Sign out every device, including this one
+     */
+    logoutEverywhere = async (req: AuthRequest, res: Response) => {
+        try {
+            const revoked = await this.authService.logoutEverywhere(req.user.id);
+
+            res.json({ success: true, revoked });
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Logout Everywhere Error');
+            res.status(500).json({ error: 'Failed to log out everywhere' });
+        }
+    };
 }
@@ -1,10 +1,14 @@
 /**
  * Auth Routes
- * Handles Google OAuth authentication
+ * Handles Google OAuth and email code sign-in, and session tokens
  */
 
 import { Router } from 'express';
 import { AuthController } from './auth.controller';
+import { authenticateUser } from '../../middleware/auth';
+import { validate } from '../../middleware/validation';
+import { Schemas } from '../../middleware/schemas';
+import { emailCodeIpRateLimiter } from '../../middleware/rateLimiter';
 
 const router = Router();
 const controller = new AuthController();
@@ -12,4 +16,21 @@ const controller = new AuthController();
 // Google OAuth login
 router.post('/google', controller.googleLogin);
 
+// Email code sign-in
+router.post('/email/start', emailCodeIpRateLimiter, validate(Schemas.emailLoginStart), controller.emailStart);
+router.post('/email/verify', validate(Schemas.emailLoginVerify), controller.emailVerify);
+
+// Rotate refresh token
+router.post('/refresh', validate(Schemas.refreshToken), controller.refresh);
+
+// Log out (revoke refresh token)
+router.post('/logout', validate(Schemas.refreshToken), controller.logout);
+
+// Log out of every device (Protected)
+router.post('/logout-all', authenticateUser, controller.logoutEverywhere);
+
+// Signed-in devices (Protected)
+router.get('/sessions', authenticateUser, controller.listSessions);
+router.delete('/sessions/:sessionId', authenticateUser, validate(Schemas.sessionIdParam), controller.revokeSession);
+
 export default router;
@@ -4,21 +4,37 @@
  */
 
 import { OAuth2Client } from 'google-auth-library';
-import { eq } from 'drizzle-orm';
+import { eq, sql } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
 import { db } from '../../db';
-import { users, NewUser } from '../../db/schema';
+import { users, User, NewUser } from '../../db/schema';
 import { logger } from '../../utils/logger';
 import { CreditsService } from '../credits/credits.service';
+import { ReferralsService } from '../credits/referrals.service';
+import { TokenService, TokenPair } from './token.service';
+import { SessionService, SessionMetadata } from './session.service';
+import { EmailOtpService, OtpResult, normalizeEmail } from './email-otp.service';
 
 interface GoogleUserInfo {
     googleId: string;
     email: string;
+    emailVerified: boolean;
     name?: string;
     picture?: string;
 }
 
+interface NewUserProfile {
+    email: string;
+    name?: string;
+    googleId?: string;
+    picture?: string;
+}
+
+interface LoginContext extends SessionMetadata {
+    referralCode?: string; // Only used when the login creates the account
+}
+
 interface AuthResult {
     success: boolean;
     user?: {
@@ -28,12 +44,19 @@ interface AuthResult {
         profilePhotoUrl: string | null;
         bodyPhotoUrl: string | null;
     };
+    tokens?: TokenPair;
     error?: string;
+    code?: string;
     status?: number;
+    retryAfterSeconds?: number;
+    attemptsRemaining?: number;
 }
 
 export class AuthService {
     private googleClient: OAuth2Client;
+    private tokenService = new TokenService();
+    private sessionService = new SessionService();
+    private emailOtpService = new EmailOtpService();
 
     constructor() {
         this.googleClient = new OAuth2Client(process.env.GOOGLE_WEB_CLIENT_ID);
@@ -42,7 +65,7 @@ export class AuthService {
     /**
      * Authenticate user with Google OAuth
      */
-    async authenticateWithGoogle(idToken?: string, accessToken?: string): Promise<AuthResult> {
+    async authenticateWithGoogle(idToken?: string, accessToken?: string, context: LoginContext = {}): Promise<AuthResult> {
         // Get user info from Google
         const userInfo = idToken
             ? await this.verifyIdToken(idToken)
@@ -57,18 +80,74 @@ export class AuthService {
         }
 
         // Find or create user
-        const user = await this.findOrCreateUser(userInfo);
+        const user = await this.findOrCreateUser(userInfo, context);
+        if (!user) {
+            return { success: false, error: 'Google email address is not verified', code: 'EMAIL_NOT_VERIFIED', status: 403 };
+        }
+        return this.signIn(user, context);
+    }
 
-        return {
-            success: true,
-            user: {
-                id: user.id,
-                name: user.name,
-                email: user.email,
-                profilePhotoUrl: user.profilePhotoUrl,
-                bodyPhotoUrl: user.bodyPhotoUrl,
-            },
-        };
+    /**
+     * Email a sign-in code
+     */
+    async startEmailLogin(email: string): Promise<OtpResult> {
+        return this.emailOtpService.sendCode(email);
+    }
+
+    /**
+     * Sign in (or sign up) with an emailed code
+     * An account that already uses this email - e.g. a Google account - is signed in rather than duplicated.
+     */
+    async authenticateWithEmail(email: string, code: string, context: LoginContext = {}): Promise<AuthResult> {
+        const verification = await this.emailOtpService.verifyCode(email, code);
+        if (!verification.success) {
+            return verification;
+        }
+
+        const normalizedEmail = normalizeEmail(email);
+        const existing = await db.query.users.findFirst({
+            where: eq(sql`lower(${users.email})`, normalizedEmail),
+        });
+
+        const user = existing ?? await this.createUser({ email: normalizedEmail }, context);
+        logger.info({ userId: user.id, newUser: !existing }, 'Email sign-in');
+
+        return this.signIn(user, context);
+    }
+
+    /**
+     * Exchange a refresh token for a new token pair
+     */
+    async refresh(refreshToken: string, ipAddress?: string): Promise<TokenPair> {
+        return this.tokenService.rotate(refreshToken, ipAddress);
+    }
+
+    /**
+     * Log out - revokes the refresh token's session
+     */
+    async logout(refreshToken: string): Promise<void> {
+        await this.tokenService.revoke(refreshToken);
+    }
+
+    /**
+     * List signed-in devices
+     */
+    async listSessions(userId: string) {
+        return this.sessionService.listSessions(userId);
+    }
+
+    /**
+     * Sign out one device
+     */
+    async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+        return this.sessionService.revokeSession(userId, sessionId);
+    }
+
+    /**
+     * Sign out every device
+     */
+    async logoutEverywhere(userId: string): Promise<number> {
+        return this.sessionService.revokeAllSessions(userId);
     }
 
     /**
@@ -87,6 +166,7 @@ export class AuthService {
             return {
                 googleId: payload.sub,
                 email: payload.email!,
+                emailVerified: payload.email_verified === true,
                 name: payload.name,
                 picture: payload.picture,
             };
@@ -110,6 +190,7 @@ export class AuthService {
             return {
                 googleId: userInfo.sub,
                 email: userInfo.email,
+                emailVerified: userInfo.email_verified === true,
                 name: userInfo.name,
                 picture: userInfo.picture,
             };
@@ -119,10 +200,32 @@ export class AuthService {
         }
     }
 
+    /**
+     * Start a session and issue its tokens
+     */
+    private async signIn(user: User, context: LoginContext): Promise<AuthResult> {
+        const session = await this.sessionService.createSession(user.id, context);
+        const tokens = await this.tokenService.issueTokens(user.id, session.id);
+
+        return {
+            success: true,
+            tokens,
+            user: {
+                id: user.id,
+                name: user.name,
+                email: user.email,
+                profilePhotoUrl: user.profilePhotoUrl,
+                bodyPhotoUrl: user.bodyPhotoUrl,
+            },
+        };
+    }
+
     /**
      * Find existing user or create new one
+     * Returns null for an unknown Google account whose email Google has not verified -
+     * such an email must neither take over an account that uses it nor claim it for a new one.
      */
-    private async findOrCreateUser(userInfo: GoogleUserInfo) {
+    private async findOrCreateUser(userInfo: GoogleUserInfo, signup: LoginContext = {}): Promise<User | null> {
         // Check if user exists by Google ID
         let user = await db.query.users.findFirst({
             where: eq(users.googleId, userInfo.googleId),
@@ -132,9 +235,14 @@ export class AuthService {
             return user;
         }
 
-        // Check if email exists (link account)
+        if (!userInfo.emailVerified) {
+            logger.warn({ googleId: userInfo.googleId }, 'Google sign-in with unverified email rejected');
+            return null;
+        }
+
+        // Check if email exists, e.g. an email sign-in account (link account)
         user = await db.query.users.findFirst({
-            where: eq(users.email, userInfo.email),
+            where: eq(sql`lower(${users.email})`, normalizeEmail(userInfo.email)),
         });
 
         if (user) {
@@ -150,17 +258,30 @@ export class AuthService {
             return updatedUser;
         }
 
+        return this.createUser({
+            email: userInfo.email,
+            name: userInfo.name,
+            googleId: userInfo.googleId,
+            picture: userInfo.picture,
+        }, signup);
+    }
+
+    /**
+     * Create a user with the signup bonus and referral attribution
+     */
+    private async createUser(profile: NewUserProfile, signup: LoginContext = {}): Promise<User> {
         // Generate unique username
-        const baseName = userInfo.name || userInfo.email.split('@')[0];
+        const baseName = profile.name || profile.email.split('@')[0];
         const username = await this.generateUniqueUsername(baseName);
 
         // Create new user
         const newUser: NewUser = {
-            googleId: userInfo.googleId,
-            email: userInfo.email,
-            name: userInfo.name,
+            googleId: profile.googleId,
+            email: profile.email,
+            name: profile.name,
             username: username,
-            profilePhotoUrl: userInfo.picture,
+            profilePhotoUrl: profile.picture,
+            signupDeviceId: signup.deviceId,
         };
 
         const [createdUser] = await db.insert(users).values(newUser).returning();
@@ -169,6 +290,20 @@ export class AuthService {
         const creditsService = new CreditsService();
         await creditsService.grantSignupBonus(createdUser.id);
 
+        // Referral attribution must never block sign-up
+        if (signup.referralCode) {
+            try {
+                await new ReferralsService().attributeSignup({
+                    refereeId: createdUser.id,
+                    refereeEmail: profile.email,
+                    code: signup.referralCode,
+                    deviceId: signup.deviceId,
+                });
+            } catch (error: any) {
+                logger.error({ userId: createdUser.id, error: error.message }, 'Referral attribution failed');
+            }
+        }
+
         logger.info({ userId: createdUser.id }, 'New user created with 3 free credits');
         return createdUser;
     }
@@ -0,0 +1,195 @@
+/**
+ * Email OTP Service
+ * One-time sign-in codes by email, with resend limits, attempt limits and lockout
+ */
+
+import crypto from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '../../db';
+import { emailLoginCodes } from '../../db/schema';
+import { generateOTP, sendVerificationEmail } from '../../utils/email';
+import { hashToken } from '../../utils/tokens';
+import { logger } from '../../utils/logger';
+
+// Matches the expiry stated in the verification email
+const CODE_TTL_MS = 10 * 60 * 1000;
+
+// Minimum gap between two codes for the same email
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+// Codes that can be sent per email per window
+const MAX_SENDS_PER_WINDOW = 5;
+const SEND_WINDOW_MS = 60 * 60 * 1000;
+
+// Wrong guesses allowed per code before the email is locked
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+export interface OtpResult {
+    success: boolean;
+    error?: string;
+    code?: string;
+    status?: number;
+    retryAfterSeconds?: number;
+    attemptsRemaining?: number;
+}
+
+export function normalizeEmail(email: string): string {
+    return email.toLowerCase().trim();
+}
+
+export class EmailOtpService {
+    /**
+     * Send a sign-in code to the email
+     */
+    async sendCode(email: string): Promise<OtpResult> {
+        const normalizedEmail = normalizeEmail(email);
+        const now = new Date();
+
+        await db.insert(emailLoginCodes)
+            .values({ email: normalizedEmail })
+            .onConflictDoNothing({ target: emailLoginCodes.email });
+
+        const result = await db.transaction(async (tx): Promise<OtpResult & { otp?: string }> => {
+            const [entry] = await tx.select()
+                .from(emailLoginCodes)
+                .where(eq(emailLoginCodes.email, normalizedEmail))
+                .for('update');
+
+            if (entry.lockedUntil && entry.lockedUntil > now) {
+                return this.locked(entry.lockedUntil, now);
+            }
+
+            if (entry.lastSentAt && now.getTime() - entry.lastSentAt.getTime() < RESEND_COOLDOWN_MS) {
+                return {
+                    success: false,
+                    error: 'Please wait before requesting another code',
+                    code: 'OTP_RESEND_TOO_SOON',
+                    status: 429,
+                    retryAfterSeconds: Math.ceil((entry.lastSentAt.getTime() + RESEND_COOLDOWN_MS - now.getTime()) / 1000),
+                };
+            }
+
+            const windowExpired = now.getTime() - entry.windowStartedAt.getTime() >= SEND_WINDOW_MS;
+            const sendCount = windowExpired ? 0 : entry.sendCount;
+            const windowStartedAt = windowExpired ? now : entry.windowStartedAt;
+
+            if (sendCount >= MAX_SENDS_PER_WINDOW) {
+                return {
+                    success: false,
+                    error: 'Too many codes requested. Please try again later.',
+                    code: 'OTP_SEND_LIMIT',
+                    status: 429,
+                    retryAfterSeconds: Math.ceil((windowStartedAt.getTime() + SEND_WINDOW_MS - now.getTime()) / 1000),
+                };
+            }
+
+            const otp = generateOTP();
+            await tx.update(emailLoginCodes)
+                .set({
+                    codeHash: this.hashCode(normalizedEmail, otp),
+                    expiresAt: new Date(now.getTime() + CODE_TTL_MS),
+                    attempts: 0,
+                    sendCount: sendCount + 1,
+                    windowStartedAt,
+                    lastSentAt: now,
+                    lockedUntil: null,
+                })
+                .where(eq(emailLoginCodes.id, entry.id));
+
+            return { success: true, otp };
+        });
+
+        if (!result.success) {
+            logger.info({ email: normalizedEmail, code: result.code }, 'Email sign-in code not sent');
+            return result;
+        }
+
+        await sendVerificationEmail(normalizedEmail, result.otp!);
+        logger.info({ email: normalizedEmail }, 'Email sign-in code sent');
+
+        return { success: true };
+    }
+
+    /**
+     * Check a code - a correct code can only be used once
+     */
+    async verifyCode(email: string, code: string): Promise<OtpResult> {
+        const normalizedEmail = normalizeEmail(email);
+        const now = new Date();
+
+        return db.transaction(async (tx): Promise<OtpResult> => {
+            const [entry] = await tx.select()
+                .from(emailLoginCodes)
+                .where(eq(emailLoginCodes.email, normalizedEmail))
+                .for('update');
+
+            if (entry?.lockedUntil && entry.lockedUntil > now) {
+                return this.locked(entry.lockedUntil, now);
+            }
+
+            if (!entry || !entry.codeHash || !entry.expiresAt) {
+                return { success: false, error: 'Invalid verification code', code: 'OTP_INVALID', status: 400 };
+            }
+
+            if (entry.expiresAt <= now) {
+                await tx.update(emailLoginCodes)
+                    .set({ codeHash: null, expiresAt: null })
+                    .where(eq(emailLoginCodes.id, entry.id));
+                return { success: false, error: 'Verification code expired. Please request a new one.', code: 'OTP_EXPIRED', status: 400 };
+            }
+
+            const expected = Buffer.from(entry.codeHash, 'hex');
+            const actual = Buffer.from(this.hashCode(normalizedEmail, code), 'hex');
+
+            if (!crypto.timingSafeEqual(expected, actual)) {
+                const attempts = entry.attempts + 1;
+
+                if (attempts >= MAX_ATTEMPTS) {
+                    const lockedUntil = new Date(now.getTime() + LOCKOUT_MS);
+                    await tx.update(emailLoginCodes)
+                        .set({ attempts, codeHash: null, expiresAt: null, lockedUntil })
+                        .where(eq(emailLoginCodes.id, entry.id));
+
+                    logger.warn({ email: normalizedEmail }, 'Email sign-in locked after too many wrong codes');
+                    return this.locked(lockedUntil, now);
+                }
+
+                await tx.update(emailLoginCodes)
+                    .set({ attempts })
+                    .where(eq(emailLoginCodes.id, entry.id));
+
+                return {
+                    success: false,
+                    error: 'Invalid verification code',
+                    code: 'OTP_INVALID',
+                    status: 400,
+                    attemptsRemaining: MAX_ATTEMPTS - attempts,
+                };
+            }
+
+            await tx.update(emailLoginCodes)
+                .set({ codeHash: null, expiresAt: null, attempts: 0 })
+                .where(eq(emailLoginCodes.id, entry.id));
+
+            return { success: true };
+        });
+    }
+
+    private locked(lockedUntil: Date, now: Date): OtpResult {
+        return {
+            success: false,
+            error: 'Too many attempts. Please try again later.',
+            code: 'OTP_LOCKED',
+            status: 429,
+            retryAfterSeconds: Math.ceil((lockedUntil.getTime() - now.getTime()) / 1000),
+        };
+    }
+
+    /**
+     * Codes are short, so the email is mixed in to keep equal codes from sharing a hash
+     */
+    private hashCode(email: string, code: string): string {
+        return hashToken(`${email}:${code}`);
+    }
+}
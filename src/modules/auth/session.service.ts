@@ -0,0 +1,124 @@
+/**
+ * Session Service
+ * Signed-in devices: creation on login, listing and revocation
+ */
+
+import { eq, and, isNull, desc, SQL } from 'drizzle-orm';
+import { db } from '../../db';
+import { users, userSessions, refreshTokens, UserSession } from '../../db/schema';
+import { logger } from '../../utils/logger';
+
+// lastSeenAt is only written when older than this, to avoid a write per request
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface SessionMetadata {
+    deviceId?: string;
+    deviceName?: string;
+    platform?: UserSession['platform'];
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export class SessionService {
+    /**
+     * Record a new sign-in
+     */
+    async createSession(userId: string, meta: SessionMetadata = {}): Promise<UserSession> {
+        const [session] = await db.insert(userSessions).values({
+            userId,
+            deviceId: meta.deviceId || null,
+            deviceName: meta.deviceName || null,
+            platform: meta.platform || 'other',
+            ipAddress: meta.ipAddress || null,
+            userAgent: meta.userAgent?.slice(0, 512) || null,
+        }).returning();
+
+        logger.info({ userId, sessionId: session.id, platform: session.platform }, 'Session created');
+        return session;
+    }
+
+    /**
+     * Get a session if it has not been revoked
+     */
+    async getActiveSession(sessionId: string): Promise<UserSession | null> {
+        const session = await db.query.userSessions.findFirst({
+            where: and(eq(userSessions.id, sessionId), isNull(userSessions.revokedAt)),
+        });
+        return session || null;
+    }
+
+    /**
+     * Update last-seen time and IP (throttled)
+     */
+    async touch(session: UserSession, ipAddress?: string): Promise<void> {
+        if (Date.now() - session.lastSeenAt.getTime() < TOUCH_INTERVAL_MS) return;
+
+        await db.update(userSessions)
+            .set({ lastSeenAt: new Date(), ...(ipAddress && { ipAddress }) })
+            .where(eq(userSessions.id, session.id));
+    }
+
+    /**
+     * List the user's active sessions, most recently used first
+     */
+    async listSessions(userId: string) {
+        return db.query.userSessions.findMany({
+            where: and(eq(userSessions.userId, userId), isNull(userSessions.revokedAt)),
+            columns: {
+                id: true,
+                deviceName: true,
+                platform: true,
+                ipAddress: true,
+                lastSeenAt: true,
+                createdAt: true,
+            },
+            orderBy: [desc(userSessions.lastSeenAt)],
+        });
+    }
+
+    /**
+     * Revoke one session (and its refresh tokens)
+     * Returns false if the session doesn't exist, isn't the user's, or is already revoked.
+     */
+    async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+        const revoked = await this.revokeWhere(and(
+            eq(userSessions.id, sessionId),
+            eq(userSessions.userId, userId),
+            isNull(userSessions.revokedAt)
+        ) as SQL);
+        return revoked > 0;
+    }
+
+    /**
+     * Revoke every session of the user ("log out everywhere")
+     * Google ID tokens issued up to now stop working too, as they are not tied to a session.
+     */
+    async revokeAllSessions(userId: string): Promise<number> {
+        const revoked = await this.revokeWhere(and(
+            eq(userSessions.userId, userId),
+            isNull(userSessions.revokedAt)
+        ) as SQL);
+        await db.update(users).set({ tokensValidAfter: new Date() }).where(eq(users.id, userId));
+
+        logger.info({ userId, revoked }, 'All sessions revoked');
+        return revoked;
+    }
+
+    private async revokeWhere(where: SQL): Promise<number> {
+        return db.transaction(async (tx) => {
+            const now = new Date();
+            const sessions = await tx.update(userSessions)
+                .set({ revokedAt: now })
+                .where(where)
+                .returning({ id: userSessions.id });
+
+            for (const { id } of sessions) {
+                await tx.update(refreshTokens)
+                    .set({ revokedAt: now })
+                    .where(and(eq(refreshTokens.familyId, id), isNull(refreshTokens.revokedAt)));
+            }
+
+            return sessions.length;
+        });
+    }
+}
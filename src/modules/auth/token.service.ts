@@ -0,0 +1,103 @@
+/**
+ * Token Service
+ * Issues access/refresh token pairs and rotates refresh tokens
+ */
+
+import { eq, and, isNull, lt } from 'drizzle-orm';
+import { db } from '../../db';
+import { refreshTokens } from '../../db/schema';
+import { signAccessToken, generateRefreshToken, hashToken } from '../../utils/tokens';
+import { logger } from '../../utils/logger';
+import { SessionService } from './session.service';
+
+const REFRESH_TOKEN_TTL_MS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30') * 24 * 60 * 60 * 1000;
+
+export interface TokenPair {
+    accessToken: string;
+    refreshToken: string;
+    expiresIn: number; // Access token lifetime in seconds
+    tokenType: 'Bearer';
+}
+
+export class TokenService {
+    private sessionService = new SessionService();
+
+    /**
+     * Issue a new token pair for a session
+     * The session id doubles as the refresh token family id.
+     */
+    async issueTokens(userId: string, sessionId: string): Promise<TokenPair> {
+        const refreshToken = generateRefreshToken();
+
+        await db.insert(refreshTokens).values({
+            userId,
+            tokenHash: hashToken(refreshToken),
+            familyId: sessionId,
+            expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+        });
+
+        const { token, expiresIn } = signAccessToken(userId, { sid: sessionId });
+        return { accessToken: token, refreshToken, expiresIn, tokenType: 'Bearer' };
+    }
+
+    /**
+     * Exchange a refresh token for a new pair
+     * The presented token is single-use. Presenting an already-rotated token means it leaked,
+     * so the whole session is revoked and the user must sign in again.
+     */
+    async rotate(refreshToken: string, ipAddress?: string): Promise<TokenPair> {
+        const stored = await db.query.refreshTokens.findFirst({
+            where: eq(refreshTokens.tokenHash, hashToken(refreshToken)),
+        });
+
+        if (!stored || stored.revokedAt || stored.expiresAt <= new Date()) {
+            throw new Error('INVALID_REFRESH_TOKEN');
+        }
+
+        // Conditional update - only one concurrent rotation can win
+        const [claimed] = await db.update(refreshTokens)
+            .set({ usedAt: new Date() })
+            .where(and(eq(refreshTokens.id, stored.id), isNull(refreshTokens.usedAt)))
+            .returning();
+
+        if (!claimed) {
+            await this.sessionService.revokeSession(stored.userId, stored.familyId);
+            logger.warn({ userId: stored.userId, sessionId: stored.familyId }, 'Refresh token reuse detected - session revoked');
+            throw new Error('REFRESH_TOKEN_REUSED');
+        }
+
+        const session = await this.sessionService.getActiveSession(stored.familyId);
+        if (!session) {
+            throw new Error('INVALID_REFRESH_TOKEN');
+        }
+        await this.sessionService.touch(session, ipAddress);
+
+        return this.issueTokens(stored.userId, stored.familyId);
+    }
+
+    /**
+     * Revoke the session the given refresh token belongs to (logout)
+     * Unknown tokens are ignored so logout is always safe to call.
+     */
+    async revoke(refreshToken: string): Promise<void> {
+        const stored = await db.query.refreshTokens.findFirst({
+            where: eq(refreshTokens.tokenHash, hashToken(refreshToken)),
+            columns: { familyId: true, userId: true },
+        });
+
+        if (!stored) return;
+
+        await this.sessionService.revokeSession(stored.userId, stored.familyId);
+        logger.info({ userId: stored.userId, sessionId: stored.familyId }, 'Session revoked (logout)');
+    }
+
+    /**
+     * Delete expired refresh tokens (scheduled)
+     */
+    async purgeExpired(): Promise<number> {
+        const deleted = await db.delete(refreshTokens)
+            .where(lt(refreshTokens.expiresAt, new Date()))
+            .returning({ id: refreshTokens.id });
+        return deleted.length;
+    }
+}
@@ -3,13 +3,23 @@
  * Handles HTTP requests for credit operations
  */
 
-import { Response } from 'express';
+import { Request, Response } from 'express';
 import { CreditsService } from './credits.service';
+import { PaymentsService } from './payments.service';
+import { PromoService, PROMO_ERROR_MESSAGES } from './promo.service';
+import { ReferralsService } from './referrals.service';
 import { AuthRequest } from '../../middleware/auth';
 import { logger } from '../../utils/logger';
 
+interface RawBodyRequest extends Request {
+    rawBody?: Buffer;
+}
+
 export class CreditsController {
     private service = new CreditsService();
+    private payments = new PaymentsService();
+    private promos = new PromoService();
+    private referrals = new ReferralsService();
 
     /**
      * Get user's credit balance and plan
@@ -31,6 +41,7 @@ export class CreditsController {
             res.json({
                 credits: data.credits,
                 plan: data.plan,
+                planExpiresAt: data.planExpiresAt,
             });
         } catch (error: any) {
             logger.error({ error: error.message }, 'Error getting credit balance');
@@ -75,44 +86,153 @@ export class CreditsController {
     };
 
     /**
-     * Attempt to purchase credits
-     * Returns testing mode message for now
+     * Start a purchase - creates a checkout order for the plan
      */
     purchase = async (req: AuthRequest, res: Response) => {
         try {
             const userId = req.user?.id;
-            const { planId } = req.body;
+            const { planId, promoCode } = req.body;
 
             if (!userId) {
                 return res.status(401).json({ error: 'Unauthorized' });
             }
 
-            if (!planId || !['basic', 'premium', 'business'].includes(planId)) {
-                return res.status(400).json({ error: 'Invalid plan ID' });
+            const order = await this.payments.createOrder(userId, planId, promoCode);
+
+            res.json({
+                success: true,
+                ...order,
+            });
+        } catch (error: any) {
+            if (PROMO_ERROR_MESSAGES[error.message]) {
+                return res.status(400).json({
+                    error: PROMO_ERROR_MESSAGES[error.message],
+                    code: error.message,
+                });
+            }
+            if (error.message === 'PLAN_NOT_PURCHASABLE') {
+                return res.status(400).json({
+                    error: 'Plan not available for purchase',
+                    code: 'PLAN_NOT_PURCHASABLE',
+                    message: 'Contact us for Business pricing.',
+                });
+            }
+            if (error.message === 'PAYMENTS_NOT_CONFIGURED' || error.message === 'PAYMENT_PROVIDER_ERROR') {
+                return res.status(503).json({
+                    error: 'Payments are temporarily unavailable',
+                    code: error.message,
+                });
+            }
+            logger.error({ error: error.message }, 'Error processing purchase');
+            res.status(500).json({ error: 'Failed to process purchase' });
+        }
+    };
+
+    /**
+     * Get referral code and stats
+     */
+    getReferrals = async (req: AuthRequest, res: Response) => {
+        try {
+            const userId = req.user?.id;
+
+            if (!userId) {
+                return res.status(401).json({ error: 'Unauthorized' });
+            }
+
+            const stats = await this.referrals.getStats(userId);
+            res.json(stats);
+        } catch (error: any) {
+            if (error.message === 'USER_NOT_FOUND') {
+                return res.status(404).json({ error: 'User not found' });
+            }
+            logger.error({ error: error.message }, 'Error getting referral stats');
+            res.status(500).json({ error: 'Failed to get referral stats' });
+        }
+    };
+
+    /**
+     * Redeem a bonus-credit promo code
+     */
+    redeemPromo = async (req: AuthRequest, res: Response) => {
+        try {
+            const userId = req.user?.id;
+            const { code } = req.body;
+
+            if (!userId) {
+                return res.status(401).json({ error: 'Unauthorized' });
             }
 
-            // Get user email for notification message
-            const user = await require('../../db').db.query.users.findFirst({
-                where: require('drizzle-orm').eq(require('../../db/schema').users.id, userId),
-                columns: { email: true },
+            const result = await this.promos.redeem(userId, code);
+
+            res.json({
+                success: true,
+                creditsGranted: result.creditsGranted,
+                credits: result.credits,
             });
+        } catch (error: any) {
+            if (PROMO_ERROR_MESSAGES[error.message]) {
+                return res.status(400).json({
+                    error: PROMO_ERROR_MESSAGES[error.message],
+                    code: error.message,
+                });
+            }
+            logger.error({ error: error.message }, 'Error redeeming promo code');
+            res.status(500).json({ error: 'Failed to redeem promo code' });
+        }
+    };
+
+    /**
+     * Verify a completed checkout (called by the client after payment)
+     */
+    verifyPayment = async (req: AuthRequest, res: Response) => {
+        try {
+            const userId = req.user?.id;
+            const { orderId, paymentId, signature } = req.body;
+
+            if (!userId) {
+                return res.status(401).json({ error: 'Unauthorized' });
+            }
 
-            logger.info({ userId, planId }, 'Purchase attempted - testing mode');
+            const balance = await this.payments.verifyPayment(userId, orderId, paymentId, signature);
 
-            // Return testing mode message
             res.json({
-                success: false,
-                testingMode: true,
-                message: "We're in Testing Mode!",
-                description: `Thank you for your interest in SnatchIt! We're currently in early access and payment processing is not yet available.`,
-                notification: user?.email
-                    ? `We'll notify you at ${user.email} as soon as we go live!`
-                    : 'We will announce when payments are available!',
-                cta: 'Stay tuned for exclusive launch discounts! 🎉',
+                success: true,
+                credits: balance?.credits,
+                plan: balance?.plan,
             });
         } catch (error: any) {
-            logger.error({ error: error.message }, 'Error processing purchase');
-            res.status(500).json({ error: 'Failed to process purchase' });
+            if (error.message === 'PAYMENT_NOT_FOUND') {
+                return res.status(404).json({ error: 'Payment not found', code: 'PAYMENT_NOT_FOUND' });
+            }
+            if (error.message === 'INVALID_SIGNATURE') {
+                return res.status(400).json({ error: 'Payment verification failed', code: 'INVALID_SIGNATURE' });
+            }
+            logger.error({ error: error.message }, 'Error verifying payment');
+            res.status(500).json({ error: 'Failed to verify payment' });
+        }
+    };
+
+    /**
+     * Payment provider webhook (Public - authenticated by signature)
+     */
+    webhook = async (req: RawBodyRequest, res: Response) => {
+        try {
+            const signature = req.header('x-razorpay-signature') || '';
+
+            if (!req.rawBody) {
+                return res.status(400).json({ error: 'Missing body' });
+            }
+
+            const valid = await this.payments.handleWebhook(req.rawBody, signature);
+            if (!valid) {
+                return res.status(400).json({ error: 'Invalid signature' });
+            }
+
+            res.json({ success: true });
+        } catch (error: any) {
+            // 5xx makes the provider retry the delivery
+            logger.error({ error: error.message }, 'Error handling payment webhook');
+            res.status(500).json({ error: 'Failed to process webhook' });
         }
     };
 
@@ -6,6 +6,10 @@
 import { Router } from 'express';
 import { CreditsController } from './credits.controller';
 import { authenticateUser } from '../../middleware/auth';
+import { idempotent } from '../../middleware/idempotency';
+import { writeRateLimiter } from '../../middleware/rateLimiter';
+import { validate } from '../../middleware/validation';
+import { Schemas } from '../../middleware/schemas';
 
 const router = Router();
 const controller = new CreditsController();
@@ -19,8 +23,20 @@ router.get('/plans', controller.getPlans);
 // Get transaction history (Protected)
 router.get('/history', authenticateUser, controller.getHistory);
 
-// Attempt to purchase credits (Protected)
-router.post('/purchase', authenticateUser, controller.purchase);
+// Start a purchase - creates a checkout order (Protected)
+router.post('/purchase', authenticateUser, validate(Schemas.purchase), idempotent, controller.purchase);
+
+// Verify a completed checkout (Protected)
+router.post('/verify', authenticateUser, validate(Schemas.verifyPayment), controller.verifyPayment);
+
+// Referral code and stats (Protected)
+router.get('/referrals', authenticateUser, controller.getReferrals);
+
+// Redeem a bonus-credit promo code (Protected)
+router.post('/redeem', authenticateUser, writeRateLimiter, validate(Schemas.redeemPromo), controller.redeemPromo);
+
+// Payment provider webhook (Public - verified by signature)
+router.post('/webhook', controller.webhook);
 
 // Record purchase intent - for lead tracking (Protected)
 router.post('/intent', authenticateUser, controller.recordIntent);
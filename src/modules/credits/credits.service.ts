@@ -3,10 +3,16 @@
  * Business logic for credit operations
  */
 
-import { eq, desc, sql } from 'drizzle-orm';
+import { eq, desc, sql, and, gte, lt } from 'drizzle-orm';
 import { db } from '../../db';
-import { users, creditTransactions, looks, outfits, purchaseIntents } from '../../db/schema';
+import { users, creditTransactions, creditReservations, looks, outfits, purchaseIntents, CreditReservation } from '../../db/schema';
 import { logger } from '../../utils/logger';
+import { hasActivePremium, computePlanExpiry, getPlanPeriodStart, getVariantLimit, FREE_PLAN_VARIANTS } from './plans.service';
+
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Held credits are released automatically if not captured within this window
+export const RESERVATION_TTL_MS = 30 * 60 * 1000;
 
 // Pricing plans configuration
 export const PRICING_PLANS = {
@@ -15,6 +21,10 @@ export const PRICING_PLANS = {
         name: 'Basic',
         price: 499, // INR
         credits: 20,
+        validityDays: 30,
+        maxRolloverCredits: 0, // Unused plan credits are forfeited when the plan expires
+        maxPriceWatches: 10,
+        maxVariants: 2, // Candidate images per generation
         features: ['Normal Generation'],
         popular: false,
     },
@@ -23,6 +33,10 @@ export const PRICING_PLANS = {
         name: 'Premium',
         price: 999, // INR
         credits: 40,
+        validityDays: 30,
+        maxRolloverCredits: 20, // Up to 20 unused credits survive expiry
+        maxPriceWatches: 50,
+        maxVariants: 4,
         features: ['Normal Generation', 'Outfit Mode', 'Upscale Download'],
         popular: true,
     },
@@ -31,6 +45,10 @@ export const PRICING_PLANS = {
         name: 'Business',
         price: null, // Contact
         credits: null,
+        validityDays: null, // Managed by contract
+        maxRolloverCredits: null,
+        maxPriceWatches: 200,
+        maxVariants: 4,
         features: ['Everything in Premium', 'API Access', 'Team Features', 'Custom Limits'],
         popular: false,
     },
@@ -40,10 +58,10 @@ export class CreditsService {
     /**
      * Get user's current balance and plan
      */
-    async getBalanceAndPlan(userId: string): Promise<{ credits: number; plan: string } | null> {
+    async getBalanceAndPlan(userId: string): Promise<{ credits: number; plan: string; planExpiresAt: Date | null } | null> {
         const user = await db.query.users.findFirst({
             where: eq(users.id, userId),
-            columns: { credits: true, plan: true },
+            columns: { credits: true, plan: true, planExpiresAt: true },
         });
 
         return user || null;
@@ -62,34 +80,49 @@ export class CreditsService {
     }
 
     /**
-     * Check if user has premium features (Premium or Business plan)
+     * Check if user has premium features (unexpired Premium or Business plan)
      */
     async hasPremiumFeatures(userId: string): Promise<boolean> {
         const user = await db.query.users.findFirst({
             where: eq(users.id, userId),
-            columns: { plan: true },
+            columns: { plan: true, planExpiresAt: true },
+        });
+
+        return user ? hasActivePremium(user) : false;
+    }
+
+    /**
+     * Most candidate images the user's plan allows per generation
+     */
+    async getVariantLimit(userId: string): Promise<number> {
+        const user = await db.query.users.findFirst({
+            where: eq(users.id, userId),
+            columns: { plan: true, planExpiresAt: true },
         });
 
-        return user ? ['premium', 'business'].includes(user.plan) : false;
+        return user ? getVariantLimit(user) : FREE_PLAN_VARIANTS;
     }
 
     /**
      * Deduct credits atomically (only call on successful operations)
+     * The balance guard means a deduction that would go below zero is rejected.
+     * Pass a transaction to deduct as part of it.
      */
     async deductCredits(
         userId: string,
         amount: number,
         type: 'generation' | 'refund',
         lookId?: string,
-        outfitId?: string
+        outfitId?: string,
+        executor: DbExecutor = db
     ): Promise<boolean> {
         try {
             // Atomic deduction using SQL
-            const result = await db.update(users)
+            const result = await executor.update(users)
                 .set({
                     credits: sql`${users.credits} - ${amount}`,
                 })
-                .where(eq(users.id, userId))
+                .where(and(eq(users.id, userId), gte(users.credits, amount)))
                 .returning({ credits: users.credits });
 
             if (result.length === 0) {
@@ -97,7 +130,7 @@ export class CreditsService {
             }
 
             // Log transaction
-            await db.insert(creditTransactions).values({
+            await executor.insert(creditTransactions).values({
                 userId,
                 amount: -amount, // Negative for deduction
                 type,
@@ -114,28 +147,220 @@ export class CreditsService {
         }
     }
 
+    /**
+     * Reserve (hold) credits for an operation that has not finished yet
+     * The credits leave the available balance immediately, so concurrent requests
+     * cannot spend the same credits. Throws INSUFFICIENT_CREDITS if the balance is too low.
+     */
+    async reserveCredits(userId: string, amount: number, description: string): Promise<CreditReservation> {
+        const reservation = await db.transaction(async (tx) => {
+            // Conditional update - only succeeds if the balance covers the hold
+            const result = await tx.update(users)
+                .set({ credits: sql`${users.credits} - ${amount}` })
+                .where(and(eq(users.id, userId), gte(users.credits, amount)))
+                .returning({ credits: users.credits });
+
+            if (result.length === 0) {
+                throw new Error('INSUFFICIENT_CREDITS');
+            }
+
+            const [created] = await tx.insert(creditReservations).values({
+                userId,
+                amount,
+                description,
+                expiresAt: new Date(Date.now() + RESERVATION_TTL_MS),
+            }).returning();
+
+            await tx.insert(creditTransactions).values({
+                userId,
+                amount: -amount,
+                type: 'hold',
+                correlationId: created.id,
+                description: `Hold: ${description}`,
+            });
+
+            return created;
+        });
+
+        logger.info({ userId, amount, reservationId: reservation.id }, 'Credits reserved');
+        return reservation;
+    }
+
+    /**
+     * Restart a held reservation's expiry - for work that starts long after the hold was placed
+     * Returns false if the reservation is no longer held.
+     */
+    async extendReservation(reservationId: string): Promise<boolean> {
+        const [reservation] = await db.update(creditReservations)
+            .set({ expiresAt: new Date(Date.now() + RESERVATION_TTL_MS) })
+            .where(and(eq(creditReservations.id, reservationId), eq(creditReservations.status, 'held')))
+            .returning({ id: creditReservations.id });
+        return !!reservation;
+    }
+
+    /**
+     * Capture a held reservation - the operation succeeded, the credits are spent
+     * With an amount below the hold only that much is spent and the rest goes back.
+     * Returns false if the reservation was already settled. Pass a transaction to capture as part of it.
+     */
+    async captureCredits(
+        reservationId: string,
+        refs: { lookId?: string | null; outfitId?: string | null } = {},
+        amount?: number,
+        executor: DbExecutor = db
+    ): Promise<boolean> {
+        return executor.transaction(async (tx) => {
+            const [reservation] = await tx.update(creditReservations)
+                .set({ status: 'captured', settledAt: new Date() })
+                .where(and(eq(creditReservations.id, reservationId), eq(creditReservations.status, 'held')))
+                .returning();
+
+            if (!reservation) {
+                logger.warn({ reservationId }, 'Capture skipped - reservation not held');
+                return false;
+            }
+
+            const captured = Math.min(amount ?? reservation.amount, reservation.amount);
+            const unused = reservation.amount - captured;
+
+            // Amount is 0: the balance already moved when the hold was placed
+            await tx.insert(creditTransactions).values({
+                userId: reservation.userId,
+                amount: 0,
+                type: 'capture',
+                correlationId: reservation.id,
+                lookId: refs.lookId || null,
+                outfitId: refs.outfitId || null,
+                description: `Captured ${captured} credit${captured === 1 ? '' : 's'}: ${reservation.description || 'operation'}`,
+            });
+
+            if (unused > 0) {
+                await tx.update(users)
+                    .set({ credits: sql`${users.credits} + ${unused}` })
+                    .where(eq(users.id, reservation.userId));
+
+                await tx.insert(creditTransactions).values({
+                    userId: reservation.userId,
+                    amount: unused,
+                    type: 'release',
+                    correlationId: reservation.id,
+                    description: `Released: ${unused} unused of ${reservation.amount} held`,
+                });
+            }
+
+            logger.info({ userId: reservation.userId, reservationId, amount: captured, released: unused }, 'Credits captured');
+            return true;
+        });
+    }
+
+    /**
+     * Pay for finished work: capture its hold, or charge directly if the hold was released anyway
+     * Throws INSUFFICIENT_CREDITS if neither works. Pass the transaction that saves the work's output
+     * so the output is never kept unpaid.
+     */
+    async chargeReservation(
+        reservationId: string | null | undefined,
+        userId: string,
+        amount: number,
+        refs: { lookId?: string; outfitId?: string } = {},
+        executor: DbExecutor = db
+    ): Promise<void> {
+        const captured = !!reservationId && await this.captureCredits(reservationId, refs, amount, executor);
+        if (captured) return;
+
+        const deducted = await this.deductCredits(userId, amount, 'generation', refs.lookId, refs.outfitId, executor);
+        if (!deducted) {
+            throw new Error('INSUFFICIENT_CREDITS');
+        }
+    }
+
+    /**
+     * Release a held reservation - the operation failed or timed out, credits go back
+     * Returns false if the reservation was already settled.
+     */
+    async releaseCredits(reservationId: string, reason: string): Promise<boolean> {
+        return db.transaction(async (tx) => {
+            const [reservation] = await tx.update(creditReservations)
+                .set({ status: 'released', settledAt: new Date() })
+                .where(and(eq(creditReservations.id, reservationId), eq(creditReservations.status, 'held')))
+                .returning();
+
+            if (!reservation) {
+                return false;
+            }
+
+            await tx.update(users)
+                .set({ credits: sql`${users.credits} + ${reservation.amount}` })
+                .where(eq(users.id, reservation.userId));
+
+            await tx.insert(creditTransactions).values({
+                userId: reservation.userId,
+                amount: reservation.amount,
+                type: 'release',
+                correlationId: reservation.id,
+                description: `Released: ${reason}`,
+            });
+
+            logger.info({ userId: reservation.userId, reservationId, amount: reservation.amount, reason }, 'Credits released');
+            return true;
+        });
+    }
+
+    /**
+     * Release every hold that outlived its TTL (scheduled)
+     */
+    async releaseExpiredReservations(): Promise<number> {
+        const expired = await db.query.creditReservations.findMany({
+            where: and(eq(creditReservations.status, 'held'), lt(creditReservations.expiresAt, new Date())),
+            columns: { id: true },
+            limit: 100,
+        });
+
+        let released = 0;
+        for (const reservation of expired) {
+            if (await this.releaseCredits(reservation.id, 'Reservation expired')) {
+                released++;
+            }
+        }
+
+        if (released > 0) {
+            logger.info({ released }, 'Expired credit reservations released');
+        }
+        return released;
+    }
+
     /**
      * Add credits (for purchases, refunds, etc.)
+     * Pass a transaction to grant as part of it; a failure there must abort the transaction.
      */
     async addCredits(
         userId: string,
         amount: number,
-        type: 'signup_bonus' | 'purchase' | 'refund',
+        type: 'signup_bonus' | 'purchase' | 'refund' | 'referral_bonus',
         plan?: string,
-        description?: string
+        description?: string,
+        executor: DbExecutor = db
     ): Promise<boolean> {
         try {
             const updateData: any = {
                 credits: sql`${users.credits} + ${amount}`,
             };
 
-            // Update plan if this is a purchase
+            // Update plan if this is a purchase (same plan while active = renewal)
             if (type === 'purchase' && plan) {
+                const current = await executor.query.users.findFirst({
+                    where: eq(users.id, userId),
+                    columns: { plan: true, planExpiresAt: true, planPeriodStartedAt: true },
+                });
+
                 updateData.plan = plan;
                 updateData.planPurchasedAt = new Date();
+                updateData.planPeriodStartedAt = getPlanPeriodStart(current);
+                updateData.planExpiresAt = computePlanExpiry(plan, current);
+                updateData.planExpiryNotifiedAt = null;
             }
 
-            const result = await db.update(users)
+            const result = await executor.update(users)
                 .set(updateData)
                 .where(eq(users.id, userId))
                 .returning({ credits: users.credits, plan: users.plan });
@@ -145,7 +370,7 @@ export class CreditsService {
             }
 
             // Log transaction
-            await db.insert(creditTransactions).values({
+            await executor.insert(creditTransactions).values({
                 userId,
                 amount, // Positive for addition
                 type,
@@ -0,0 +1,118 @@
+/**
+ * Payment Provider
+ * Checkout provider abstraction. Razorpay is the production implementation;
+ * RAZORPAY_BASE_URL can point at a local stub server in tests.
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import { logger } from '../../utils/logger';
+
+export interface CreateOrderInput {
+    amount: number; // Smallest currency unit (paise)
+    currency: string;
+    receipt: string;
+    notes?: Record<string, string>;
+}
+
+export interface ProviderOrder {
+    orderId: string;
+    amount: number;
+    currency: string;
+}
+
+export interface PaymentProvider {
+    readonly name: string;
+
+    /** Public key the client needs to open checkout */
+    readonly publicKey: string | null;
+
+    createOrder(input: CreateOrderInput): Promise<ProviderOrder>;
+
+    /** Verify the signature returned to the client after checkout */
+    verifyPaymentSignature(orderId: string, paymentId: string, signature: string): boolean;
+
+    /** Verify a webhook delivery against its raw body */
+    verifyWebhookSignature(rawBody: Buffer, signature: string): boolean;
+}
+
+export class RazorpayProvider implements PaymentProvider {
+    readonly name = 'razorpay';
+
+    private baseUrl = process.env.RAZORPAY_BASE_URL || 'https://api.razorpay.com/v1';
+    private keyId = process.env.RAZORPAY_KEY_ID || '';
+    private keySecret = process.env.RAZORPAY_KEY_SECRET || '';
+    private webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET || '';
+
+    get publicKey() {
+        return this.keyId || null;
+    }
+
+    async createOrder(input: CreateOrderInput): Promise<ProviderOrder> {
+        if (!this.keyId || !this.keySecret) {
+            throw new Error('PAYMENTS_NOT_CONFIGURED');
+        }
+
+        try {
+            const response = await axios.post(`${this.baseUrl}/orders`, {
+                amount: input.amount,
+                currency: input.currency,
+                receipt: input.receipt,
+                notes: input.notes,
+            }, {
+                auth: { username: this.keyId, password: this.keySecret },
+                timeout: 15000,
+            });
+
+            return {
+                orderId: response.data.id,
+                amount: response.data.amount,
+                currency: response.data.currency,
+            };
+        } catch (error: any) {
+            logger.error({ error: error.message, details: error.response?.data }, 'Razorpay order creation failed');
+            throw new Error('PAYMENT_PROVIDER_ERROR');
+        }
+    }
+
+    verifyPaymentSignature(orderId: string, paymentId: string, signature: string): boolean {
+        if (!this.keySecret) return false;
+        const expected = hmacSha256(this.keySecret, `${orderId}|${paymentId}`);
+        return safeEqual(expected, signature);
+    }
+
+    verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+        if (!this.webhookSecret) return false;
+        const expected = hmacSha256(this.webhookSecret, rawBody);
+        return safeEqual(expected, signature);
+    }
+}
+
+function hmacSha256(secret: string, data: string | Buffer): string {
+    return crypto.createHmac('sha256', secret).update(data).digest('hex');
+}
+
+function safeEqual(expected: string, actual: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(actual || '');
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * Get the payment provider (created once per process)
+ */
+export function getPaymentProvider(): PaymentProvider {
+    if (!provider) {
+        provider = new RazorpayProvider();
+    }
+    return provider;
+}
+
+/**
+ * Override the payment provider (tests)
+ */
+export function setPaymentProvider(override: PaymentProvider | null): void {
+    provider = override;
+}
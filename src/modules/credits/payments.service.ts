@@ -0,0 +1,214 @@
+/**
+ * Payments Service
+ * Checkout orders, payment verification and webhook fulfilment
+ */
+
+import { eq, and, inArray } from 'drizzle-orm';
+import { db } from '../../db';
+import { payments, Payment } from '../../db/schema';
+import { logger } from '../../utils/logger';
+import { CreditsService, PRICING_PLANS } from './credits.service';
+import { getPaymentProvider } from './payment.provider';
+import { PromoService } from './promo.service';
+
+type PlanId = keyof typeof PRICING_PLANS;
+
+export class PaymentsService {
+    private creditsService = new CreditsService();
+    private promoService = new PromoService();
+
+    /**
+     * Create a provider order for a plan, optionally discounted by a promo code
+     * The code is held for the order as the payment is recorded; the checkout is refused if it can't be.
+     */
+    async createOrder(userId: string, planId: PlanId, promoCode?: string) {
+        const plan = PRICING_PLANS[planId];
+        if (!plan || plan.price === null || plan.credits === null) {
+            throw new Error('PLAN_NOT_PURCHASABLE');
+        }
+
+        const provider = getPaymentProvider();
+        const originalAmount = plan.price * 100; // INR -> paise
+
+        const quote = promoCode
+            ? await this.promoService.quote(promoCode, userId, planId, originalAmount)
+            : null;
+        const amount = originalAmount - (quote?.discountAmount ?? 0);
+
+        const order = await provider.createOrder({
+            amount,
+            currency: 'INR',
+            receipt: `${planId}_${Date.now()}`,
+            notes: { userId, planId },
+        });
+
+        const payment = await db.transaction(async (tx) => {
+            const [created] = await tx.insert(payments).values({
+                userId,
+                planId,
+                provider: provider.name,
+                providerOrderId: order.orderId,
+                amount: order.amount,
+                currency: order.currency,
+                credits: plan.credits,
+                promoCodeId: quote?.promo.id ?? null,
+                discountAmount: quote?.discountAmount ?? 0,
+            }).returning();
+
+            // Other checkouts may have used the code up since it was quoted
+            if (quote) {
+                await this.promoService.holdForCheckout(quote.promo, userId, planId, created.id, quote.discountAmount, tx);
+            }
+            return created;
+        });
+
+        logger.info({ userId, planId, orderId: order.orderId, promoCode: quote?.promo.code }, 'Payment order created');
+
+        return {
+            paymentId: payment.id,
+            orderId: order.orderId,
+            amount: order.amount,
+            currency: order.currency,
+            originalAmount,
+            discountAmount: quote?.discountAmount ?? 0,
+            bonusCredits: quote?.bonusCredits ?? 0,
+            keyId: provider.publicKey,
+            plan,
+        };
+    }
+
+    /**
+     * Verify a completed checkout from the client and fulfil it
+     */
+    async verifyPayment(userId: string, orderId: string, providerPaymentId: string, signature: string) {
+        const payment = await db.query.payments.findFirst({
+            where: and(eq(payments.providerOrderId, orderId), eq(payments.userId, userId)),
+        });
+
+        if (!payment) {
+            throw new Error('PAYMENT_NOT_FOUND');
+        }
+
+        if (!getPaymentProvider().verifyPaymentSignature(orderId, providerPaymentId, signature)) {
+            logger.warn({ userId, orderId }, 'Invalid payment signature');
+            throw new Error('INVALID_SIGNATURE');
+        }
+
+        await this.markPaid(payment, providerPaymentId);
+        return this.creditsService.getBalanceAndPlan(userId);
+    }
+
+    /**
+     * Handle a provider webhook delivery
+     * Returns false if the signature is invalid.
+     */
+    async handleWebhook(rawBody: Buffer, signature: string): Promise<boolean> {
+        if (!getPaymentProvider().verifyWebhookSignature(rawBody, signature)) {
+            logger.warn('Invalid payment webhook signature');
+            return false;
+        }
+
+        const event = JSON.parse(rawBody.toString('utf8'));
+        const entity = event.payload?.payment?.entity;
+        const orderId: string | undefined = entity?.order_id;
+
+        if (!orderId) {
+            logger.debug({ event: event.event }, 'Payment webhook ignored - no order');
+            return true;
+        }
+
+        const payment = await db.query.payments.findFirst({
+            where: eq(payments.providerOrderId, orderId),
+        });
+
+        if (!payment) {
+            logger.warn({ orderId, event: event.event }, 'Payment webhook for unknown order');
+            return true;
+        }
+
+        switch (event.event) {
+            case 'payment.captured':
+            case 'order.paid':
+                if (entity.amount !== payment.amount || entity.currency !== payment.currency) {
+                    logger.error({
+                        paymentId: payment.id,
+                        orderId,
+                        expected: { amount: payment.amount, currency: payment.currency },
+                        received: { amount: entity.amount, currency: entity.currency },
+                    }, 'Payment webhook amount mismatch - not fulfilled');
+                    break;
+                }
+                await this.markPaid(payment, entity.id);
+                break;
+            case 'payment.failed':
+                await this.markFailed(payment, entity.error_description || 'Payment failed');
+                break;
+            default:
+                logger.debug({ event: event.event, orderId }, 'Payment webhook event ignored');
+        }
+
+        return true;
+    }
+
+    /**
+     * Flip the payment to paid and grant credits - exactly once
+     * Client verification and webhook can race; the conditional status update picks a single winner,
+     * and the grant shares its transaction so a failed grant leaves the payment unpaid for a retry.
+     */
+    private async markPaid(payment: Payment, providerPaymentId: string): Promise<void> {
+        const claimed = await db.transaction(async (tx) => {
+            // A failed attempt can still be followed by a successful one on the same order
+            const [row] = await tx.update(payments)
+                .set({ status: 'paid', providerPaymentId, paidAt: new Date(), updatedAt: new Date() })
+                .where(and(eq(payments.id, payment.id), inArray(payments.status, ['created', 'failed'])))
+                .returning();
+
+            if (!row) return null;
+
+            const granted = await this.creditsService.addCredits(
+                payment.userId,
+                payment.credits,
+                'purchase',
+                payment.planId,
+                `Purchased ${PRICING_PLANS[payment.planId].name} plan (${payment.credits} credits)`,
+                tx
+            );
+
+            if (!granted) {
+                throw new Error('FULFILMENT_FAILED');
+            }
+
+            return row;
+        });
+
+        if (!claimed) {
+            logger.info({ paymentId: payment.id }, 'Payment already fulfilled');
+            return;
+        }
+
+        try {
+            await this.promoService.recordCheckoutRedemption(claimed);
+        } catch (error: any) {
+            // The purchase itself succeeded - don't fail fulfilment over promo bookkeeping
+            logger.error({ paymentId: payment.id, error: error.message }, 'Failed to record checkout promo');
+        }
+
+        logger.info({ userId: payment.userId, paymentId: payment.id, planId: payment.planId }, 'Payment fulfilled');
+    }
+
+    /**
+     * Record a failed payment attempt (a later successful attempt on the same order still wins)
+     */
+    private async markFailed(payment: Payment, reason: string): Promise<void> {
+        await db.update(payments)
+            .set({ status: 'failed', failureReason: reason, updatedAt: new Date() })
+            .where(and(eq(payments.id, payment.id), eq(payments.status, 'created')));
+
+        // Frees the promo code for other checkouts; a later successful attempt takes it again if it can
+        if (payment.promoCodeId) {
+            await this.promoService.releaseCheckoutHold(payment.id, reason);
+        }
+
+        logger.info({ paymentId: payment.id, reason }, 'Payment failed');
+    }
+}
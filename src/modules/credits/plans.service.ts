@@ -0,0 +1,230 @@
+/**
+ * Plans Service
+ * Plan validity: renewal on purchase, expiry/downgrade and expiry reminders
+ */
+
+import { eq, and, ne, lt, lte, gt, gte, isNull, isNotNull, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import { users, creditTransactions } from '../../db/schema';
+import { cacheService } from '../../services/cache.service';
+import { sendPlanExpiringEmail, sendPlanExpiredEmail } from '../../utils/email';
+import { logger } from '../../utils/logger';
+import { PRICING_PLANS } from './credits.service';
+
+const PREMIUM_PLANS = ['premium', 'business'];
+
+// Candidate images per generation without a paid plan
+export const FREE_PLAN_VARIANTS = 1;
+
+// Reminder goes out this long before expiry
+const REMINDER_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Users processed per scheduled run
+const BATCH_SIZE = 100;
+
+type PlanId = keyof typeof PRICING_PLANS;
+
+/**
+ * Whether a plan is still within its validity period
+ * A null expiry never lapses (free, business and contract plans).
+ */
+export function isPlanActive(planExpiresAt: Date | null | undefined, now: Date = new Date()): boolean {
+    return !planExpiresAt || planExpiresAt > now;
+}
+
+/**
+ * Whether the user currently has premium features (plan name AND validity)
+ */
+export function hasActivePremium(user: { plan: string; planExpiresAt: Date | null }): boolean {
+    return PREMIUM_PLANS.includes(user.plan) && isPlanActive(user.planExpiresAt);
+}
+
+/**
+ * Candidate images per generation the user's plan allows - a lapsed plan counts as free
+ */
+export function getVariantLimit(user: { plan: string; planExpiresAt: Date | null }): number {
+    if (user.plan === 'free' || !isPlanActive(user.planExpiresAt)) {
+        return FREE_PLAN_VARIANTS;
+    }
+    return PRICING_PLANS[user.plan as PlanId]?.maxVariants ?? FREE_PLAN_VARIANTS;
+}
+
+/**
+ * Start of the paid period a plan bought now belongs to
+ * Renewing or changing plan while one is active continues its period; otherwise a new one starts.
+ */
+export function getPlanPeriodStart(
+    current: { plan: string; planExpiresAt: Date | null; planPeriodStartedAt: Date | null } | undefined,
+    now: Date = new Date()
+): Date {
+    const continuing = current && current.plan !== 'free' && isPlanActive(current.planExpiresAt, now);
+    return continuing && current.planPeriodStartedAt ? current.planPeriodStartedAt : now;
+}
+
+/**
+ * Expiry for a plan bought now
+ * Buying the same plan again while it is active extends the current period.
+ */
+export function computePlanExpiry(
+    planId: string,
+    current: { plan: string; planExpiresAt: Date | null } | undefined,
+    now: Date = new Date()
+): Date | null {
+    const validityDays = PRICING_PLANS[planId as PlanId]?.validityDays;
+    if (!validityDays) return null;
+
+    const renewing = current?.plan === planId && current.planExpiresAt && current.planExpiresAt > now;
+    const start = renewing ? current!.planExpiresAt! : now;
+    return new Date(start.getTime() + validityDays * 24 * 60 * 60 * 1000);
+}
+
+export class PlansService {
+    /**
+     * Downgrade every user whose plan has lapsed to free (scheduled)
+     * Unused credits the plan granted, above its rollover allowance, are forfeited.
+     * Credits from anywhere else (promos, referrals, refunds, admin grants) are kept.
+     */
+    async expirePlans(): Promise<number> {
+        const now = new Date();
+        const expired = await db.query.users.findMany({
+            where: and(ne(users.plan, 'free'), isNotNull(users.planExpiresAt), lt(users.planExpiresAt, now)),
+            columns: { id: true },
+            limit: BATCH_SIZE,
+        });
+
+        let downgraded = 0;
+        for (const { id } of expired) {
+            try {
+                if (await this.expirePlan(id)) downgraded++;
+            } catch (error: any) {
+                logger.error({ userId: id, error: error.message }, 'Failed to expire plan');
+            }
+        }
+
+        if (downgraded > 0) {
+            logger.info({ downgraded }, 'Expired plans downgraded');
+        }
+        return downgraded;
+    }
+
+    /**
+     * Email users whose plan expires soon (scheduled, once per validity period)
+     */
+    async sendExpiryReminders(): Promise<number> {
+        const now = new Date();
+        const expiring = await db.query.users.findMany({
+            where: and(
+                ne(users.plan, 'free'),
+                gt(users.planExpiresAt, now),
+                lte(users.planExpiresAt, new Date(now.getTime() + REMINDER_WINDOW_MS)),
+                isNull(users.planExpiryNotifiedAt),
+                isNotNull(users.email)
+            ),
+            columns: { id: true, email: true, plan: true, planExpiresAt: true },
+            limit: BATCH_SIZE,
+        });
+
+        let sent = 0;
+        for (const user of expiring) {
+            // Mark first so a slow email provider never causes duplicates
+            const [claimed] = await db.update(users)
+                .set({ planExpiryNotifiedAt: now })
+                .where(and(eq(users.id, user.id), isNull(users.planExpiryNotifiedAt)))
+                .returning({ id: users.id });
+            if (!claimed) continue;
+
+            try {
+                await sendPlanExpiringEmail(user.email!, PRICING_PLANS[user.plan as PlanId].name, user.planExpiresAt!);
+                sent++;
+            } catch (error: any) {
+                logger.warn({ userId: user.id, error: error.message }, 'Plan expiry reminder failed');
+            }
+        }
+
+        return sent;
+    }
+
+    /**
+     * Downgrade a single user if their plan is still expired
+     * Returns false if the plan was renewed in the meantime.
+     */
+    private async expirePlan(userId: string): Promise<boolean> {
+        const result = await db.transaction(async (tx) => {
+            const [user] = await tx.select({
+                plan: users.plan,
+                credits: users.credits,
+                email: users.email,
+                planExpiresAt: users.planExpiresAt,
+                planPeriodStartedAt: users.planPeriodStartedAt,
+            })
+                .from(users)
+                .where(eq(users.id, userId))
+                .for('update');
+
+            if (!user || user.plan === 'free' || isPlanActive(user.planExpiresAt)) {
+                return null;
+            }
+
+            const maxRollover = PRICING_PLANS[user.plan as PlanId]?.maxRolloverCredits ?? 0;
+            const unusedPlanCredits = await this.getUnusedPlanCredits(userId, user.credits, user.planPeriodStartedAt, tx);
+            const forfeited = Math.max(0, unusedPlanCredits - maxRollover);
+
+            await tx.update(users)
+                .set({
+                    plan: 'free',
+                    credits: sql`${users.credits} - ${forfeited}`,
+                    planPeriodStartedAt: null,
+                    planExpiryNotifiedAt: null,
+                })
+                .where(eq(users.id, userId));
+
+            if (forfeited > 0) {
+                await tx.insert(creditTransactions).values({
+                    userId,
+                    amount: -forfeited,
+                    type: 'expiry',
+                    plan: user.plan,
+                    description: `${PRICING_PLANS[user.plan as PlanId].name} plan expired - ${forfeited} unused credits forfeited`,
+                });
+            }
+
+            return { ...user, forfeited };
+        });
+
+        if (!result) return false;
+
+        await cacheService.invalidateUser(userId);
+        logger.info({ userId, plan: result.plan, forfeited: result.forfeited }, 'Plan expired');
+
+        if (result.email) {
+            try {
+                await sendPlanExpiredEmail(result.email, PRICING_PLANS[result.plan as PlanId].name, result.forfeited);
+            } catch (error: any) {
+                logger.warn({ userId, error: error.message }, 'Plan expired email failed');
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Credits bought during the plan period that are still unspent, from the ledger
+     * Spending is taken from plan credits first, as they are the ones that expire.
+     */
+    private async getUnusedPlanCredits(
+        userId: string,
+        balance: number,
+        periodStartedAt: Date | null,
+        tx: Parameters<Parameters<typeof db.transaction>[0]>[0]
+    ): Promise<number> {
+        const [{ granted, spent }] = await tx.select({
+            granted: sql<number>`coalesce(sum(${creditTransactions.amount}) filter (where ${creditTransactions.type} = 'purchase'), 0)::int`,
+            // Holds, their releases and direct charges; captures move nothing
+            spent: sql<number>`coalesce(-sum(${creditTransactions.amount}) filter (where ${creditTransactions.type} in ('hold', 'release', 'generation')), 0)::int`,
+        })
+            .from(creditTransactions)
+            .where(and(eq(creditTransactions.userId, userId), gte(creditTransactions.createdAt, periodStartedAt ?? new Date(0))));
+
+        return Math.min(balance, Math.max(0, granted - spent));
+    }
+}
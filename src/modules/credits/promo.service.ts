@@ -0,0 +1,327 @@
+/**
+ * Promo Service
+ * Promo code validation, bonus credit redemption and checkout discounts
+ */
+
+import { eq, and, ne, lt, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import { users, creditTransactions, promoCodes, promoRedemptions, PromoCode, Payment } from '../../db/schema';
+import { logger } from '../../utils/logger';
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Payment provider minimum charge (paise)
+const MIN_CHARGE_AMOUNT = 100;
+
+// An unpaid checkout holds its promo code for this long
+export const CHECKOUT_HOLD_TTL_MS = 60 * 60 * 1000;
+
+export const PROMO_ERROR_MESSAGES: Record<string, string> = {
+    PROMO_NOT_FOUND: 'This promo code does not exist',
+    PROMO_EXPIRED: 'This promo code has expired',
+    PROMO_NOT_APPLICABLE: 'This promo code is not valid for the selected plan',
+    PROMO_EXHAUSTED: 'This promo code has been fully redeemed',
+    PROMO_ALREADY_USED: 'You have already used this promo code',
+    PROMO_CHECKOUT_ONLY: 'This promo code can only be applied at checkout',
+};
+
+export interface PromoQuote {
+    promo: PromoCode;
+    discountAmount: number; // Paise
+    bonusCredits: number;
+}
+
+export class PromoService {
+    /**
+     * Price a checkout with a promo code applied
+     * Throws a PROMO_* error code if the code cannot be used. Nothing is held until holdForCheckout.
+     */
+    async quote(code: string, userId: string, planId: string, amount: number): Promise<PromoQuote> {
+        const promo = await this.findByCode(code);
+        await this.assertEligible(promo, userId, planId);
+
+        let discountAmount = 0;
+        if (promo.type === 'percent_off') {
+            discountAmount = Math.round(amount * Math.min(promo.value, 100) / 100);
+        } else if (promo.type === 'flat_off') {
+            discountAmount = promo.value * 100; // INR -> paise
+        }
+        discountAmount = Math.min(discountAmount, amount - MIN_CHARGE_AMOUNT);
+
+        return {
+            promo,
+            discountAmount: Math.max(0, discountAmount),
+            bonusCredits: promo.type === 'bonus_credits' ? promo.value : 0,
+        };
+    }
+
+    /**
+     * Redeem a bonus-credit code outside checkout
+     */
+    async redeem(userId: string, code: string): Promise<{ creditsGranted: number; credits: number }> {
+        const result = await db.transaction(async (tx) => {
+            // Row lock serialises concurrent redemptions of the same code
+            const [promo] = await tx.select()
+                .from(promoCodes)
+                .where(eq(promoCodes.code, this.normalizeCode(code)))
+                .for('update');
+
+            if (!promo) {
+                throw new Error('PROMO_NOT_FOUND');
+            }
+            if (promo.type !== 'bonus_credits') {
+                throw new Error('PROMO_CHECKOUT_ONLY');
+            }
+
+            const user = await tx.query.users.findFirst({
+                where: eq(users.id, userId),
+                columns: { plan: true },
+            });
+            await this.assertEligible(promo, userId, user?.plan ?? 'free', tx);
+
+            await tx.insert(promoRedemptions).values({
+                promoCodeId: promo.id,
+                userId,
+                creditsGranted: promo.value,
+            });
+
+            await tx.update(promoCodes)
+                .set({ redemptionCount: sql`${promoCodes.redemptionCount} + 1` })
+                .where(eq(promoCodes.id, promo.id));
+
+            const [updated] = await tx.update(users)
+                .set({ credits: sql`${users.credits} + ${promo.value}` })
+                .where(eq(users.id, userId))
+                .returning({ credits: users.credits });
+
+            await tx.insert(creditTransactions).values({
+                userId,
+                amount: promo.value,
+                type: 'promo',
+                description: `Promo code ${promo.code}: ${promo.value} bonus credits`,
+            });
+
+            return { creditsGranted: promo.value, credits: updated.credits };
+        });
+
+        logger.info({ userId, code, creditsGranted: result.creditsGranted }, 'Promo code redeemed');
+        return result;
+    }
+
+    /**
+     * Hold a use of the code for a checkout until it is paid
+     * Counts against the code's limits straight away, so concurrent checkouts cannot all get the
+     * discount. Throws a PROMO_* error code if the limits are already used up. Call within the
+     * transaction that creates the payment.
+     */
+    async holdForCheckout(code: PromoCode, userId: string, planId: string, paymentId: string, discountAmount: number, tx: DbExecutor): Promise<void> {
+        // Row lock serialises concurrent holds and redemptions of the same code
+        const [promo] = await tx.select()
+            .from(promoCodes)
+            .where(eq(promoCodes.id, code.id))
+            .for('update');
+        if (!promo) {
+            throw new Error('PROMO_NOT_FOUND');
+        }
+        await this.assertEligible(promo, userId, planId, tx);
+
+        await tx.insert(promoRedemptions).values({
+            promoCodeId: promo.id,
+            userId,
+            paymentId,
+            discountAmount,
+            status: 'pending',
+            expiresAt: new Date(Date.now() + CHECKOUT_HOLD_TTL_MS),
+        });
+
+        await tx.update(promoCodes)
+            .set({ redemptionCount: sql`${promoCodes.redemptionCount} + 1` })
+            .where(eq(promoCodes.id, promo.id));
+    }
+
+    /**
+     * Give back a checkout's hold on its code - the payment failed or was never made
+     * Returns false if the checkout holds nothing (already paid or released).
+     */
+    async releaseCheckoutHold(paymentId: string, reason: string): Promise<boolean> {
+        const released = await db.transaction(async (tx) => {
+            const [pending] = await tx.select({ promoCodeId: promoRedemptions.promoCodeId })
+                .from(promoRedemptions)
+                .where(and(eq(promoRedemptions.paymentId, paymentId), eq(promoRedemptions.status, 'pending')));
+            if (!pending) return false;
+
+            // Same lock order as fulfilment: the code first, then its redemption
+            await tx.select({ id: promoCodes.id }).from(promoCodes).where(eq(promoCodes.id, pending.promoCodeId)).for('update');
+
+            const [redemption] = await tx.update(promoRedemptions)
+                .set({ status: 'released' })
+                .where(and(eq(promoRedemptions.paymentId, paymentId), eq(promoRedemptions.status, 'pending')))
+                .returning({ id: promoRedemptions.id });
+            if (!redemption) return false;
+
+            await tx.update(promoCodes)
+                .set({ redemptionCount: sql`greatest(${promoCodes.redemptionCount} - 1, 0)` })
+                .where(eq(promoCodes.id, pending.promoCodeId));
+            return true;
+        });
+
+        if (released) {
+            logger.info({ paymentId, reason }, 'Checkout promo hold released');
+        }
+        return released;
+    }
+
+    /**
+     * Release every checkout hold that outlived its TTL (scheduled)
+     */
+    async releaseExpiredCheckoutHolds(): Promise<number> {
+        const expired = await db.select({ paymentId: promoRedemptions.paymentId })
+            .from(promoRedemptions)
+            .where(and(eq(promoRedemptions.status, 'pending'), lt(promoRedemptions.expiresAt, new Date())))
+            .limit(100);
+
+        let released = 0;
+        for (const { paymentId } of expired) {
+            if (paymentId && await this.releaseCheckoutHold(paymentId, 'Checkout expired')) {
+                released++;
+            }
+        }
+
+        if (released > 0) {
+            logger.info({ released }, 'Expired checkout promo holds released');
+        }
+        return released;
+    }
+
+    /**
+     * Redeem the code held by a paid checkout and grant any bonus credits
+     * A checkout whose hold was released (a failed attempt, or paid after it expired) takes the
+     * code again only if its limits still allow; otherwise nothing is recorded or granted and the
+     * payment is logged for follow-up. Safe to call more than once per payment.
+     */
+    async recordCheckoutRedemption(payment: Payment): Promise<void> {
+        if (!payment.promoCodeId) return;
+
+        const recorded = await db.transaction(async (tx) => {
+            // Row lock serialises concurrent fulfilments of the same code
+            const [promo] = await tx.select()
+                .from(promoCodes)
+                .where(eq(promoCodes.id, payment.promoCodeId!))
+                .for('update');
+            if (!promo) return false;
+
+            const [held] = await tx.select({ id: promoRedemptions.id, status: promoRedemptions.status })
+                .from(promoRedemptions)
+                .where(eq(promoRedemptions.paymentId, payment.id));
+            if (held?.status === 'redeemed') return false;
+
+            if (held?.status !== 'pending') {
+                const limitReached = await this.redemptionLimitReached(promo, payment.userId, tx);
+                if (limitReached) {
+                    logger.error({ paymentId: payment.id, promoCodeId: promo.id, reason: limitReached }, 'Checkout paid after its promo hold was released and the code is used up - not redeemed');
+                    return false;
+                }
+
+                await tx.update(promoCodes)
+                    .set({ redemptionCount: sql`${promoCodes.redemptionCount} + 1` })
+                    .where(eq(promoCodes.id, promo.id));
+            }
+
+            const bonusCredits = promo.type === 'bonus_credits' ? promo.value : 0;
+            const redemption = {
+                creditsGranted: bonusCredits,
+                discountAmount: payment.discountAmount,
+                status: 'redeemed' as const,
+                expiresAt: null,
+            };
+
+            if (held) {
+                await tx.update(promoRedemptions)
+                    .set(redemption)
+                    .where(eq(promoRedemptions.id, held.id));
+            } else {
+                await tx.insert(promoRedemptions).values({
+                    promoCodeId: promo.id,
+                    userId: payment.userId,
+                    paymentId: payment.id,
+                    ...redemption,
+                });
+            }
+
+            if (bonusCredits > 0) {
+                await tx.update(users)
+                    .set({ credits: sql`${users.credits} + ${bonusCredits}` })
+                    .where(eq(users.id, payment.userId));
+            }
+
+            await tx.insert(creditTransactions).values({
+                userId: payment.userId,
+                amount: bonusCredits,
+                type: 'promo',
+                plan: payment.planId,
+                description: bonusCredits > 0
+                    ? `Promo code ${promo.code}: ${bonusCredits} bonus credits`
+                    : `Promo code ${promo.code}: ₹${payment.discountAmount / 100} off`,
+            });
+            return true;
+        });
+
+        if (recorded) {
+            logger.info({ userId: payment.userId, paymentId: payment.id, promoCodeId: payment.promoCodeId }, 'Checkout promo recorded');
+        }
+    }
+
+    private normalizeCode(code: string): string {
+        return code.trim().toUpperCase();
+    }
+
+    private async findByCode(code: string): Promise<PromoCode> {
+        const promo = await db.query.promoCodes.findFirst({
+            where: eq(promoCodes.code, this.normalizeCode(code)),
+        });
+        if (!promo) {
+            throw new Error('PROMO_NOT_FOUND');
+        }
+        return promo;
+    }
+
+    /**
+     * Check activity window, plan restriction and redemption limits
+     */
+    private async assertEligible(promo: PromoCode, userId: string, planId: string, executor: DbExecutor = db): Promise<void> {
+        const now = new Date();
+
+        if (!promo.isActive || (promo.startsAt && promo.startsAt > now) || (promo.expiresAt && promo.expiresAt <= now)) {
+            throw new Error('PROMO_EXPIRED');
+        }
+
+        if (promo.planIds && promo.planIds.length > 0 && !promo.planIds.includes(planId)) {
+            throw new Error('PROMO_NOT_APPLICABLE');
+        }
+
+        const limitReached = await this.redemptionLimitReached(promo, userId, executor);
+        if (limitReached) {
+            throw new Error(limitReached);
+        }
+    }
+
+    /**
+     * Error code of the redemption limit (total or per user) the code has used up, or null
+     */
+    private async redemptionLimitReached(promo: PromoCode, userId: string, executor: DbExecutor = db): Promise<'PROMO_EXHAUSTED' | 'PROMO_ALREADY_USED' | null> {
+        if (promo.maxRedemptions !== null && promo.redemptionCount >= promo.maxRedemptions) {
+            return 'PROMO_EXHAUSTED';
+        }
+
+        // Held checkouts count until they are paid or released
+        const [{ count }] = await executor.select({ count: sql<number>`count(*)::int` })
+            .from(promoRedemptions)
+            .where(and(
+                eq(promoRedemptions.promoCodeId, promo.id),
+                eq(promoRedemptions.userId, userId),
+                ne(promoRedemptions.status, 'released')
+            ));
+
+        return count >= promo.perUserLimit ? 'PROMO_ALREADY_USED' : null;
+    }
+}
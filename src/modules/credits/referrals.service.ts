@@ -0,0 +1,229 @@
+/**
+ * Referrals Service
+ * Referral codes, sign-up attribution, fraud limits and first-generation rewards
+ */
+
+import crypto from 'crypto';
+import { eq, and, ne, desc, isNull, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import { users, referrals } from '../../db/schema';
+import { logger } from '../../utils/logger';
+import { CreditsService } from './credits.service';
+
+// Credits granted once the referee completes their first generation
+const REFERRER_REWARD = 3;
+const REFEREE_REWARD = 2;
+
+// Referees sharing a (non-webmail) email domain that one referrer can be rewarded for
+const MAX_REFERRALS_PER_DOMAIN = 3;
+
+// Lifetime cap of accepted (pending or rewarded) referrals per referrer
+const MAX_REWARDED_REFERRALS = 50;
+
+// Sign-ups without a device id (web, or a client that withheld it) escape the device check, so far fewer are accepted
+const MAX_REFERRALS_WITHOUT_DEVICE = 3;
+
+// Webmail domains are shared by unrelated people, so the domain limit does not apply
+const PUBLIC_EMAIL_DOMAINS = ['gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'yahoo.com', 'yahoo.co.in', 'icloud.com', 'proton.me', 'protonmail.com'];
+
+// No 0/O/1/I to keep codes easy to type
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+interface SignupAttribution {
+    refereeId: string;
+    refereeEmail: string;
+    code: string;
+    deviceId?: string;
+}
+
+export class ReferralsService {
+    private creditsService = new CreditsService();
+
+    /**
+     * Get the user's referral code, generating one on first use
+     */
+    async getOrCreateCode(userId: string): Promise<string> {
+        const user = await db.query.users.findFirst({
+            where: eq(users.id, userId),
+            columns: { referralCode: true },
+        });
+
+        if (!user) {
+            throw new Error('USER_NOT_FOUND');
+        }
+        if (user.referralCode) {
+            return user.referralCode;
+        }
+
+        for (let attempt = 0; attempt < 5; attempt++) {
+            const code = this.generateCode();
+            try {
+                const [updated] = await db.update(users)
+                    .set({ referralCode: code })
+                    .where(and(eq(users.id, userId), isNull(users.referralCode)))
+                    .returning({ referralCode: users.referralCode });
+
+                if (updated) return updated.referralCode!;
+
+                // Another request set it first
+                return this.getOrCreateCode(userId);
+            } catch (error: any) {
+                // Unique violation - code taken, try another
+                if (error.code !== '23505') throw error;
+            }
+        }
+
+        throw new Error('REFERRAL_CODE_GENERATION_FAILED');
+    }
+
+    /**
+     * Attribute a new sign-up to a referral code
+     * Invalid codes are ignored; suspicious sign-ups are recorded as rejected so they never pay out.
+     */
+    async attributeSignup({ refereeId, refereeEmail, code, deviceId }: SignupAttribution): Promise<void> {
+        const referrer = await db.query.users.findFirst({
+            where: eq(users.referralCode, code.trim().toUpperCase()),
+            columns: { id: true },
+        });
+
+        if (!referrer || referrer.id === refereeId) {
+            logger.info({ refereeId, code }, 'Referral code ignored - no matching referrer');
+            return;
+        }
+
+        const emailDomain = refereeEmail.split('@')[1]?.toLowerCase() || null;
+        const rejectReason = await this.checkFraud(referrer.id, refereeId, emailDomain, deviceId);
+
+        await db.insert(referrals).values({
+            referrerId: referrer.id,
+            refereeId,
+            code: code.trim().toUpperCase(),
+            status: rejectReason ? 'rejected' : 'pending',
+            rejectReason,
+            refereeDeviceId: deviceId || null,
+            refereeEmailDomain: emailDomain,
+        }).onConflictDoNothing({ target: referrals.refereeId });
+
+        logger.info({ referrerId: referrer.id, refereeId, rejectReason }, 'Referral attributed');
+    }
+
+    /**
+     * Pay out a pending referral once the referee has generated their first look
+     * Safe to call after every generation - the status flip guarantees a single payout,
+     * and shares a transaction with the grants so a failed grant leaves the referral pending.
+     */
+    async rewardOnFirstGeneration(refereeId: string): Promise<void> {
+        const referral = await db.transaction(async (tx) => {
+            const [flipped] = await tx.update(referrals)
+                .set({
+                    status: 'rewarded',
+                    referrerReward: REFERRER_REWARD,
+                    refereeReward: REFEREE_REWARD,
+                    rewardedAt: new Date(),
+                })
+                .where(and(eq(referrals.refereeId, refereeId), eq(referrals.status, 'pending')))
+                .returning();
+
+            if (!flipped) return null;
+
+            const granted = await this.creditsService.addCredits(flipped.referrerId, REFERRER_REWARD, 'referral_bonus', undefined, 'Referral reward - a friend joined with your code', tx)
+                && await this.creditsService.addCredits(refereeId, REFEREE_REWARD, 'referral_bonus', undefined, 'Referral reward - welcome bonus for joining with a code', tx);
+            if (!granted) {
+                throw new Error('REFERRAL_REWARD_FAILED');
+            }
+
+            return flipped;
+        });
+
+        if (!referral) return;
+
+        logger.info({ referrerId: referral.referrerId, refereeId }, 'Referral rewarded');
+    }
+
+    /**
+     * Referral stats for the referrer
+     */
+    async getStats(userId: string) {
+        const code = await this.getOrCreateCode(userId);
+
+        const rows = await db.select({
+            id: referrals.id,
+            status: referrals.status,
+            referrerReward: referrals.referrerReward,
+            createdAt: referrals.createdAt,
+            rewardedAt: referrals.rewardedAt,
+            refereeUsername: users.username,
+        })
+            .from(referrals)
+            .innerJoin(users, eq(users.id, referrals.refereeId))
+            .where(eq(referrals.referrerId, userId))
+            .orderBy(desc(referrals.createdAt));
+
+        return {
+            code,
+            rewards: { referrer: REFERRER_REWARD, referee: REFEREE_REWARD },
+            totalReferred: rows.length,
+            pending: rows.filter(r => r.status === 'pending').length,
+            rewarded: rows.filter(r => r.status === 'rewarded').length,
+            creditsEarned: rows.reduce((sum, r) => sum + r.referrerReward, 0),
+            referrals: rows.slice(0, 50).map(r => ({
+                id: r.id,
+                username: r.refereeUsername,
+                // Rejected referrals are shown as pending so fraud rules aren't revealed
+                status: r.status === 'rejected' ? 'pending' : r.status,
+                createdAt: r.createdAt,
+                rewardedAt: r.rewardedAt,
+            })),
+        };
+    }
+
+    /**
+     * Returns a reject reason, or null if the sign-up looks legitimate
+     */
+    private async checkFraud(referrerId: string, refereeId: string, emailDomain: string | null, deviceId?: string): Promise<string | null> {
+        if (deviceId) {
+            // Device already used by another account (including the referrer)
+            const sameDevice = await db.query.users.findFirst({
+                where: and(eq(users.signupDeviceId, deviceId), ne(users.id, refereeId)),
+                columns: { id: true },
+            });
+            if (sameDevice) return 'DEVICE_REUSED';
+        } else {
+            const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+                .from(referrals)
+                .where(and(
+                    eq(referrals.referrerId, referrerId),
+                    isNull(referrals.refereeDeviceId),
+                    ne(referrals.status, 'rejected')
+                ));
+            if (count >= MAX_REFERRALS_WITHOUT_DEVICE) return 'NO_DEVICE_LIMIT';
+        }
+
+        if (emailDomain && !PUBLIC_EMAIL_DOMAINS.includes(emailDomain)) {
+            const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+                .from(referrals)
+                .where(and(
+                    eq(referrals.referrerId, referrerId),
+                    eq(referrals.refereeEmailDomain, emailDomain),
+                    ne(referrals.status, 'rejected')
+                ));
+            if (count >= MAX_REFERRALS_PER_DOMAIN) return 'DOMAIN_LIMIT';
+        }
+
+        const [{ active }] = await db.select({ active: sql<number>`count(*)::int` })
+            .from(referrals)
+            .where(and(eq(referrals.referrerId, referrerId), ne(referrals.status, 'rejected')));
+        if (active >= MAX_REWARDED_REFERRALS) return 'REFERRER_LIMIT';
+
+        return null;
+    }
+
+    private generateCode(): string {
+        let code = '';
+        for (let i = 0; i < CODE_LENGTH; i++) {
+            code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+        }
+        return code;
+    }
+}
@@ -5,28 +5,21 @@
 
 import { eq } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
-import sharp from 'sharp';
 import { db } from '../../db';
 import { waitlist } from '../../db/schema';
 import { uploadFile, getAuthenticatedUrl } from '../../storage';
-import { parseProductLink } from '../../linkParser';
-import { generateVirtualTryOn } from '../../gemini';
+import { ProductsService } from '../products/products.service';
+import { getImageProvider } from '../../providers';
 import { downloadProductImages } from '../../utils/imageDownloader';
+import { DEFAULT_ASPECT_RATIO, cropToAspectRatio, isAspectRatio } from '../../utils/aspectRatio';
 import { logger } from '../../utils/logger';
 
 // Max generations per demo user
 const MAX_DEMO_GENERATIONS = 1;
 
-// Valid aspect ratios
-type AspectRatio = '9:16' | '2:3' | '3:4' | '4:5';
-const ASPECT_RATIO_VALUES: Record<AspectRatio, number> = {
-    '9:16': 9 / 16,
-    '2:3': 2 / 3,
-    '3:4': 3 / 4,
-    '4:5': 4 / 5,
-};
-
 export class DemoService {
+    private productsService = new ProductsService();
+
     /**
      * Upload demo photo with cropping
      */
@@ -37,11 +30,8 @@ export class DemoService {
         const entry = await this.verifyWaitlistEmail(normalizedEmail);
         if (!entry.success) return entry;
 
-        // Validate aspect ratio
-        const ratio = ASPECT_RATIO_VALUES[aspectRatio as AspectRatio] || ASPECT_RATIO_VALUES['3:4'];
-
         // Crop image to aspect ratio
-        const croppedBuffer = await this.cropToAspectRatio(file.buffer, ratio);
+        const croppedBuffer = await cropToAspectRatio(file.buffer, isAspectRatio(aspectRatio) ? aspectRatio : DEFAULT_ASPECT_RATIO);
 
         // Upload to R2
         const safeEmail = email.replace(/[^a-zA-Z0-9]/g, '_');
@@ -72,7 +62,7 @@ export class DemoService {
         if (!entry.success) return entry;
 
         // Parse the link
-        const result = await parseProductLink(url);
+        const result = await this.productsService.parse(url);
 
         logger.info({ email: normalizedEmail, productName: result.product?.name }, 'Demo link parsed');
 
@@ -130,12 +120,11 @@ export class DemoService {
         // Download product images
         const productBase64s = await downloadProductImages(productImageUrls);
 
-        // Generate try-on
-        const generatedBase64 = await generateVirtualTryOn(
+        // Generate try-on - the photo was cropped to the user's ratio on upload, so it is kept as it is
+        const [generatedBase64] = await getImageProvider().virtualTryOn(
             userImageUrl,
             productBase64s,
-            productName || 'Clothing Item',
-            '3:4'
+            productName || 'Clothing Item'
         );
 
         // Increment generation count
@@ -211,36 +200,4 @@ export class DemoService {
 
         return { success: true, entry };
     }
-
-    /**
-     * Crop image to aspect ratio
-     */
-    private async cropToAspectRatio(buffer: Buffer, ratio: number): Promise<Buffer> {
-        const image = sharp(buffer);
-        const metadata = await image.metadata();
-
-        if (!metadata.width || !metadata.height) {
-            throw new Error('Could not read image dimensions');
-        }
-
-        const currentRatio = metadata.width / metadata.height;
-        let cropWidth = metadata.width;
-        let cropHeight = metadata.height;
-
-        if (currentRatio > ratio) {
-            // Image is wider than target, crop width
-            cropWidth = Math.round(metadata.height * ratio);
-        } else {
-            // Image is taller than target, crop height
-            cropHeight = Math.round(metadata.width / ratio);
-        }
-
-        const left = Math.round((metadata.width - cropWidth) / 2);
-        const top = Math.round((metadata.height - cropHeight) / 2);
-
-        return image
-            .extract({ left, top, width: cropWidth, height: cropHeight })
-            .jpeg({ quality: 90 })
-            .toBuffer();
-    }
 }
@@ -0,0 +1,160 @@
+/**
+ * Generation Candidates Service
+ * Generations that ask for several variants keep every output as a candidate;
+ * nothing reaches the wardrobe or the studio until the user picks one.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, asc, lt, isNull } from 'drizzle-orm';
+import { db } from '../../db';
+import { generationCandidates, GenerationCandidate } from '../../db/schema';
+import { uploadFile, deleteFile, getAuthenticatedUrls, getStoredImageSize } from '../../storage';
+import { logger } from '../../utils/logger';
+import { DbExecutor } from '../credits/credits.service';
+
+// Candidates nobody picked are deleted after this long
+const UNSELECTED_TTL_DAYS = 30;
+
+const PURGE_BATCH_SIZE = 100;
+
+// A candidate group is either a try-on job or a studio generation
+export type CandidateGroup = { jobId: string } | { studioGenerationId: string };
+
+// A generated image in storage, not yet recorded anywhere
+export interface UploadedImage {
+    imageUrl: string;
+    size: { width: number; height: number } | null;
+}
+
+function groupFilter(group: CandidateGroup) {
+    return 'jobId' in group
+        ? eq(generationCandidates.jobId, group.jobId)
+        : eq(generationCandidates.studioGenerationId, group.studioGenerationId);
+}
+
+export class GenerationCandidatesService {
+    /**
+     * Upload generated images without recording them
+     */
+    async uploadImages(imagesBase64: string[], options: { folder: string; background?: boolean }): Promise<UploadedImage[]> {
+        return Promise.all(imagesBase64.map(async (base64) => {
+            const buffer = Buffer.from(base64, 'base64');
+            const [imageUrl, size] = await Promise.all([
+                uploadFile(buffer, `${options.folder}/${uuidv4()}.jpg`, 'image/jpeg', options.background),
+                getStoredImageSize(buffer),
+            ]);
+            return { imageUrl, size };
+        }));
+    }
+
+    /**
+     * Delete uploaded images that were never recorded (best effort)
+     */
+    async discardUploads(images: Pick<UploadedImage, 'imageUrl'>[]): Promise<void> {
+        await Promise.all(images.map(async ({ imageUrl }) => {
+            try {
+                await deleteFile(imageUrl);
+            } catch (error: any) {
+                logger.warn({ imageUrl, error: error.message }, 'Failed to delete unrecorded upload');
+            }
+        }));
+    }
+
+    /**
+     * Record uploaded images as the group's candidates
+     * Pass a transaction to record them as part of it.
+     */
+    async insertCandidates(
+        userId: string,
+        group: CandidateGroup,
+        images: UploadedImage[],
+        baseImageUrl?: string | null,
+        executor: DbExecutor = db
+    ): Promise<GenerationCandidate[]> {
+        const candidates = await executor.insert(generationCandidates).values(images.map(({ imageUrl, size }, position) => ({
+            userId,
+            ...group,
+            position,
+            imageUrl,
+            imageWidth: size?.width ?? null,
+            imageHeight: size?.height ?? null,
+            baseImageUrl: baseImageUrl || null,
+        }))).returning();
+
+        logger.info({ userId, ...group, candidates: candidates.length }, 'Generation candidates saved');
+        return candidates;
+    }
+
+    /**
+     * Candidates of a group in generation order
+     */
+    async getCandidates(group: CandidateGroup): Promise<GenerationCandidate[]> {
+        return db.select()
+            .from(generationCandidates)
+            .where(groupFilter(group))
+            .orderBy(asc(generationCandidates.position));
+    }
+
+    /**
+     * Candidates of a group as returned to clients (signed image URLs)
+     */
+    async getCandidatesForClient(group: CandidateGroup) {
+        const candidates = await this.getCandidates(group);
+        const signedUrls = await getAuthenticatedUrls(candidates.map(candidate => candidate.imageUrl));
+
+        return candidates.map((candidate, index) => ({
+            id: candidate.id,
+            position: candidate.position,
+            imageUrl: signedUrls[index],
+            width: candidate.imageWidth,
+            height: candidate.imageHeight,
+            selected: !!candidate.selectedAt,
+        }));
+    }
+
+    /**
+     * Delete the candidates of a group that were not picked (once one has been)
+     */
+    async discardUnselected(group: CandidateGroup): Promise<number> {
+        const unselected = await db.select()
+            .from(generationCandidates)
+            .where(and(groupFilter(group), isNull(generationCandidates.selectedAt)));
+        return this.deleteCandidates(unselected);
+    }
+
+    /**
+     * Delete candidates left unpicked past their retention (run by the scheduler)
+     */
+    async purgeStaleCandidates(): Promise<number> {
+        const cutoff = new Date(Date.now() - UNSELECTED_TTL_DAYS * 24 * 60 * 60 * 1000);
+        const stale = await db.select()
+            .from(generationCandidates)
+            .where(and(isNull(generationCandidates.selectedAt), lt(generationCandidates.createdAt, cutoff)))
+            .limit(PURGE_BATCH_SIZE);
+
+        const deleted = await this.deleteCandidates(stale);
+        if (deleted > 0) {
+            logger.info({ deleted }, 'Stale generation candidates deleted');
+        }
+        return deleted;
+    }
+
+    /**
+     * Delete each candidate's image, then its row - a candidate whose image could not be deleted is kept for a retry
+     */
+    private async deleteCandidates(candidates: GenerationCandidate[]): Promise<number> {
+        let deleted = 0;
+        for (const candidate of candidates) {
+            try {
+                await deleteFile(candidate.imageUrl);
+                await db.delete(generationCandidates).where(eq(generationCandidates.id, candidate.id));
+                deleted++;
+            } catch (error: any) {
+                logger.warn({ candidateId: candidate.id, error: error.message }, 'Failed to delete generation candidate');
+            }
+        }
+        return deleted;
+    }
+}
+
+export const generationCandidatesService = new GenerationCandidatesService();
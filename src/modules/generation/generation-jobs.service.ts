@@ -0,0 +1,221 @@
+/**
+ * Generation Jobs Service
+ * Durable queue operations for try-on generation jobs
+ */
+
+import { eq, and, or, lte, lt, gte, asc, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import { generationJobs, GenerationJob } from '../../db/schema';
+import { isRetryableVertexError } from '../../gemini';
+import { logger } from '../../utils/logger';
+import { CreditsService } from '../credits/credits.service';
+
+// Jobs stuck in 'processing' longer than this are assumed orphaned (worker crashed) and re-claimed
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+// Running jobs refresh their lock this often, well inside STALE_LOCK_MS
+export const JOB_HEARTBEAT_MS = 60 * 1000;
+
+// Exponential backoff for retryable failures: 5s, 10s, 20s, ... capped at 2 minutes
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 2 * 60 * 1000;
+
+// Error codes that describe a permanent failure - never retried
+const PERMANENT_ERROR_CODES = ['INSUFFICIENT_CREDITS', 'PREMIUM_REQUIRED', 'NO_PRODUCT_IMAGES', 'NO_BODY_PHOTO', 'RESERVATION_EXPIRED'];
+
+export interface JobResult {
+    resultUrl: string;
+    lookId?: string | null;
+    outfitId?: string | null;
+}
+
+export class GenerationJobsService {
+    private creditsService = new CreditsService();
+
+    /**
+     * Create a new pending job (optionally backed by a credit reservation)
+     */
+    async createJob(userId: string, payload: object, reservationId?: string): Promise<GenerationJob> {
+        const [job] = await db.insert(generationJobs).values({
+            userId,
+            payload: JSON.stringify(payload),
+            status: 'pending',
+            reservationId: reservationId || null,
+        }).returning();
+
+        logger.info({ userId, jobId: job.id }, 'Generation job queued');
+        return job;
+    }
+
+    /**
+     * Get a job owned by the given user
+     */
+    async getJobForUser(jobId: string, userId: string): Promise<GenerationJob | null> {
+        const job = await db.query.generationJobs.findFirst({
+            where: and(eq(generationJobs.id, jobId), eq(generationJobs.userId, userId)),
+        });
+        return job || null;
+    }
+
+    /**
+     * Atomically claim the next runnable job
+     * Uses SKIP LOCKED so multiple workers/instances never pick the same job.
+     * An orphaned job is only re-claimed while it has attempts left.
+     */
+    async claimNextJob(): Promise<GenerationJob | null> {
+        return db.transaction(async (tx) => {
+            const now = new Date();
+            const staleBefore = new Date(now.getTime() - STALE_LOCK_MS);
+
+            const [candidate] = await tx.select({ id: generationJobs.id })
+                .from(generationJobs)
+                .where(or(
+                    and(eq(generationJobs.status, 'pending'), lte(generationJobs.runAt, now)),
+                    and(
+                        eq(generationJobs.status, 'processing'),
+                        lt(generationJobs.lockedAt, staleBefore),
+                        lt(generationJobs.attempts, generationJobs.maxAttempts)
+                    )
+                ))
+                .orderBy(asc(generationJobs.runAt))
+                .limit(1)
+                .for('update', { skipLocked: true });
+
+            if (!candidate) return null;
+
+            const [job] = await tx.update(generationJobs)
+                .set({
+                    status: 'processing',
+                    lockedAt: now,
+                    attempts: sql`${generationJobs.attempts} + 1`,
+                    updatedAt: now,
+                })
+                .where(eq(generationJobs.id, candidate.id))
+                .returning();
+
+            return job;
+        });
+    }
+
+    /**
+     * Refresh the lock of a running job so it is not taken for orphaned
+     */
+    async heartbeat(jobId: string): Promise<void> {
+        await db.update(generationJobs)
+            .set({ lockedAt: new Date() })
+            .where(and(eq(generationJobs.id, jobId), eq(generationJobs.status, 'processing')));
+    }
+
+    /**
+     * Fail orphaned jobs that have used up their attempts, releasing their credit holds (run by the scheduler)
+     * These keep crashing or hanging their worker, so they are not claimed again.
+     */
+    async failAbandonedJobs(): Promise<number> {
+        const now = new Date();
+        const abandoned = await db.update(generationJobs)
+            .set({
+                status: 'failed',
+                lockedAt: null,
+                errorCode: 'GENERATION_FAILED',
+                errorMessage: 'Worker stopped responding',
+                updatedAt: now,
+                completedAt: now,
+            })
+            .where(and(
+                eq(generationJobs.status, 'processing'),
+                lt(generationJobs.lockedAt, new Date(now.getTime() - STALE_LOCK_MS)),
+                gte(generationJobs.attempts, generationJobs.maxAttempts)
+            ))
+            .returning({ id: generationJobs.id, reservationId: generationJobs.reservationId });
+
+        for (const job of abandoned) {
+            if (job.reservationId) {
+                await this.creditsService.releaseCredits(job.reservationId, 'Generation failed (worker stopped responding)');
+            }
+        }
+
+        if (abandoned.length > 0) {
+            logger.error({ jobIds: abandoned.map(job => job.id) }, 'Abandoned generation jobs failed');
+        }
+        return abandoned.length;
+    }
+
+    /**
+     * Mark job as completed with its result
+     */
+    async completeJob(jobId: string, result: JobResult): Promise<void> {
+        const now = new Date();
+        await db.update(generationJobs)
+            .set({
+                status: 'completed',
+                resultUrl: result.resultUrl,
+                lookId: result.lookId || null,
+                outfitId: result.outfitId || null,
+                errorCode: null,
+                errorMessage: null,
+                lockedAt: null,
+                updatedAt: now,
+                completedAt: now,
+            })
+            .where(eq(generationJobs.id, jobId));
+
+        logger.info({ jobId }, 'Generation job completed');
+    }
+
+    /**
+     * Record a job failure
+     * Retryable errors are rescheduled with exponential backoff until maxAttempts is reached.
+     * Returns true if the job was rescheduled, false if it failed permanently.
+     */
+    async failJob(job: GenerationJob, error: any): Promise<boolean> {
+        const errorCode = this.getErrorCode(error);
+        const canRetry = !PERMANENT_ERROR_CODES.includes(errorCode)
+            && isRetryableVertexError(error)
+            && job.attempts < job.maxAttempts;
+
+        const now = new Date();
+
+        if (canRetry) {
+            const delay = Math.min(BACKOFF_BASE_MS * 2 ** (job.attempts - 1), BACKOFF_MAX_MS);
+            await db.update(generationJobs)
+                .set({
+                    status: 'pending',
+                    runAt: new Date(now.getTime() + delay),
+                    lockedAt: null,
+                    errorCode,
+                    errorMessage: error?.message || String(error),
+                    updatedAt: now,
+                })
+                .where(eq(generationJobs.id, job.id));
+
+            logger.warn({ jobId: job.id, attempts: job.attempts, retryInMs: delay, error: error?.message }, 'Generation job failed, retry scheduled');
+            return true;
+        }
+
+        await db.update(generationJobs)
+            .set({
+                status: 'failed',
+                lockedAt: null,
+                errorCode,
+                errorMessage: error?.message || String(error),
+                updatedAt: now,
+                completedAt: now,
+            })
+            .where(eq(generationJobs.id, job.id));
+
+        logger.error({ jobId: job.id, attempts: job.attempts, errorCode, error: error?.message }, 'Generation job failed permanently');
+        return false;
+    }
+
+    /**
+     * Map an error to a stable code exposed to clients
+     */
+    private getErrorCode(error: any): string {
+        const message = error?.message;
+        if (PERMANENT_ERROR_CODES.includes(message)) return message;
+        if (isRetryableVertexError(error)) return 'PROVIDER_UNAVAILABLE';
+        return 'GENERATION_FAILED';
+    }
+}
+
+export const generationJobsService = new GenerationJobsService();
@@ -4,9 +4,10 @@
  */
 
 import { Response } from 'express';
-import { GenerationService } from './generation.service';
+import { GenerationService, getTryOnCost } from './generation.service';
 import { AuthRequest } from '../../middleware/auth';
 import { logger } from '../../utils/logger';
+import { isRefusedFetchError, sniffImageType } from '../../utils/safeFetch';
 
 const isProduction = process.env.NODE_ENV === 'production';
 
@@ -90,46 +91,147 @@ export class GenerationController {
     };
 
     /**
-     * Generate virtual try-on
+     * Queue a try-on of several garments, layered in one job
+     */
+    generateMulti = async (req: AuthRequest, res: Response) => {
+        try {
+            const { userId, outfitId, outfitName, items, aspectRatio } = req.body;
+
+            // SECURITY: Verify authenticated user is generating for themselves
+            if (req.user?.id !== userId) {
+                return res.status(403).json({ error: 'Not authorized to generate try-ons for this user' });
+            }
+
+            logger.info({ userId, outfitId, garments: items.length }, 'Queueing multi-garment try-on');
+
+            const result = await this.service.enqueueMultiTryOn({ userId, outfitId, outfitName, items, aspectRatio });
+
+            res.status(202).json({
+                success: true,
+                jobId: result.job.id,
+                status: result.job.status,
+                outfitId: result.outfitId,
+                creditsReserved: result.cost,
+                steps: result.items.map(item => ({
+                    category: item.category,
+                    productName: item.productName || null,
+                    productUrl: item.productUrl || null,
+                })),
+                message: 'Generation started! Poll the job for each step.',
+            });
+        } catch (error: any) {
+            switch (error.message) {
+                case 'INSUFFICIENT_CREDITS':
+                    return res.status(402).json({
+                        error: 'Insufficient credits',
+                        code: 'INSUFFICIENT_CREDITS',
+                        message: 'You need more credits to generate. Visit the shop to purchase more.',
+                    });
+                case 'PREMIUM_REQUIRED':
+                    return res.status(403).json({
+                        error: 'Premium feature',
+                        code: 'PREMIUM_REQUIRED',
+                        message: 'Outfit Mode is a Premium feature. Upgrade to unlock!',
+                    });
+                case 'OUTFIT_NOT_FOUND':
+                    return res.status(404).json({ error: 'Outfit not found', code: 'OUTFIT_NOT_FOUND' });
+                case 'VARIANT_NOT_FOUND':
+                    return res.status(400).json({
+                        error: 'Variant not found',
+                        code: 'VARIANT_NOT_FOUND',
+                        message: 'This colour is no longer listed for the product. Parse the link again to see current variants.',
+                    });
+                case 'PARSED_IMAGE_NOT_FOUND':
+                    return res.status(400).json({
+                        error: 'Parsed image not found',
+                        code: 'PARSED_IMAGE_NOT_FOUND',
+                        message: 'This garment photo has expired. Parse the photo again.',
+                    });
+            }
+            logger.error({ error: error.message, userId: req.body?.userId }, 'Error queueing multi-garment try-on');
+            res.status(500).json({
+                error: 'Failed to start virtual try-on',
+                details: sanitizeErrorDetails(error),
+            });
+        }
+    };
+
+    /**
+     * Find garments in an uploaded screenshot or photo
+     */
+    parseImage = async (req: AuthRequest, res: Response) => {
+        try {
+            const image = req.file;
+
+            if (!image) {
+                return res.status(400).json({ error: 'Image is required' });
+            }
+            if (!sniffImageType(image.buffer)) {
+                return res.status(400).json({ error: 'Upload a JPEG, PNG, WebP, GIF, AVIF or HEIC image', code: 'INVALID_IMAGE' });
+            }
+
+            logger.info({ userId: req.user?.id, size: image.size }, 'Parsing product photo');
+            const result = await this.service.parseProductImage(req.user.id, image.buffer);
+            res.json(result);
+        } catch (error: any) {
+            if (error.message === 'INVALID_IMAGE') {
+                return res.status(400).json({ error: 'Image could not be read', code: 'INVALID_IMAGE' });
+            }
+            logger.error({ error: error.message, userId: req.user?.id }, 'Error parsing photo');
+            res.status(500).json({
+                error: 'Failed to parse image',
+                details: sanitizeErrorDetails(error),
+            });
+        }
+    };
+
+    /**
+     * Queue virtual try-on generation
+     * Returns immediately with a job ID; clients poll GET /api/generations/:jobId
      */
     generate = async (req: AuthRequest, res: Response) => {
         const totalStart = Date.now();
         try {
-            const { userId, productUrl, productName, productImageUrls, outfitId, baseImageUrl, stepOrder } = req.body;
+            const { userId, productUrl, productName, productImageUrls, variantId, parsedImageId, outfitId, baseImageUrl, stepOrder, variants, aspectRatio } = req.body;
 
             // SECURITY: Verify authenticated user is generating for themselves
             if (req.user?.id !== userId) {
                 return res.status(403).json({ error: 'Not authorized to generate try-ons for this user' });
             }
 
-            if (!userId || !productImageUrls || !Array.isArray(productImageUrls) || productImageUrls.length === 0) {
+            if (!userId || (!variantId && !parsedImageId && (!Array.isArray(productImageUrls) || productImageUrls.length === 0))) {
                 return res.status(400).json({ error: 'Missing required fields or invalid images' });
             }
 
             const isOutfitMode = !!outfitId;
-            logger.info({ userId, isOutfitMode, outfitId, stepOrder }, 'Starting virtual try-on generation');
+            logger.info({ userId, isOutfitMode, outfitId, stepOrder, variants }, 'Queueing virtual try-on generation');
 
-            const result = await this.service.generateTryOn({
+            const job = await this.service.enqueueTryOn({
                 userId,
                 productUrl,
                 productName,
                 productImageUrls,
+                variantId,
+                parsedImageId,
                 outfitId,
                 baseImageUrl,
                 stepOrder,
+                variants,
+                aspectRatio,
             });
 
-            const responseTime = Date.now() - totalStart;
-            logger.info({ userId, duration: responseTime, isOutfitMode }, 'Returning response to user');
+            logger.info({ userId, jobId: job.id, duration: Date.now() - totalStart }, 'Generation job accepted');
 
-            res.json({
+            res.status(202).json({
                 success: true,
-                generatedImageBase64: `data:image/jpeg;base64,${result.generatedImageBase64}`,
-                generatedImageUrl: result.generatedImageUrl || null,
+                jobId: job.id,
+                status: job.status,
                 isOutfitMode,
                 outfitId: outfitId || null,
                 stepOrder: stepOrder || null,
-                message: isOutfitMode ? 'Outfit generation complete!' : 'Image generated! Saving in background...',
+                variants: variants || 1,
+                creditsReserved: getTryOnCost(variants),
+                message: 'Generation started! Poll the job for the result.',
             });
         } catch (error: any) {
             const totalMs = Date.now() - totalStart;
@@ -153,18 +255,87 @@ export class GenerationController {
                 });
             }
 
-            if (error.message === 'NO_PRODUCT_IMAGES') {
-                logger.info({ userId: req.body?.userId, duration: totalMs }, 'Generation blocked - no product images');
+            if (error.message === 'VARIANT_NOT_FOUND') {
                 return res.status(400).json({
-                    error: 'No product images found',
-                    code: 'NO_PRODUCT_IMAGES',
-                    message: 'Could not find valid product images from this link.',
+                    error: 'Variant not found',
+                    code: 'VARIANT_NOT_FOUND',
+                    message: 'This colour is no longer listed for the product. Parse the link again to see current variants.',
                 });
             }
 
-            logger.error({ duration: totalMs, error: error.message }, 'Error generating virtual try-on');
+            if (error.message === 'PARSED_IMAGE_NOT_FOUND') {
+                return res.status(400).json({
+                    error: 'Parsed image not found',
+                    code: 'PARSED_IMAGE_NOT_FOUND',
+                    message: 'This garment photo has expired. Parse the photo again.',
+                });
+            }
+
+            if (error.message === 'VARIANTS_LIMIT_EXCEEDED') {
+                return res.status(403).json({
+                    error: 'Too many variants',
+                    code: 'VARIANTS_LIMIT_EXCEEDED',
+                    message: 'Your plan does not allow this many variants per generation. Upgrade for more.',
+                });
+            }
+
+            logger.error({ duration: totalMs, error: error.message }, 'Error queueing virtual try-on');
+            res.status(500).json({
+                error: 'Failed to start virtual try-on',
+                details: sanitizeErrorDetails(error),
+            });
+        }
+    };
+
+    /**
+     * Get generation job status
+     */
+    getJob = async (req: AuthRequest, res: Response) => {
+        try {
+            const { jobId } = req.params;
+            const job = await this.service.getJobStatus(jobId, req.user!.id);
+
+            if (!job) {
+                return res.status(404).json({ error: 'Generation job not found' });
+            }
+
+            res.json({ success: true, job });
+        } catch (error: any) {
+            logger.error({ error: error.message, jobId: req.params.jobId }, 'Error fetching generation job');
+            res.status(500).json({ error: 'Failed to fetch generation job' });
+        }
+    };
+
+    /**
+     * Keep one candidate of a multi-variant try-on as a look
+     */
+    selectCandidate = async (req: AuthRequest, res: Response) => {
+        try {
+            const { jobId } = req.params;
+            const result = await this.service.selectCandidate(jobId, req.user!.id, req.body.candidateId);
+            res.json({ success: true, ...result });
+        } catch (error: any) {
+            switch (error.message) {
+                case 'JOB_NOT_FOUND':
+                    return res.status(404).json({ error: 'Generation job not found', code: 'JOB_NOT_FOUND' });
+                case 'CANDIDATE_NOT_FOUND':
+                    return res.status(404).json({ error: 'Candidate not found', code: 'CANDIDATE_NOT_FOUND' });
+                case 'JOB_NOT_COMPLETED':
+                    return res.status(409).json({
+                        error: 'Generation not finished',
+                        code: 'JOB_NOT_COMPLETED',
+                        message: 'Candidates can be picked once the generation has completed.',
+                    });
+                case 'CANDIDATE_ALREADY_SELECTED':
+                    return res.status(409).json({
+                        error: 'Candidate already selected',
+                        code: 'CANDIDATE_ALREADY_SELECTED',
+                        message: 'Another candidate of this generation was already kept.',
+                    });
+            }
+            logger.error({ error: error.message, jobId: req.params.jobId }, 'Error selecting generation candidate');
             res.status(500).json({
-                error: 'Failed to generate virtual try-on',
+                error: 'Failed to select candidate',
                 details: sanitizeErrorDetails(error),
             });
         }
@@ -191,6 +362,9 @@ export class GenerationController {
                 upscaledImageBase64: result.base64,
             });
         } catch (error: any) {
+            if (isRefusedFetchError(error)) {
+                return res.status(400).json({ error: 'Image URL could not be downloaded', code: error.message });
+            }
             logger.error({ error: error.message, duration: Date.now() - start }, 'Error upscaling image');
             res.status(500).json({
                 error: 'Failed to upscale image',
@@ -1,29 +1,51 @@
 /**
  * Generation Routes
- * AI generation, link parsing, and upscaling endpoints
+ * AI generation, job status, link and photo parsing, and upscaling endpoints
  */
 
 import { Router } from 'express';
+import multer from 'multer';
 import { GenerationController } from './generation.controller';
 import { authenticateUser } from '../../middleware/auth';
 import { validate } from '../../middleware/validation';
 import { Schemas } from '../../middleware/schemas';
 import { aiRateLimiter } from '../../middleware/rateLimiter';
 import { requirePremium } from '../../middleware/requirePremium';
+import { idempotent } from '../../middleware/idempotency';
+import { authenticateUserOrApiKey } from '../../middleware/apiKey';
 
 const router = Router();
 const controller = new GenerationController();
 
+// Multer config for photo uploads
+const storage = multer.memoryStorage();
+const upload = multer({
+    storage,
+    limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
+});
+
 // Parse product link (Protected)
 router.post('/parse-link', authenticateUser, aiRateLimiter, validate(Schemas.parseLink), controller.parseLink);
 
 // Parse product link for outfit mode (Protected + Premium)
 router.post('/parse-link-outfit', authenticateUser, requirePremium, aiRateLimiter, validate(Schemas.parseLink), controller.parseLinkForOutfit);
 
-// Generate virtual try-on (Protected)
-router.post('/generate', authenticateUser, aiRateLimiter, validate(Schemas.generateWithOutfit), controller.generate);
+// Find garments in a screenshot or photo (Protected)
+router.post('/parse-image', authenticateUser, aiRateLimiter, upload.single('image'), controller.parseImage);
+
+// Generate virtual try-on (Protected - user token or API key with 'generate' scope)
+router.post('/generate', authenticateUserOrApiKey('generate'), aiRateLimiter, validate(Schemas.generateWithOutfit), idempotent, controller.generate);
+
+// Generate a multi-garment try-on in one job (Protected - user token or API key with 'generate' scope)
+router.post('/generate/multi', authenticateUserOrApiKey('generate'), aiRateLimiter, validate(Schemas.generateMulti), idempotent, controller.generateMulti);
+
+// Generation job status (Protected - owner only)
+router.get('/generations/:jobId', authenticateUserOrApiKey('generate'), validate(Schemas.jobIdParam), controller.getJob);
+
+// Keep one candidate of a multi-variant try-on as a look (Protected - owner only)
+router.post('/generations/:jobId/select', authenticateUserOrApiKey('generate'), validate(Schemas.selectCandidate), controller.selectCandidate);
 
 // Upscale image (Protected + Premium)
-router.post('/upscale', authenticateUser, requirePremium, aiRateLimiter, controller.upscale);
+router.post('/upscale', authenticateUser, requirePremium, aiRateLimiter, idempotent, controller.upscale);
 
 export default router;
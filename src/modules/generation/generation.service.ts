@@ -3,51 +3,106 @@
  * Business logic for AI generation operations
  */
 
-import { v4 as uuidv4 } from 'uuid';
-import { eq } from 'drizzle-orm';
+import { eq, and, asc, desc, sql } from 'drizzle-orm';
 import { db } from '../../db';
-import { users, outfitGenerations, outfits, looks } from '../../db/schema';
-import { parseProductLink, parseProductLinkForOutfit } from '../../linkParser';
-import { generateVirtualTryOn } from '../../gemini';
-import { upscaleImage as upscaleWithVertex, downloadImageAsBase64 } from '../../upscale';
-import { uploadFile, getAuthenticatedUrl } from '../../storage';
+import { users, userImages, outfitGenerations, outfits, looks, generationJobs, generationCandidates, GenerationJob } from '../../db/schema';
+import { getImageProvider } from '../../providers';
+import { downloadImageAsBase64 } from '../../upscale';
+import { getAuthenticatedUrl, deleteFile } from '../../storage';
 import { downloadProductImages } from '../../utils/imageDownloader';
 import { getOptimalProductImages } from '../../utils/imageFilter';
+import { GarmentCategory, orderByLayer } from '../../utils/garments';
+import { AspectRatio, DEFAULT_ASPECT_RATIO, isAspectRatio } from '../../utils/aspectRatio';
 import { cacheService } from '../../services/cache.service';
 import { logger } from '../../utils/logger';
-import { CreditsService } from '../credits/credits.service';
+import { CreditsService, DbExecutor } from '../credits/credits.service';
+import { ReferralsService } from '../credits/referrals.service';
+import { ProductsService } from '../products/products.service';
+import { generationJobsService, JobResult } from './generation-jobs.service';
+import { generationCandidatesService, UploadedImage } from './generation-candidates.service';
 
 interface GenerateTryOnData {
     userId: string;
     productUrl?: string;
     productName?: string;
     productImageUrls: string[];
+    variantId?: string;
+    parsedImageId?: string;
     outfitId?: string;
     baseImageUrl?: string;
     stepOrder?: number;
+    variants?: number; // Candidate images to generate; more than one waits for the user to pick
+    aspectRatio?: AspectRatio; // Output ratio - defaults to the active body image's
+}
+
+interface MultiGarmentItem {
+    productUrl?: string;
+    productName?: string;
+    productImageUrls: string[];
+    category: GarmentCategory;
+}
+
+// Job payload for a multi-garment try-on - every garment is one outfit step, run in a single job.
+// Steps are numbered when saved and found again by the job's id, so concurrent jobs on one outfit cannot collide.
+interface MultiTryOnData {
+    kind: 'multi';
+    userId: string;
+    outfitId: string;
+    baseImageUrl?: string; // Latest step when adding to an existing outfit
+    items: MultiGarmentItem[]; // In layering order
+    aspectRatio?: AspectRatio;
+}
+
+function isMultiTryOn(payload: GenerateTryOnData | MultiTryOnData): payload is MultiTryOnData {
+    return (payload as MultiTryOnData).kind === 'multi';
+}
+
+/**
+ * Credits for a try-on - one per candidate image
+ */
+export function getTryOnCost(variants: number = 1): number {
+    return variants;
+}
+
+/**
+ * Credits for a multi-garment try-on - one for the first garment, half a credit for each one after it
+ */
+export function getMultiTryOnCost(garmentCount: number): number {
+    return Math.ceil((garmentCount + 1) / 2);
 }
 
 export class GenerationService {
     private creditsService = new CreditsService();
+    private referralsService = new ReferralsService();
+    private productsService = new ProductsService();
 
     /**
      * Parse product link
      */
     async parseProductLink(url: string) {
-        return parseProductLink(url);
+        return this.productsService.parse(url);
     }
 
     /**
      * Parse product link for outfit mode
      */
     async parseProductLinkForOutfit(url: string) {
-        return parseProductLinkForOutfit(url);
+        return this.productsService.parseForOutfit(url);
     }
 
     /**
-     * Generate virtual try-on
+     * Find garments in an uploaded screenshot or photo
      */
-    async generateTryOn(data: GenerateTryOnData) {
+    async parseProductImage(userId: string, image: Buffer) {
+        return this.productsService.parseImage(userId, image);
+    }
+
+    /**
+     * Queue a virtual try-on generation
+     * Cheap checks run up front so the client gets an immediate error;
+     * the expensive work happens in the generation worker.
+     */
+    async enqueueTryOn(data: Omit<GenerateTryOnData, 'productImageUrls'> & { productImageUrls?: string[] }) {
         const isOutfitMode = !!data.outfitId;
 
         // Check premium for outfit mode (additional safety - routes also check)
@@ -58,10 +113,364 @@ export class GenerationService {
             }
         }
 
-        // Check credit balance BEFORE expensive operations
-        const hasCredits = await this.creditsService.hasEnoughCredits(data.userId, 1);
-        if (!hasCredits) {
-            throw new Error('INSUFFICIENT_CREDITS');
+        const variants = data.variants ?? 1;
+        if (variants > 1 && variants > await this.creditsService.getVariantLimit(data.userId)) {
+            throw new Error('VARIANTS_LIMIT_EXCEEDED');
+        }
+
+        const productImageUrls = await this.resolveProductImageUrls(data.userId, data);
+        const payload: GenerateTryOnData = { ...data, productImageUrls };
+
+        // Hold the credits up front - released automatically if the job fails
+        const reservation = await this.creditsService.reserveCredits(
+            data.userId,
+            getTryOnCost(variants),
+            variants > 1 ? `Virtual try-on generation (${variants} candidates)` : 'Virtual try-on generation'
+        );
+
+        try {
+            return await generationJobsService.createJob(data.userId, payload, reservation.id);
+        } catch (error) {
+            await this.creditsService.releaseCredits(reservation.id, 'Job could not be queued');
+            throw error;
+        }
+    }
+
+    /**
+     * Queue a try-on of several garments at once
+     * The garments are put on in layering order inside one job, each step saved to the outfit,
+     * for a single combined credit charge.
+     */
+    async enqueueMultiTryOn(data: {
+        userId: string;
+        outfitId?: string;
+        outfitName?: string;
+        items: (Omit<MultiGarmentItem, 'productImageUrls'> & { productImageUrls?: string[]; variantId?: string; parsedImageId?: string })[];
+        aspectRatio?: AspectRatio;
+    }) {
+        const hasPremium = await this.creditsService.hasPremiumFeatures(data.userId);
+        if (!hasPremium) {
+            throw new Error('PREMIUM_REQUIRED');
+        }
+
+        const items: MultiGarmentItem[] = orderByLayer(await Promise.all(data.items.map(async ({ variantId, parsedImageId, ...item }) => ({
+            ...item,
+            productImageUrls: await this.resolveProductImageUrls(data.userId, { ...item, variantId, parsedImageId }),
+        }))));
+
+        // Adding to an existing outfit continues from its latest step
+        let baseImageUrl: string | undefined;
+        if (data.outfitId) {
+            const outfit = await db.query.outfits.findFirst({
+                where: and(eq(outfits.id, data.outfitId), eq(outfits.userId, data.userId)),
+            });
+            if (!outfit) {
+                throw new Error('OUTFIT_NOT_FOUND');
+            }
+
+            const latest = await db.query.outfitGenerations.findFirst({
+                where: eq(outfitGenerations.outfitId, outfit.id),
+                orderBy: [desc(outfitGenerations.stepOrder)],
+            });
+            if (latest) {
+                baseImageUrl = latest.generatedImageUrl;
+            }
+        }
+
+        const cost = getMultiTryOnCost(items.length);
+        const reservation = await this.creditsService.reserveCredits(data.userId, cost, `Multi-garment try-on (${items.length} items)`);
+
+        try {
+            let outfitId = data.outfitId;
+            if (!outfitId) {
+                const [outfit] = await db.insert(outfits).values({
+                    userId: data.userId,
+                    name: data.outfitName || `Outfit ${new Date().toLocaleDateString()}`,
+                }).returning({ id: outfits.id });
+                outfitId = outfit.id;
+            }
+
+            const payload: MultiTryOnData = {
+                kind: 'multi',
+                userId: data.userId,
+                outfitId,
+                baseImageUrl,
+                items,
+                aspectRatio: data.aspectRatio,
+            };
+            const job = await generationJobsService.createJob(data.userId, payload, reservation.id);
+            return { job, outfitId, cost, items };
+        } catch (error) {
+            await this.creditsService.releaseCredits(reservation.id, 'Job could not be queued');
+            throw error;
+        }
+    }
+
+    /**
+     * Get generation job status for its owner
+     */
+    async getJobStatus(jobId: string, userId: string) {
+        const job = await generationJobsService.getJobForUser(jobId, userId);
+        if (!job) return null;
+
+        const payload = JSON.parse(job.payload) as GenerateTryOnData | MultiTryOnData;
+        const generatedImageUrl = job.resultUrl ? await getAuthenticatedUrl(job.resultUrl) : null;
+
+        if (isMultiTryOn(payload)) {
+            return {
+                id: job.id,
+                status: job.status,
+                attempts: job.attempts,
+                maxAttempts: job.maxAttempts,
+                generatedImageUrl,
+                lookId: null,
+                outfitId: payload.outfitId,
+                stepOrder: null,
+                steps: await this.getMultiTryOnSteps(payload, job.id),
+                errorCode: job.status === 'completed' ? null : job.errorCode,
+                createdAt: job.createdAt,
+                completedAt: job.completedAt,
+            };
+        }
+
+        return {
+            id: job.id,
+            status: job.status,
+            attempts: job.attempts,
+            maxAttempts: job.maxAttempts,
+            generatedImageUrl,
+            lookId: job.lookId,
+            outfitId: job.outfitId || payload.outfitId || null,
+            stepOrder: payload.stepOrder || null,
+            variants: payload.variants || 1,
+            candidates: (payload.variants ?? 1) > 1
+                ? await generationCandidatesService.getCandidatesForClient({ jobId: job.id })
+                : null,
+            errorCode: job.status === 'completed' ? null : job.errorCode,
+            createdAt: job.createdAt,
+            completedAt: job.completedAt,
+        };
+    }
+
+    /**
+     * Keep one candidate of a finished multi-variant try-on as a look
+     * Picking the candidate that was already kept returns the same look.
+     */
+    async selectCandidate(jobId: string, userId: string, candidateId: string) {
+        const job = await generationJobsService.getJobForUser(jobId, userId);
+        if (!job) {
+            throw new Error('JOB_NOT_FOUND');
+        }
+        if (job.status !== 'completed') {
+            throw new Error('JOB_NOT_COMPLETED');
+        }
+
+        const candidate = await db.query.generationCandidates.findFirst({
+            where: and(eq(generationCandidates.id, candidateId), eq(generationCandidates.jobId, job.id)),
+        });
+        if (!candidate) {
+            throw new Error('CANDIDATE_NOT_FOUND');
+        }
+
+        const payload = JSON.parse(job.payload) as GenerateTryOnData;
+        const snapshot = await this.productsService.getSnapshot(payload.productUrl);
+
+        const lookId = await db.transaction(async (tx) => {
+            // The job row is locked so two picks cannot both create a look
+            const [locked] = await tx.select({ lookId: generationJobs.lookId })
+                .from(generationJobs)
+                .where(eq(generationJobs.id, job.id))
+                .for('update');
+
+            if (locked.lookId) {
+                const [current] = await tx.select({ lookId: generationCandidates.lookId })
+                    .from(generationCandidates)
+                    .where(eq(generationCandidates.id, candidate.id));
+                if (current?.lookId === locked.lookId) return locked.lookId;
+                throw new Error('CANDIDATE_ALREADY_SELECTED');
+            }
+
+            const [look] = await tx.insert(looks).values({
+                userId,
+                productUrl: payload.productUrl || null,
+                ...snapshot,
+                productName: payload.productName || 'Clothing Item',
+                generatedImageUrl: candidate.imageUrl,
+                imageWidth: candidate.imageWidth,
+                imageHeight: candidate.imageHeight,
+                baseImageUrl: candidate.baseImageUrl,
+                isPublic: false, // Default to private
+            }).returning({ id: looks.id });
+
+            const now = new Date();
+            await tx.update(generationCandidates)
+                .set({ selectedAt: now, lookId: look.id })
+                .where(eq(generationCandidates.id, candidate.id));
+            await tx.update(generationJobs)
+                .set({ lookId: look.id, resultUrl: candidate.imageUrl, updatedAt: now })
+                .where(eq(generationJobs.id, job.id));
+
+            return look.id;
+        });
+
+        logger.info({ userId, jobId, candidateId, lookId }, 'Generation candidate selected');
+
+        // The other candidates are not needed once one is kept
+        await generationCandidatesService.discardUnselected({ jobId: job.id }).catch((error: any) =>
+            logger.warn({ jobId, error: error.message }, 'Failed to discard unselected candidates')
+        );
+
+        return {
+            lookId,
+            candidateId: candidate.id,
+            generatedImageUrl: await getAuthenticatedUrl(candidate.imageUrl),
+        };
+    }
+
+    /**
+     * Run a queued virtual try-on job (called by the generation worker)
+     */
+    async processTryOnJob(job: GenerationJob): Promise<JobResult> {
+        const payload = JSON.parse(job.payload) as GenerateTryOnData | MultiTryOnData;
+        if (isMultiTryOn(payload)) {
+            return this.runMultiTryOn(payload, job.id, job.reservationId);
+        }
+        return this.runTryOn(payload, job.id, job.reservationId);
+    }
+
+    /**
+     * Dress the model in each garment in turn, feeding every step's result into the next
+     * Steps already saved by an earlier attempt of the same job are not generated again.
+     * The last step is saved in the same transaction as the charge, so a job with every step saved has been paid for.
+     */
+    private async runMultiTryOn(data: MultiTryOnData, jobId: string, reservationId: string | null): Promise<JobResult> {
+        // A retried job resumes after the steps it already saved
+        const completed = await db.select({ generatedImageUrl: outfitGenerations.generatedImageUrl })
+            .from(outfitGenerations)
+            .where(eq(outfitGenerations.jobId, jobId))
+            .orderBy(asc(outfitGenerations.stepOrder));
+        if (completed.length === data.items.length) {
+            return { resultUrl: completed[completed.length - 1].generatedImageUrl, outfitId: data.outfitId };
+        }
+
+        // Restarts the hold's expiry, so several steps cannot outlast it
+        if (reservationId && !await this.creditsService.extendReservation(reservationId)) {
+            await this.discardMultiTryOnSteps(jobId);
+            throw new Error('RESERVATION_EXPIRED');
+        }
+
+        const user = await this.getUserWithBodyPhoto(data.userId);
+        if (!user || !user.bodyPhotoUrl) {
+            throw new Error('NO_BODY_PHOTO');
+        }
+
+        // Download every garment up front so a bad link fails before any generation is paid for
+        const productImages = await Promise.all(data.items.map(async (item) => {
+            const filteredImageUrls = await getOptimalProductImages(item.productImageUrls);
+            if (!filteredImageUrls || filteredImageUrls.length === 0) {
+                throw new Error('NO_PRODUCT_IMAGES');
+            }
+            return downloadProductImages(filteredImageUrls);
+        }));
+
+        let currentImageUrl = completed.length > 0
+            ? completed[completed.length - 1].generatedImageUrl
+            : data.baseImageUrl || user.bodyPhotoUrl;
+        const aspectRatio = data.aspectRatio || await this.getActiveAspectRatio(data.userId);
+
+        for (let index = completed.length; index < data.items.length; index++) {
+            const item = data.items[index];
+
+            const generateStart = Date.now();
+            const [generatedImageBase64] = await getImageProvider().virtualTryOn(
+                await this.getAuthenticatedImageUrl(currentImageUrl),
+                productImages[index],
+                item.productName || 'Clothing Item',
+                aspectRatio
+            );
+            logger.info({ userId: data.userId, jobId, step: index + 1, category: item.category, duration: Date.now() - generateStart }, 'Multi-garment step generated');
+
+            const [image] = await generationCandidatesService.uploadImages([generatedImageBase64], { folder: 'generated' });
+            const save = (executor: DbExecutor) => this.saveGeneratedImage(
+                image,
+                data.userId,
+                data.outfitId,
+                item.productUrl,
+                item.productName,
+                undefined,
+                jobId,
+                executor
+            );
+
+            if (index < data.items.length - 1) {
+                currentImageUrl = await save(db);
+            } else {
+                try {
+                    currentImageUrl = await db.transaction(async (tx) => {
+                        const imageUrl = await save(tx);
+                        await this.creditsService.chargeReservation(reservationId, data.userId, getMultiTryOnCost(data.items.length), { outfitId: data.outfitId }, tx);
+                        return imageUrl;
+                    });
+                } catch (error: any) {
+                    await generationCandidatesService.discardUploads([image]);
+                    // The charge failing fails the job for good - its earlier steps go with it
+                    if (error.message === 'INSUFFICIENT_CREDITS') {
+                        await this.discardMultiTryOnSteps(jobId);
+                    }
+                    throw error;
+                }
+            }
+
+            // Each step can take a while - keep the job from being taken for orphaned
+            await generationJobsService.heartbeat(jobId);
+        }
+
+        const result: JobResult = { resultUrl: currentImageUrl, outfitId: data.outfitId };
+
+        // Only a new outfit starts from the body photo
+        if (!data.baseImageUrl) {
+            await this.updateStreak(data.userId, user);
+        }
+
+        try {
+            await this.referralsService.rewardOnFirstGeneration(data.userId);
+        } catch (error: any) {
+            logger.error({ userId: data.userId, error: error.message }, 'Referral reward failed');
+        }
+
+        return result;
+    }
+
+    /**
+     * Run a virtual try-on end to end and persist the result
+     * Used directly by seed scripts; API requests go through the job queue
+     * and carry a credit reservation that is captured on success.
+     * The output is saved in the same transaction as the charge, so a job that already has its output has been paid for.
+     */
+    async runTryOn(data: GenerateTryOnData, jobId?: string, reservationId?: string | null): Promise<JobResult> {
+        const isOutfitMode = !!data.outfitId;
+        // Candidates belong to a job, so only queued try-ons can ask for more than one
+        const keepCandidates = (data.variants ?? 1) > 1 && !!jobId && !isOutfitMode;
+        const sampleCount = keepCandidates ? data.variants! : 1;
+
+        // A retried job whose earlier attempt got as far as the charge is done
+        const saved = jobId ? await this.getSavedTryOn(data, jobId, keepCandidates) : null;
+        if (saved) {
+            return saved;
+        }
+
+        if (reservationId) {
+            // The hold may have expired (and been refunded) while the job was queued;
+            // if not, its expiry restarts so it outlasts the generation
+            const held = await this.creditsService.extendReservation(reservationId);
+            if (!held) {
+                throw new Error('RESERVATION_EXPIRED');
+            }
+        } else {
+            const hasCredits = await this.creditsService.hasEnoughCredits(data.userId, getTryOnCost(sampleCount));
+            if (!hasCredits) {
+                throw new Error('INSUFFICIENT_CREDITS');
+            }
         }
 
         // Filter to prefer product-only images
@@ -78,10 +487,10 @@ export class GenerationService {
             this.getUserWithBodyPhoto(data.userId),
             downloadProductImages(filteredImageUrls),
         ]);
-        logger.info({ userId: data.userId, duration: Date.now() - fetchStart }, 'Parallel fetch (User + Products)');
+        logger.info({ userId: data.userId, jobId, duration: Date.now() - fetchStart }, 'Parallel fetch (User + Products)');
 
         if (!user || !user.bodyPhotoUrl) {
-            throw new Error('User not found or no body photo');
+            throw new Error('NO_BODY_PHOTO');
         }
 
         // Determine base image for generation
@@ -92,51 +501,79 @@ export class GenerationService {
             baseImageForGeneration = await this.getAuthenticatedImageUrl(user.bodyPhotoUrl);
         }
 
-        // Generate the try-on
+        const aspectRatio = data.aspectRatio || await this.getActiveAspectRatio(data.userId);
+
         const generateStart = Date.now();
-        const generatedImageBase64 = await generateVirtualTryOn(
+        const generatedImages = await getImageProvider().virtualTryOn(
             baseImageForGeneration,
             productBase64s,
             data.productName || 'Clothing Item',
-            '3:4'
+            aspectRatio,
+            sampleCount
         );
-        logger.info({ userId: data.userId, duration: Date.now() - generateStart }, 'Image generation');
+        logger.info({ userId: data.userId, jobId, samples: generatedImages.length, duration: Date.now() - generateStart }, 'Image generation');
 
-        // DEDUCT CREDIT ONLY AFTER SUCCESSFUL GENERATION
-        await this.creditsService.deductCredits(
-            data.userId,
-            1,
-            'generation',
-            undefined,
-            isOutfitMode ? data.outfitId : undefined
+        // Upload before charging so a failed upload never costs a credit; the records are then
+        // written with the charge, and the uploads deleted if it fails, so nothing unpaid is kept
+        const images = await generationCandidatesService.uploadImages(
+            keepCandidates ? generatedImages : generatedImages.slice(0, 1),
+            { folder: 'generated' }
         );
+        // The model can return fewer samples than asked for; only delivered images are charged
+        const cost = getTryOnCost(images.length);
+
+        let result: JobResult;
+        try {
+            result = await db.transaction(async (tx): Promise<JobResult> => {
+                if (keepCandidates) {
+                    const candidates = await generationCandidatesService.insertCandidates(data.userId, { jobId: jobId! }, images, user.bodyPhotoUrl, tx);
+                    await this.creditsService.chargeReservation(reservationId, data.userId, cost, {}, tx);
+                    return { resultUrl: candidates[0].imageUrl };
+                }
+                if (isOutfitMode && data.outfitId) {
+                    const generatedImageUrl = await this.saveGeneratedImage(
+                        images[0],
+                        data.userId,
+                        data.outfitId,
+                        data.productUrl,
+                        data.productName,
+                        data.stepOrder,
+                        jobId,
+                        tx
+                    );
+                    await this.creditsService.chargeReservation(reservationId, data.userId, cost, { outfitId: data.outfitId }, tx);
+                    return { resultUrl: generatedImageUrl, outfitId: data.outfitId };
+                }
+                const lookId = await this.saveGeneratedLook(
+                    images[0],
+                    data.userId,
+                    data.productUrl,
+                    data.productName,
+                    user.bodyPhotoUrl,
+                    jobId,
+                    tx
+                );
+                await this.creditsService.chargeReservation(reservationId, data.userId, cost, { lookId }, tx);
+                return { resultUrl: images[0].imageUrl, lookId };
+            });
+        } catch (error) {
+            await generationCandidatesService.discardUploads(images);
+            throw error;
+        }
 
         // Update streak logic (only for first generation, not outfit continuations)
         if (!isOutfitMode || data.stepOrder === 1) {
             await this.updateStreak(data.userId, user);
         }
 
-        // Save generated image
-        let generatedImageUrl: string | null = null;
-
-        if (isOutfitMode && data.outfitId) {
-            // SYNCHRONOUS SAVE for outfit mode - critical for chaining
-            generatedImageUrl = await this.saveGeneratedImage(
-                generatedImageBase64,
-                data.userId,
-                data.outfitId,
-                data.productName,
-                data.stepOrder
-            );
-        } else {
-            // BACKGROUND SAVE for regular mode - faster response
-            this.saveGeneratedImageBackground(generatedImageBase64, data.userId, data.productUrl, data.productName, user.bodyPhotoUrl);
+        // First successful generation unlocks a pending referral reward
+        try {
+            await this.referralsService.rewardOnFirstGeneration(data.userId);
+        } catch (error: any) {
+            logger.error({ userId: data.userId, error: error.message }, 'Referral reward failed');
         }
 
-        return {
-            generatedImageBase64,
-            generatedImageUrl,
-        };
+        return result;
     }
 
     /**
@@ -155,7 +592,7 @@ export class GenerationService {
             throw new Error('No image provided');
         }
 
-        const upscaledBase64 = await upscaleWithVertex(base64);
+        const upscaledBase64 = await getImageProvider().upscaleImage(base64);
         return { base64: upscaledBase64 };
     }
 
@@ -178,6 +615,108 @@ export class GenerationService {
         return user;
     }
 
+    /**
+     * Aspect ratio of the user's active body image
+     */
+    private async getActiveAspectRatio(userId: string): Promise<AspectRatio> {
+        const image = await db.query.userImages.findFirst({
+            where: and(eq(userImages.userId, userId), eq(userImages.isActive, true)),
+            columns: { aspectRatio: true },
+        });
+        return isAspectRatio(image?.aspectRatio) ? image.aspectRatio : DEFAULT_ASPECT_RATIO;
+    }
+
+    /**
+     * Product images for a garment given by image URLs, a colour variant or a garment parsed from a photo
+     */
+    private async resolveProductImageUrls(
+        userId: string,
+        item: { productUrl?: string; productImageUrls?: string[]; variantId?: string; parsedImageId?: string }
+    ): Promise<string[]> {
+        if (item.parsedImageId) {
+            return this.productsService.getParsedImageUrls(userId, item.parsedImageId);
+        }
+        if (item.variantId) {
+            return this.getVariantImageUrls(item.productUrl!, item.variantId);
+        }
+        return item.productImageUrls!;
+    }
+
+    /**
+     * Images of a colour variant from the (cached) parse of the product link
+     */
+    private async getVariantImageUrls(productUrl: string, variantId: string): Promise<string[]> {
+        const result = await this.productsService.parse(productUrl);
+        const variant = (result.product.variants ?? []).find(v => v.id === variantId);
+        if (!result.success || !variant || variant.imageUrls.length === 0) {
+            throw new Error('VARIANT_NOT_FOUND');
+        }
+        return variant.imageUrls;
+    }
+
+    /**
+     * Output a job's earlier attempt saved (and so paid for), if any
+     */
+    private async getSavedTryOn(data: GenerateTryOnData, jobId: string, keepCandidates: boolean): Promise<JobResult | null> {
+        if (keepCandidates) {
+            const [candidate] = await generationCandidatesService.getCandidates({ jobId });
+            return candidate ? { resultUrl: candidate.imageUrl } : null;
+        }
+        if (data.outfitId) {
+            const [step] = await db.select({ generatedImageUrl: outfitGenerations.generatedImageUrl })
+                .from(outfitGenerations)
+                .where(eq(outfitGenerations.jobId, jobId))
+                .limit(1);
+            return step ? { resultUrl: step.generatedImageUrl, outfitId: data.outfitId } : null;
+        }
+        const [look] = await db.select({ id: looks.id, generatedImageUrl: looks.generatedImageUrl })
+            .from(looks)
+            .where(eq(looks.jobId, jobId))
+            .limit(1);
+        return look ? { resultUrl: look.generatedImageUrl!, lookId: look.id } : null;
+    }
+
+    /**
+     * Delete the steps a multi-garment job saved before failing for good
+     */
+    private async discardMultiTryOnSteps(jobId: string): Promise<void> {
+        const steps = await db.delete(outfitGenerations)
+            .where(eq(outfitGenerations.jobId, jobId))
+            .returning({ generatedImageUrl: outfitGenerations.generatedImageUrl });
+
+        for (const step of steps) {
+            try {
+                await deleteFile(step.generatedImageUrl);
+            } catch (error: any) {
+                logger.warn({ jobId, error: error.message }, 'Failed to delete discarded outfit step');
+            }
+        }
+        if (steps.length > 0) {
+            logger.info({ jobId, steps: steps.length }, 'Unpaid outfit steps discarded');
+        }
+    }
+
+    /**
+     * Steps of a multi-garment job, with the ones generated so far
+     */
+    private async getMultiTryOnSteps(data: MultiTryOnData, jobId: string) {
+        const saved = await db.select({ stepOrder: outfitGenerations.stepOrder, generatedImageUrl: outfitGenerations.generatedImageUrl })
+            .from(outfitGenerations)
+            .where(eq(outfitGenerations.jobId, jobId))
+            .orderBy(asc(outfitGenerations.stepOrder));
+
+        return Promise.all(data.items.map(async (item, index) => {
+            const step = saved[index];
+            return {
+                stepOrder: step?.stepOrder ?? null, // Numbered when saved
+                category: item.category,
+                productName: item.productName || null,
+                productUrl: item.productUrl || null,
+                generatedImageUrl: step ? await getAuthenticatedUrl(step.generatedImageUrl) : null,
+            };
+        }));
+    }
+
     /**
      * Get authenticated image URL
      */
@@ -219,61 +758,85 @@ export class GenerationService {
     }
 
     /**
-     * Save generated image (synchronous - for outfit mode)
+     * Save an uploaded image as an outfit step (for outfit mode)
+     * Without a step order the step goes after the outfit's latest one.
      */
     private async saveGeneratedImage(
-        base64: string,
+        image: UploadedImage,
         userId: string,
         outfitId: string,
+        productUrl?: string,
         productName?: string,
-        stepOrder?: number
+        stepOrder?: number,
+        jobId?: string,
+        executor: DbExecutor = db
     ): Promise<string> {
-        const buffer = Buffer.from(base64, 'base64');
-        const fileName = `generated/${uuidv4()}.jpg`;
-        const uploadedUrl = await uploadFile(buffer, fileName, 'image/jpeg', true);
-
-        // Save outfit generation
-        await db.insert(outfitGenerations).values({
+        // Save outfit generation with the product's price at this step
+        const { productId, ...price } = await this.productsService.getSnapshot(productUrl);
+        const step = {
             outfitId,
-            generatedImageUrl: uploadedUrl,
+            generatedImageUrl: image.imageUrl,
+            imageWidth: image.size?.width ?? null,
+            imageHeight: image.size?.height ?? null,
+            productUrl: productUrl || null,
+            ...price,
             productName: productName || 'Clothing Item',
-            stepOrder: stepOrder || 1,
-        });
+            jobId: jobId || null,
+        };
+
+        if (stepOrder) {
+            await executor.insert(outfitGenerations).values({ ...step, stepOrder });
+        } else {
+            // The outfit row lock keeps concurrent jobs from sharing a number
+            stepOrder = await executor.transaction(async (tx) => {
+                await tx.select({ id: outfits.id }).from(outfits).where(eq(outfits.id, outfitId)).for('update');
+                const [{ latest }] = await tx.select({ latest: sql<number>`coalesce(max(${outfitGenerations.stepOrder}), 0)::int` })
+                    .from(outfitGenerations)
+                    .where(eq(outfitGenerations.outfitId, outfitId));
+
+                await tx.insert(outfitGenerations).values({ ...step, stepOrder: latest + 1 });
+                return latest + 1;
+            });
+        }
 
         // Update outfit's updatedAt
-        await db.update(outfits)
+        await executor.update(outfits)
             .set({ updatedAt: new Date() })
             .where(eq(outfits.id, outfitId));
 
         logger.info({ userId, outfitId, stepOrder }, 'Outfit generation saved');
 
-        return uploadedUrl;
+        return image.imageUrl;
     }
 
     /**
-     * Save generated image (background - for regular mode)
+     * Save an uploaded image as a look (for regular mode)
      */
-    private saveGeneratedImageBackground(base64: string, userId: string, productUrl?: string, productName?: string, baseImageUrl?: string) {
-        (async () => {
-            try {
-                const buffer = Buffer.from(base64, 'base64');
-                const fileName = `generated/${uuidv4()}.jpg`;
-                const uploadedUrl = await uploadFile(buffer, fileName, 'image/jpeg', true);
-
-                // Insert into looks table so it appears in wardrobe/profile
-                await db.insert(looks).values({
-                    userId,
-                    productUrl: productUrl || null,
-                    productName: productName || 'Clothing Item',
-                    generatedImageUrl: uploadedUrl,
-                    baseImageUrl: baseImageUrl || null,
-                    isPublic: false, // Default to private
-                });
-
-                logger.info({ userId }, 'Background image save complete');
-            } catch (error: any) {
-                logger.error({ userId, error: error.message }, 'Background image save failed');
-            }
-        })();
+    private async saveGeneratedLook(
+        image: UploadedImage,
+        userId: string,
+        productUrl?: string,
+        productName?: string,
+        baseImageUrl?: string | null,
+        jobId?: string,
+        executor: DbExecutor = db
+    ): Promise<string> {
+        // Insert into looks table so it appears in wardrobe/profile
+        const [look] = await executor.insert(looks).values({
+            userId,
+            productUrl: productUrl || null,
+            ...await this.productsService.getSnapshot(productUrl),
+            productName: productName || 'Clothing Item',
+            generatedImageUrl: image.imageUrl,
+            imageWidth: image.size?.width ?? null,
+            imageHeight: image.size?.height ?? null,
+            baseImageUrl: baseImageUrl || null,
+            jobId: jobId || null,
+            isPublic: false, // Default to private
+        }).returning({ id: looks.id });
+
+        logger.info({ userId, lookId: look.id }, 'Generated look saved');
+
+        return look.id;
     }
 }
@@ -9,15 +9,17 @@ import { authenticateUser } from '../../middleware/auth';
 import { validate } from '../../middleware/validation';
 import { Schemas } from '../../middleware/schemas';
 import { writeRateLimiter } from '../../middleware/rateLimiter';
+import { idempotent } from '../../middleware/idempotency';
+import { authenticateUserOrApiKey } from '../../middleware/apiKey';
 
 const router = Router();
 const controller = new LooksController();
 
 // Save a look (Protected)
-router.post('/save', authenticateUser, writeRateLimiter, validate(Schemas.saveLook), controller.save);
+router.post('/save', authenticateUser, writeRateLimiter, validate(Schemas.saveLook), idempotent, controller.save);
 
-// Get user's looks (Protected - wardrobe)
-router.get('/user/:userId', authenticateUser, controller.getUserLooks);
+// Get user's looks (Protected - wardrobe; API keys need 'read:looks')
+router.get('/user/:userId', authenticateUserOrApiKey('read:looks'), controller.getUserLooks);
 
 // Toggle look privacy (Protected)
 router.put('/:lookId/privacy', authenticateUser, writeRateLimiter, validate(Schemas.lookIdParam), validate(Schemas.privacy), controller.togglePrivacy);
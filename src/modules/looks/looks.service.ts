@@ -9,6 +9,7 @@ import { db } from '../../db';
 import { looks, NewLook, reactions } from '../../db/schema';
 import { uploadFile, getAuthenticatedUrls, deleteFile } from '../../storage';
 import { logger } from '../../utils/logger';
+import { ProductsService } from '../products/products.service';
 
 interface SaveLookData {
     userId: string;
@@ -21,6 +22,8 @@ interface SaveLookData {
 }
 
 export class LooksService {
+    private productsService = new ProductsService();
+
     /**
      * Save a look
      */
@@ -39,6 +42,7 @@ export class LooksService {
         const newLook: NewLook = {
             userId: data.userId,
             productUrl: data.productUrl || null,
+            ...await this.productsService.getSnapshot(data.productUrl),
             productName: data.productName || 'Generated Look',
             productImageUrl: data.productImageUrl || null,
             generatedImageUrl: finalImageUrl || null,
@@ -0,0 +1,94 @@
+/**
+ * Price Watches Controller
+ * Handles HTTP requests for price drop alerts
+ */
+
+import { Response } from 'express';
+import { PriceWatchesService } from './price-watches.service';
+import { AuthRequest } from '../../middleware/auth';
+import { logger } from '../../utils/logger';
+
+export class PriceWatchesController {
+    private service = new PriceWatchesService();
+
+    /**
+     * Watch a look's product
+     */
+    create = async (req: AuthRequest, res: Response) => {
+        try {
+            const { lookId, targetPrice } = req.body;
+
+            const watch = await this.service.createWatch(req.user.id, lookId, targetPrice);
+
+            res.status(201).json({ success: true, watch });
+        } catch (error: any) {
+            switch (error.message) {
+                case 'LOOK_NOT_FOUND':
+                    return res.status(404).json({ error: 'Look not found', code: 'LOOK_NOT_FOUND' });
+                case 'LOOK_HAS_NO_PRODUCT':
+                    return res.status(400).json({ error: 'This look has no product link to watch', code: 'LOOK_HAS_NO_PRODUCT' });
+                case 'PRICE_UNAVAILABLE':
+                    return res.status(422).json({ error: 'Could not read a price for this product', code: 'PRICE_UNAVAILABLE' });
+                case 'TARGET_NOT_BELOW_CURRENT':
+                    return res.status(400).json({ error: 'Target price must be below the current price', code: 'TARGET_NOT_BELOW_CURRENT' });
+                case 'WATCH_LIMIT_REACHED':
+                    return res.status(403).json({
+                        error: 'Price watch limit reached',
+                        code: 'WATCH_LIMIT_REACHED',
+                        message: 'Upgrade your plan to watch more products.',
+                    });
+            }
+            logger.error({ error: error.message, userId: req.user?.id }, 'Error creating price watch');
+            res.status(500).json({ error: 'Failed to watch product' });
+        }
+    };
+
+    /**
+     * List the user's price watches
+     */
+    list = async (req: AuthRequest, res: Response) => {
+        try {
+            const result = await this.service.listWatches(req.user.id);
+            res.json({ success: true, ...result });
+        } catch (error: any) {
+            logger.error({ error: error.message, userId: req.user?.id }, 'Error listing price watches');
+            res.status(500).json({ error: 'Failed to get price watches' });
+        }
+    };
+
+    /**
+     * Price history of a watched product
+     */
+    history = async (req: AuthRequest, res: Response) => {
+        try {
+            const history = await this.service.getHistory(req.user.id, req.params.watchId);
+
+            if (!history) {
+                return res.status(404).json({ error: 'Price watch not found' });
+            }
+
+            res.json({ success: true, history });
+        } catch (error: any) {
+            logger.error({ error: error.message, watchId: req.params.watchId }, 'Error fetching price history');
+            res.status(500).json({ error: 'Failed to get price history' });
+        }
+    };
+
+    /**
+     * Stop watching a product
+     */
+    delete = async (req: AuthRequest, res: Response) => {
+        try {
+            const deleted = await this.service.deleteWatch(req.user.id, req.params.watchId);
+
+            if (!deleted) {
+                return res.status(404).json({ error: 'Price watch not found' });
+            }
+
+            res.json({ success: true });
+        } catch (error: any) {
+            logger.error({ error: error.message, watchId: req.params.watchId }, 'Error deleting price watch');
+            res.status(500).json({ error: 'Failed to delete price watch' });
+        }
+    };
+}
@@ -0,0 +1,30 @@
+/**
+ * Price Watches Routes
+ * Price drop alerts for products behind saved looks
+ */
+
+import { Router } from 'express';
+import { PriceWatchesController } from './price-watches.controller';
+import { authenticateUser } from '../../middleware/auth';
+import { validate } from '../../middleware/validation';
+import { Schemas } from '../../middleware/schemas';
+import { writeRateLimiter } from '../../middleware/rateLimiter';
+
+const router = Router();
+const controller = new PriceWatchesController();
+
+router.use(authenticateUser);
+
+// Watch a look's product (limit depends on plan)
+router.post('/', writeRateLimiter, validate(Schemas.createPriceWatch), controller.create);
+
+// List watches
+router.get('/', controller.list);
+
+// Price history of a watched product
+router.get('/:watchId/history', validate(Schemas.priceWatchIdParam), controller.history);
+
+// Stop watching
+router.delete('/:watchId', writeRateLimiter, validate(Schemas.priceWatchIdParam), controller.delete);
+
+export default router;
@@ -0,0 +1,327 @@
+/**
+ * Price Watches Service
+ * Users watch a look's product; a scheduled check re-parses watched products,
+ * records their price history and emails users when the price drops.
+ */
+
+import { eq, and, or, lt, gt, isNull, desc, sql, inArray } from 'drizzle-orm';
+import { db } from '../../db';
+import { users, looks, products, priceWatches, priceHistory, Product, PriceWatch } from '../../db/schema';
+import { sendPriceDropEmail } from '../../utils/email';
+import { formatPrice } from '../../utils/price';
+import { logger } from '../../utils/logger';
+import { PRICING_PLANS } from '../credits/credits.service';
+import { isPlanActive } from '../credits/plans.service';
+import { ProductsService } from '../products/products.service';
+
+// Watches allowed without a paid plan
+const FREE_PLAN_PRICE_WATCHES = 3;
+
+// Watched products are re-parsed at most this often
+const CHECK_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+// Products checked per scheduled run (each check may cost a scrape and a Gemini call)
+const BATCH_SIZE = 20;
+
+// Price history entries returned per watch
+const HISTORY_LIMIT = 100;
+
+type PlanId = keyof typeof PRICING_PLANS;
+
+/**
+ * Number of watches the user's plan allows - a lapsed plan counts as free
+ */
+export function getPriceWatchLimit(user: { plan: string; planExpiresAt: Date | null }): number {
+    if (user.plan === 'free' || !isPlanActive(user.planExpiresAt)) {
+        return FREE_PLAN_PRICE_WATCHES;
+    }
+    return PRICING_PLANS[user.plan as PlanId]?.maxPriceWatches ?? FREE_PLAN_PRICE_WATCHES;
+}
+
+function toMajorUnits(amount: number | null): number | null {
+    return amount !== null ? amount / 100 : null;
+}
+
+export class PriceWatchesService {
+    private productsService = new ProductsService();
+
+    /**
+     * Watch the product behind one of the user's looks
+     * Watching a product that is already watched restarts it from the current price.
+     */
+    async createWatch(userId: string, lookId: string, targetPrice?: number) {
+        const look = await db.query.looks.findFirst({
+            where: and(eq(looks.id, lookId), eq(looks.userId, userId)),
+        });
+        if (!look) {
+            throw new Error('LOOK_NOT_FOUND');
+        }
+        if (!look.productUrl) {
+            throw new Error('LOOK_HAS_NO_PRODUCT');
+        }
+
+        const product = await this.resolveProduct(look.productUrl);
+        if (!product || product.priceAmount === null || !product.priceCurrency) {
+            throw new Error('PRICE_UNAVAILABLE');
+        }
+
+        const targetPriceAmount = targetPrice !== undefined ? Math.round(targetPrice * 100) : null;
+        if (targetPriceAmount !== null && targetPriceAmount >= product.priceAmount) {
+            throw new Error('TARGET_NOT_BELOW_CURRENT');
+        }
+
+        const watch = await db.transaction(async (tx) => {
+            // Lock the user so concurrent requests cannot exceed the limit
+            const [user] = await tx.select({ plan: users.plan, planExpiresAt: users.planExpiresAt })
+                .from(users)
+                .where(eq(users.id, userId))
+                .for('update');
+
+            const [existing] = await tx.select()
+                .from(priceWatches)
+                .where(and(eq(priceWatches.userId, userId), eq(priceWatches.productId, product.id)));
+
+            if (existing) {
+                const [updated] = await tx.update(priceWatches)
+                    .set({
+                        lookId,
+                        targetPriceAmount,
+                        baselinePriceAmount: product.priceAmount!,
+                        priceCurrency: product.priceCurrency!,
+                        lastNotifiedPriceAmount: null,
+                    })
+                    .where(eq(priceWatches.id, existing.id))
+                    .returning();
+                return updated;
+            }
+
+            const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` })
+                .from(priceWatches)
+                .where(eq(priceWatches.userId, userId));
+
+            if (count >= getPriceWatchLimit(user)) {
+                throw new Error('WATCH_LIMIT_REACHED');
+            }
+
+            const [created] = await tx.insert(priceWatches).values({
+                userId,
+                productId: product.id,
+                lookId,
+                targetPriceAmount,
+                baselinePriceAmount: product.priceAmount!,
+                priceCurrency: product.priceCurrency!,
+            }).returning();
+            return created;
+        });
+
+        logger.info({ userId, watchId: watch.id, productId: product.id }, 'Price watch saved');
+        return this.toPublic(watch, product);
+    }
+
+    /**
+     * The user's watches with each product's current price
+     */
+    async listWatches(userId: string) {
+        const [user, rows] = await Promise.all([
+            db.query.users.findFirst({
+                where: eq(users.id, userId),
+                columns: { plan: true, planExpiresAt: true },
+            }),
+            db.select({ watch: priceWatches, product: products })
+                .from(priceWatches)
+                .innerJoin(products, eq(priceWatches.productId, products.id))
+                .where(eq(priceWatches.userId, userId))
+                .orderBy(desc(priceWatches.createdAt)),
+        ]);
+
+        return {
+            watches: rows.map(({ watch, product }) => this.toPublic(watch, product)),
+            limit: user ? getPriceWatchLimit(user) : FREE_PLAN_PRICE_WATCHES,
+        };
+    }
+
+    /**
+     * Stop watching
+     */
+    async deleteWatch(userId: string, watchId: string): Promise<boolean> {
+        const [deleted] = await db.delete(priceWatches)
+            .where(and(eq(priceWatches.id, watchId), eq(priceWatches.userId, userId)))
+            .returning({ id: priceWatches.id });
+
+        if (deleted) {
+            logger.info({ userId, watchId }, 'Price watch deleted');
+        }
+        return !!deleted;
+    }
+
+    /**
+     * Price history of a watched product, newest first
+     */
+    async getHistory(userId: string, watchId: string) {
+        const watch = await db.query.priceWatches.findFirst({
+            where: and(eq(priceWatches.id, watchId), eq(priceWatches.userId, userId)),
+        });
+        if (!watch) return null;
+
+        const history = await db.select()
+            .from(priceHistory)
+            .where(eq(priceHistory.productId, watch.productId))
+            .orderBy(desc(priceHistory.recordedAt))
+            .limit(HISTORY_LIMIT);
+
+        return history.map(entry => ({
+            amount: toMajorUnits(entry.priceAmount),
+            currency: entry.priceCurrency,
+            originalAmount: toMajorUnits(entry.originalPriceAmount),
+            inStock: entry.inStock,
+            recordedAt: entry.recordedAt,
+        }));
+    }
+
+    /**
+     * Re-check watched products and send price drop alerts (scheduled)
+     * Products parsed recently (e.g. by another user) are evaluated without a new parse.
+     */
+    async checkWatchedProducts(): Promise<number> {
+        const now = new Date();
+        const cutoff = new Date(now.getTime() - CHECK_INTERVAL_MS);
+
+        const due = await db.selectDistinct({ id: products.id })
+            .from(products)
+            .innerJoin(priceWatches, eq(priceWatches.productId, products.id))
+            .where(or(isNull(products.priceCheckedAt), lt(products.priceCheckedAt, cutoff)))
+            .limit(BATCH_SIZE);
+
+        let sent = 0;
+        for (const { id } of due) {
+            // Mark first so a failing page is not retried every run
+            const [product] = await db.update(products)
+                .set({ priceCheckedAt: now })
+                .where(and(eq(products.id, id), or(isNull(products.priceCheckedAt), lt(products.priceCheckedAt, cutoff))))
+                .returning();
+            if (!product) continue;
+
+            try {
+                const current = product.lastParsedAt < cutoff
+                    ? await this.productsService.refresh(product)
+                    : product;
+
+                if (!current) {
+                    logger.warn({ productId: id }, 'Watched product could not be re-parsed');
+                    continue;
+                }
+
+                sent += await this.notifyPriceDrops(current);
+            } catch (error: any) {
+                logger.error({ productId: id, error: error.message }, 'Price watch check failed');
+            }
+        }
+
+        if (sent > 0) {
+            logger.info({ sent }, 'Price drop alerts sent');
+        }
+        return sent;
+    }
+
+    /**
+     * Email every watcher whose threshold the current price meets
+     * A target price notifies at or below the target; without one, any drop below the baseline notifies.
+     * Each lower price notifies once; a price back above the threshold re-arms the watch.
+     */
+    private async notifyPriceDrops(product: Product): Promise<number> {
+        const amount = product.priceAmount;
+        if (amount === null || !product.priceCurrency || product.inStock === false) return 0;
+
+        const watchers = await db.select({ watch: priceWatches, email: users.email })
+            .from(priceWatches)
+            .innerJoin(users, eq(priceWatches.userId, users.id))
+            .where(and(eq(priceWatches.productId, product.id), eq(priceWatches.priceCurrency, product.priceCurrency)));
+
+        const rearm: string[] = [];
+        let sent = 0;
+
+        for (const { watch, email } of watchers) {
+            const meetsThreshold = watch.targetPriceAmount !== null
+                ? amount <= watch.targetPriceAmount
+                : amount < watch.baselinePriceAmount;
+
+            if (!meetsThreshold) {
+                if (watch.lastNotifiedPriceAmount !== null) rearm.push(watch.id);
+                continue;
+            }
+            if (!email) continue;
+
+            // Claim first so a slow email provider never causes duplicates
+            const [claimed] = await db.update(priceWatches)
+                .set({ lastNotifiedPriceAmount: amount, lastNotifiedAt: new Date() })
+                .where(and(
+                    eq(priceWatches.id, watch.id),
+                    or(isNull(priceWatches.lastNotifiedPriceAmount), gt(priceWatches.lastNotifiedPriceAmount, amount))
+                ))
+                .returning({ id: priceWatches.id });
+            if (!claimed) continue;
+
+            const previousAmount = watch.lastNotifiedPriceAmount ?? watch.baselinePriceAmount;
+            try {
+                await sendPriceDropEmail(
+                    email,
+                    product.name,
+                    formatPrice(amount / 100, product.priceCurrency),
+                    formatPrice(previousAmount / 100, product.priceCurrency),
+                    product.url
+                );
+                sent++;
+            } catch (error: any) {
+                logger.warn({ watchId: watch.id, error: error.message }, 'Price drop alert failed');
+                // Release the claim so the next check retries this price
+                await db.update(priceWatches)
+                    .set({ lastNotifiedPriceAmount: watch.lastNotifiedPriceAmount, lastNotifiedAt: watch.lastNotifiedAt })
+                    .where(and(eq(priceWatches.id, watch.id), eq(priceWatches.lastNotifiedPriceAmount, amount)));
+            }
+        }
+
+        if (rearm.length > 0) {
+            await db.update(priceWatches)
+                .set({ lastNotifiedPriceAmount: null })
+                .where(inArray(priceWatches.id, rearm));
+        }
+
+        return sent;
+    }
+
+    /**
+     * Product for a look's link - parsed now if it has never been parsed
+     */
+    private async resolveProduct(productUrl: string): Promise<Product | null> {
+        const known = await this.productsService.findByUrl(productUrl);
+        if (known) return known;
+
+        const result = await this.productsService.parse(productUrl);
+        if (!result.success) return null;
+
+        return this.productsService.findByUrl(productUrl);
+    }
+
+    private toPublic(watch: PriceWatch, product: Product) {
+        return {
+            id: watch.id,
+            lookId: watch.lookId,
+            product: {
+                id: product.id,
+                name: product.name,
+                url: product.url,
+                imageUrl: product.imageUrls[0] ?? null,
+                price: product.price,
+                currency: product.priceCurrency,
+                amount: toMajorUnits(product.priceAmount),
+                originalAmount: toMajorUnits(product.originalPriceAmount),
+                inStock: product.inStock,
+            },
+            currency: watch.priceCurrency,
+            targetPrice: toMajorUnits(watch.targetPriceAmount),
+            baselinePrice: watch.baselinePriceAmount / 100,
+            lastNotifiedAt: watch.lastNotifiedAt,
+            createdAt: watch.createdAt,
+        };
+    }
+}
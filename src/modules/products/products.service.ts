@@ -0,0 +1,334 @@
+/**
+ * Products Service
+ * Cached product link parsing - one parse per canonical URL, shared by every user -
+ * and garment detection in uploaded photos
+ */
+
+import { eq, and, gt, lt } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../../db';
+import { products, priceHistory, parsedImages, Product } from '../../db/schema';
+import { parseProductLink, parseProductLinkForOutfit, ParseResult, OutfitParseResult, EnhancedProductInfo } from '../../linkParser';
+import { parseProductImage, garmentProductFields, DetectedGarment } from '../../imageParser';
+import { uploadFile, getAuthenticatedUrl, deleteFile } from '../../storage';
+import { cacheService } from '../../services/cache.service';
+import { CACHE_KEYS, CACHE_TTL } from '../../redis';
+import { canonicalizeProductUrl, stripTrackingParams } from '../../utils/canonicalUrl';
+import { PriceColumns, emptyProductPrice, toPriceColumns } from '../../utils/price';
+import { hashToken } from '../../utils/tokens';
+import { logger } from '../../utils/logger';
+
+type ParseMode = 'product' | 'outfit';
+
+// Garments cut from a photo can be tried on for this long, then the crops are deleted
+const PARSED_IMAGE_TTL_DAYS = 30;
+
+const PARSED_IMAGE_PURGE_BATCH = 100;
+
+export interface PhotoProduct extends EnhancedProductInfo {
+    parsedImageId: string; // Pass to generate instead of the image URLs, which expire
+    category: DetectedGarment['category'];
+    color: string | null;
+    box: DetectedGarment['box'];
+}
+
+interface CachedParse<T> {
+    result: T;
+    url: string; // URL that was fetched, reused for background refreshes
+    cachedAt: number;
+}
+
+export class ProductsService {
+    /**
+     * Parse a product link, served from cache when possible
+     */
+    async parse(url: string): Promise<ParseResult> {
+        return this.parseCached('product', url, parseProductLink);
+    }
+
+    /**
+     * Parse a product link for outfit mode, served from cache when possible
+     */
+    async parseForOutfit(url: string): Promise<OutfitParseResult> {
+        return this.parseCached('outfit', url, parseProductLinkForOutfit);
+    }
+
+    /**
+     * Find garments in an uploaded screenshot or photo
+     * Each garment is cropped, stored and returned in the same shape as a parsed link.
+     * The image URLs are signed for display; generate takes the garment's parsedImageId.
+     */
+    async parseImage(userId: string, image: Buffer) {
+        const result = await parseProductImage(image);
+        const expiresAt = new Date(Date.now() + PARSED_IMAGE_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+        const garments: PhotoProduct[] = await Promise.all(result.garments.map(async (garment) => {
+            const fields = garmentProductFields(garment);
+            const r2Url = await uploadFile(garment.crop, `parsed-images/${userId}/${uuidv4()}.jpg`, 'image/jpeg');
+            const [parsedImage] = await db.insert(parsedImages).values({
+                userId,
+                imageUrl: r2Url,
+                productName: fields.name,
+                category: garment.category,
+                expiresAt,
+            }).returning({ id: parsedImages.id });
+            const imageUrl = await getAuthenticatedUrl(r2Url);
+
+            return {
+                parsedImageId: parsedImage.id,
+                ...fields,
+                imageUrls: [imageUrl],
+                originalUrl: '',
+                classifiedImages: [{ url: imageUrl, type: garment.classification, confidence: garment.confidence }],
+                preferredImageUrl: imageUrl,
+                hasProductOnlyImages: garment.classification === 'product_only',
+                category: garment.category,
+                color: garment.color,
+                box: garment.box,
+            };
+        }));
+
+        logger.info({ userId, garments: garments.length }, 'Photo parsed');
+
+        return {
+            success: result.success,
+            error: result.error,
+            strategy: 'gemini-vision',
+            products: garments,
+            timing: result.timing,
+            tokensUsed: result.tokensUsed,
+        };
+    }
+
+    /**
+     * Image URL of a garment the user parsed from a photo, signed for the try-on to download
+     */
+    async getParsedImageUrls(userId: string, parsedImageId: string): Promise<string[]> {
+        const parsedImage = await db.query.parsedImages.findFirst({
+            where: and(
+                eq(parsedImages.id, parsedImageId),
+                eq(parsedImages.userId, userId),
+                gt(parsedImages.expiresAt, new Date())
+            ),
+        });
+        if (!parsedImage) {
+            throw new Error('PARSED_IMAGE_NOT_FOUND');
+        }
+        return [await getAuthenticatedUrl(parsedImage.imageUrl)];
+    }
+
+    /**
+     * Delete garment crops past their expiry (run by the scheduler)
+     */
+    async purgeExpiredParsedImages(): Promise<number> {
+        const expired = await db.select({ id: parsedImages.id, imageUrl: parsedImages.imageUrl })
+            .from(parsedImages)
+            .where(lt(parsedImages.expiresAt, new Date()))
+            .limit(PARSED_IMAGE_PURGE_BATCH);
+
+        let purged = 0;
+        for (const { id, imageUrl } of expired) {
+            try {
+                await deleteFile(imageUrl);
+                await db.delete(parsedImages).where(eq(parsedImages.id, id));
+                purged++;
+            } catch (error: any) {
+                logger.warn({ parsedImageId: id, error: error.message }, 'Failed to delete expired parsed image');
+            }
+        }
+
+        if (purged > 0) {
+            logger.info({ purged }, 'Expired parsed images deleted');
+        }
+        return purged;
+    }
+
+    /**
+     * Product row for a link, if it has been parsed before
+     */
+    async findByUrl(url?: string | null): Promise<Product | null> {
+        if (!url) return null;
+
+        let canonicalUrl: string;
+        try {
+            canonicalUrl = canonicalizeProductUrl(url);
+        } catch {
+            return null;
+        }
+
+        const product = await db.query.products.findFirst({
+            where: eq(products.canonicalUrl, canonicalUrl),
+        });
+
+        return product ?? null;
+    }
+
+    /**
+     * Product reference and current price to store on a look or outfit step
+     */
+    async getSnapshot(url?: string | null): Promise<{ productId: string | null } & PriceColumns> {
+        const product = await this.findByUrl(url);
+        if (!product) {
+            return { productId: null, ...toPriceColumns(emptyProductPrice()) };
+        }
+
+        return {
+            productId: product.id,
+            priceAmount: product.priceAmount,
+            priceCurrency: product.priceCurrency,
+            originalPriceAmount: product.originalPriceAmount,
+            discountPercent: product.discountPercent,
+            inStock: product.inStock,
+        };
+    }
+
+    /**
+     * Re-parse a known product, ignoring the cache (used by price watch checks)
+     * Returns the updated product, or null if the page could not be parsed.
+     */
+    async refresh(product: Product): Promise<Product | null> {
+        const urlHash = hashToken(product.canonicalUrl);
+        const result = await this.parseAndStore('product', urlHash, product.canonicalUrl, product.url, parseProductLink);
+        if (!result.success || !result.productId) return null;
+
+        const updated = await db.query.products.findFirst({
+            where: eq(products.id, result.productId),
+        });
+        return updated ?? null;
+    }
+
+    /**
+     * Fresh entries are returned as-is. Stale entries are returned immediately
+     * while one background parse refreshes them. Misses are parsed inline.
+     */
+    private async parseCached<T extends ParseResult | OutfitParseResult>(
+        mode: ParseMode,
+        rawUrl: string,
+        parser: (url: string) => Promise<T>
+    ): Promise<T> {
+        let canonicalUrl: string;
+        let fetchUrl: string;
+        try {
+            canonicalUrl = canonicalizeProductUrl(rawUrl);
+            fetchUrl = stripTrackingParams(rawUrl);
+        } catch {
+            // Let the parser report the bad URL
+            return parser(rawUrl);
+        }
+
+        const urlHash = hashToken(canonicalUrl);
+        const cached = await cacheService.get<CachedParse<T>>(CACHE_KEYS.PRODUCT_PARSE(mode, urlHash));
+
+        if (cached) {
+            const ageMs = Date.now() - cached.cachedAt;
+            if (ageMs < CACHE_TTL.PRODUCT_PARSE_FRESH * 1000) {
+                logger.debug({ canonicalUrl, mode }, 'Cache Hit: Product Parse');
+                return { ...cached.result, cacheStatus: 'hit' };
+            }
+
+            this.revalidate(mode, urlHash, canonicalUrl, cached.url, parser);
+            return { ...cached.result, cacheStatus: 'stale' };
+        }
+
+        const result = await this.parseAndStore(mode, urlHash, canonicalUrl, fetchUrl, parser);
+        return { ...result, cacheStatus: 'miss' };
+    }
+
+    /**
+     * Refresh a stale entry in the background - at most one refresh per link at a time
+     */
+    private revalidate<T extends ParseResult | OutfitParseResult>(
+        mode: ParseMode,
+        urlHash: string,
+        canonicalUrl: string,
+        fetchUrl: string,
+        parser: (url: string) => Promise<T>
+    ): void {
+        cacheService.setIfAbsent(CACHE_KEYS.PRODUCT_PARSE_REFRESH(mode, urlHash), 1, CACHE_TTL.PRODUCT_PARSE_REFRESH_LOCK)
+            .then(acquired => acquired
+                ? this.parseAndStore(mode, urlHash, canonicalUrl, fetchUrl, parser)
+                : undefined)
+            .catch(err => logger.warn({ err, canonicalUrl, mode }, 'Product parse refresh failed'));
+    }
+
+    /**
+     * Parse the link, persist the product and cache the result
+     * Failed or image-less parses are not cached, so a stale entry keeps being served over them.
+     */
+    private async parseAndStore<T extends ParseResult | OutfitParseResult>(
+        mode: ParseMode,
+        urlHash: string,
+        canonicalUrl: string,
+        fetchUrl: string,
+        parser: (url: string) => Promise<T>
+    ): Promise<T> {
+        const result = await parser(fetchUrl);
+        if (!result.success || result.product.imageUrls.length === 0) {
+            return result;
+        }
+
+        let productId: string | undefined;
+        try {
+            productId = await this.upsertProduct(canonicalUrl, fetchUrl, result);
+        } catch (error: any) {
+            logger.error({ canonicalUrl, error: error.message }, 'Failed to save product');
+        }
+
+        const stored: T = { ...result, productId };
+        await cacheService.set<CachedParse<T>>(
+            CACHE_KEYS.PRODUCT_PARSE(mode, urlHash),
+            { result: stored, url: fetchUrl, cachedAt: Date.now() },
+            CACHE_TTL.PRODUCT_PARSE
+        );
+
+        logger.info({ canonicalUrl, mode, productId, strategy: result.strategy }, 'Product parse cached');
+        return stored;
+    }
+
+    /**
+     * Insert or update the product, adding a price history row whenever the price changes
+     */
+    private async upsertProduct(canonicalUrl: string, url: string, result: ParseResult | OutfitParseResult): Promise<string> {
+        const price = toPriceColumns(result.product.pricing);
+        const values = {
+            url,
+            name: result.product.name,
+            price: result.product.price || null,
+            source: result.product.source || null,
+            imageUrls: result.product.imageUrls,
+            parseStrategy: result.strategy ?? null,
+            ...price,
+            lastParsedAt: new Date(),
+        };
+
+        return db.transaction(async (tx) => {
+            const [previous] = await tx.select()
+                .from(products)
+                .where(eq(products.canonicalUrl, canonicalUrl))
+                .for('update');
+
+            const [product] = await tx.insert(products)
+                .values({ canonicalUrl, ...values })
+                .onConflictDoUpdate({ target: products.canonicalUrl, set: values })
+                .returning({ id: products.id });
+
+            const priceChanged = !previous
+                || previous.priceAmount !== price.priceAmount
+                || previous.priceCurrency !== price.priceCurrency
+                || previous.originalPriceAmount !== price.originalPriceAmount
+                || previous.inStock !== price.inStock;
+
+            if (priceChanged && price.priceAmount !== null) {
+                await tx.insert(priceHistory).values({
+                    productId: product.id,
+                    priceAmount: price.priceAmount,
+                    priceCurrency: price.priceCurrency,
+                    originalPriceAmount: price.originalPriceAmount,
+                    inStock: price.inStock,
+                });
+            }
+
+            return product.id;
+        });
+    }
+}
@@ -2,6 +2,9 @@ import { Request, Response } from 'express';
 import { AuthRequest } from '../../middleware/auth';
 import { studioService } from './studio.service';
 import { logger } from '../../utils/logger';
+import { isRefusedFetchError } from '../../utils/safeFetch';
+import { MAX_SAMPLE_COUNT } from '../../providers/types';
+import { ASPECT_RATIOS, isAspectRatio } from '../../utils/aspectRatio';
 
 export class StudioController {
 
@@ -103,20 +106,32 @@ export class StudioController {
                 lightingCustom,
                 propsId,
                 // Model metadata for better generation
-                modelGender
+                modelGender,
+                // Candidate images to pick from
+                variants = 1,
+                // Output ratio override
+                aspectRatio
             } = req.body;
 
             if (!projectId) {
                 return res.status(400).json({ error: 'Missing required field: projectId' });
             }
 
+            if (!Number.isInteger(variants) || variants < 1 || variants > MAX_SAMPLE_COUNT) {
+                return res.status(400).json({ error: `variants must be a whole number from 1 to ${MAX_SAMPLE_COUNT}` });
+            }
+
+            if (aspectRatio !== undefined && !isAspectRatio(aspectRatio)) {
+                return res.status(400).json({ error: `aspectRatio must be one of ${ASPECT_RATIOS.join(', ')}` });
+            }
+
             let generation;
 
             if (type === 'background') {
                 if (!prompt) {
                     return res.status(400).json({ error: 'Prompt is required for background generation' });
                 }
-                generation = await studioService.generateBackground(userId, projectId, prompt, sourceImageUrl);
+                generation = await studioService.generateBackground(userId, projectId, prompt, sourceImageUrl, variants, aspectRatio);
             } else {
                 // Default to Try-On or Pose Generation
                 if (!modelUrl) {
@@ -134,13 +149,34 @@ export class StudioController {
                         lightingPresetId,
                         lightingCustom,
                         propsId,
-                        modelGender
-                    }
+                        modelGender,
+                        aspectRatio
+                    },
+                    variants
                 );
             }
 
             res.status(202).json({ generation, message: 'Generation started' });
         } catch (error: any) {
+            if (error.message === 'VARIANTS_NOT_SUPPORTED') {
+                return res.status(400).json({
+                    error: 'Variants are only available for garment try-ons and text-to-image backgrounds',
+                    code: 'VARIANTS_NOT_SUPPORTED',
+                });
+            }
+            if (error.message === 'VARIANTS_LIMIT_EXCEEDED') {
+                return res.status(403).json({
+                    error: 'Your plan does not allow this many variants per generation',
+                    code: 'VARIANTS_LIMIT_EXCEEDED',
+                });
+            }
+            if (error.message === 'INSUFFICIENT_CREDITS') {
+                return res.status(402).json({
+                    error: 'Insufficient credits',
+                    code: 'INSUFFICIENT_CREDITS',
+                    message: 'You need more credits to generate. Visit the shop to purchase more.',
+                });
+            }
             logger.error({ error: error.message }, 'Failed to start generation');
             res.status(500).json({ error: 'Failed to start generation' });
         }
@@ -187,6 +223,30 @@ export class StudioController {
             res.status(500).json({ error: 'Failed to fetch generation' });
         }
     }
+    /**
+     * Keep one candidate of a multi-variant generation as an asset
+     */
+    async selectCandidate(req: AuthRequest, res: Response) {
+        try {
+            const userId = req.user!.id;
+            const { generationId } = req.params;
+            const result = await studioService.selectCandidate(generationId, userId, req.body.candidateId);
+            res.json(result);
+        } catch (error: any) {
+            switch (error.message) {
+                case 'GENERATION_NOT_FOUND':
+                    return res.status(404).json({ error: 'Generation not found' });
+                case 'CANDIDATE_NOT_FOUND':
+                    return res.status(404).json({ error: 'Candidate not found' });
+                case 'GENERATION_NOT_COMPLETED':
+                    return res.status(409).json({ error: 'Generation has not finished yet' });
+                case 'CANDIDATE_ALREADY_SELECTED':
+                    return res.status(409).json({ error: 'Another candidate of this generation was already kept' });
+            }
+            logger.error({ error: error.message }, 'Failed to select candidate');
+            res.status(500).json({ error: 'Failed to select candidate' });
+        }
+    }
     /**
      * Get Project Assets
      */
@@ -313,6 +373,9 @@ export class StudioController {
                 generationId: result.generationId
             });
         } catch (error: any) {
+            if (isRefusedFetchError(error)) {
+                return res.status(400).json({ error: 'Transparent image could not be downloaded', code: error.message });
+            }
             logger.error({ error: error.message }, 'Failed to composite with color');
             res.status(500).json({ error: 'Failed to composite with color' });
         }
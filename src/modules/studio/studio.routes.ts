@@ -1,7 +1,10 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { studioController } from './studio.controller';
-import { authenticateUser } from '../../middleware/auth';
+import { authenticateUserOrApiKey } from '../../middleware/apiKey';
+import { idempotent } from '../../middleware/idempotency';
+import { validate } from '../../middleware/validation';
+import { Schemas } from '../../middleware/schemas';
 
 const router = Router();
 
@@ -15,15 +18,16 @@ const upload = multer({
 // Public routes (if any)
 router.get('/models', studioController.getModels);
 
-// Protected routes
-router.use(authenticateUser);
+// Protected routes (user token or API key with 'studio' scope)
+router.use(authenticateUserOrApiKey('studio'));
 router.post('/projects', studioController.createProject);
 router.patch('/projects/:projectId', studioController.updateProject);
 router.get('/projects', studioController.getUserProjects);
 router.get('/projects/:projectId/assets', studioController.getProjectAssets);
 router.get('/projects/:projectId/generations', studioController.getProjectGenerations);
-router.post('/generate', studioController.generate);
+router.post('/generate', idempotent, studioController.generate);
 router.get('/generations/:generationId', studioController.getGeneration);
+router.post('/generations/:generationId/select', validate(Schemas.studioSelectCandidate), studioController.selectCandidate);
 router.post('/assets', upload.single('file'), studioController.uploadAsset);
 router.get('/download', studioController.getDownloadUrl);
 router.post('/remove-background', studioController.removeBackground);
@@ -1,14 +1,18 @@
-import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
-import { eq, desc, and } from 'drizzle-orm';
+import { eq, desc, and, isNotNull } from 'drizzle-orm';
 import { db } from '../../db';
-import { studioProjects, studioAssets, studioGenerations, studioModels, studioModelImages, userModels, studioPoses, studioProps, studioScenePresets, studioLightingPresets } from '../../db/schema';
-import { generateVirtualTryOn, generateWithPose } from '../../gemini';
-import { generateImage, editImage } from '../../imagen';
+import { generationCandidates, studioProjects, studioAssets, studioGenerations, studioModels, studioModelImages, userModels, studioPoses, studioProps, studioScenePresets, studioLightingPresets } from '../../db/schema';
+import { getImageProvider } from '../../providers';
 import { uploadFile, getAuthenticatedUrl, getAuthenticatedUrls } from '../../storage';
 import { logger } from '../../utils/logger';
+import { isRefusedFetchError, safeFetchImage } from '../../utils/safeFetch';
+import { AspectRatio, DEFAULT_ASPECT_RATIO, fitToAspectRatio } from '../../utils/aspectRatio';
+import { CreditsService } from '../credits/credits.service';
+import { generationCandidatesService } from '../generation/generation-candidates.service';
+import { getTryOnCost } from '../generation/generation.service';
 
 export class StudioService {
+    private creditsService = new CreditsService();
 
     /**
      * Get available system models from database
@@ -120,13 +124,25 @@ export class StudioService {
             lightingCustom?: string;
             propsId?: string;
             modelGender?: string;
-        }
+            aspectRatio?: AspectRatio; // Defaults to DEFAULT_ASPECT_RATIO, as for backgrounds
+        },
+        variants: number = 1
     ) {
+        // Variants come from the final try-on, so a garment is needed
+        if (variants > 1) {
+            if (!garmentUrl) {
+                throw new Error('VARIANTS_NOT_SUPPORTED');
+            }
+            await this.assertVariantsAllowed(userId, variants);
+        }
+
         const hasPose = !!studioOptions?.poseId;
         const hasScene = !!studioOptions?.scenePresetId || !!studioOptions?.sceneCustom;
         const hasLighting = !!studioOptions?.lightingPresetId || !!studioOptions?.lightingCustom;
         const hasProps = !!studioOptions?.propsId;
         const usesPoseGeneration = hasPose || hasScene || hasLighting || hasProps;
+        const options = { ...studioOptions, aspectRatio: studioOptions?.aspectRatio ?? DEFAULT_ASPECT_RATIO };
+        const generatesImage = usesPoseGeneration || !!garmentUrl;
 
         logger.info({
             userId,
@@ -136,24 +152,27 @@ export class StudioService {
             hasScene,
             hasLighting,
             hasProps,
-            usesPoseGeneration
+            usesPoseGeneration,
+            variants
         }, 'Starting Studio Generation');
 
-        // 1. Create a pending generation record
+        // 1. Hold the credits and create a pending generation record
+        const reservation = generatesImage ? await this.reserveCredits(userId, variants) : null;
         const [generation] = await db.insert(studioGenerations).values({
             userId,
             projectId,
-            inputAssets: JSON.stringify({ modelUrl, garmentUrl, ...studioOptions }),
+            inputAssets: JSON.stringify({ modelUrl, garmentUrl, ...options, variants }),
             status: 'processing',
+            reservationId: reservation?.id ?? null,
         }).returning();
 
         // 2. Trigger Generation (Async)
         if (usesPoseGeneration) {
             // Use Imagen 3 Capability API for pose/scene/lighting
-            this.processPoseGeneration(generation.id, userId, projectId, modelUrl, garmentUrl, studioOptions);
+            this.processPoseGeneration(generation.id, userId, projectId, modelUrl, garmentUrl, options, variants);
         } else if (garmentUrl) {
             // Standard try-on
-            this.processGeneration(generation.id, userId, projectId, modelUrl, garmentUrl);
+            this.processGeneration(generation.id, userId, projectId, modelUrl, garmentUrl, variants, options.aspectRatio);
         } else {
             // No garment and no pose options - just return model
             await db.update(studioGenerations).set({
@@ -171,17 +190,27 @@ export class StudioService {
     /**
      * Generate Background Asset (or Replace Background)
      */
-    async generateBackground(userId: string, projectId: string, prompt: string, sourceImageUrl?: string) {
-        logger.info({ userId, projectId, prompt, hasSourceImage: !!sourceImageUrl }, 'Starting Background Generation');
+    async generateBackground(userId: string, projectId: string, prompt: string, sourceImageUrl?: string, variants: number = 1, aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO) {
+        // Background replacement edits one image; only text-to-image has variants
+        if (variants > 1) {
+            if (sourceImageUrl) {
+                throw new Error('VARIANTS_NOT_SUPPORTED');
+            }
+            await this.assertVariantsAllowed(userId, variants);
+        }
+
+        logger.info({ userId, projectId, prompt, hasSourceImage: !!sourceImageUrl, variants }, 'Starting Background Generation');
 
+        const reservation = await this.reserveCredits(userId, variants);
         const [generation] = await db.insert(studioGenerations).values({
             userId,
             projectId,
-            inputAssets: JSON.stringify({ prompt, type: 'background', sourceImageUrl }),
+            inputAssets: JSON.stringify({ prompt, type: 'background', sourceImageUrl, variants, aspectRatio }),
             status: 'processing',
+            reservationId: reservation.id,
         }).returning();
 
-        this.processBackgroundGeneration(generation.id, userId, projectId, prompt, sourceImageUrl);
+        this.processBackgroundGeneration(generation.id, userId, projectId, prompt, sourceImageUrl, variants, aspectRatio);
 
         return generation;
     }
@@ -189,38 +218,38 @@ export class StudioService {
     /**
      * Process Try-On Generation
      */
-    private async processGeneration(generationId: string, userId: string, projectId: string, modelUrl: string, garmentUrl: string) {
+    private async processGeneration(
+        generationId: string,
+        userId: string,
+        projectId: string,
+        modelUrl: string,
+        garmentUrl: string,
+        variants: number = 1,
+        aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
+    ) {
         try {
             // Fetch garment image
-            const garmentRes = await axios.get(garmentUrl, { responseType: 'arraybuffer' });
-            const garmentBase64 = Buffer.from(garmentRes.data).toString('base64');
+            const garment = await safeFetchImage(garmentUrl);
+            const garmentBase64 = garment.buffer.toString('base64');
 
-            const outputBase64 = await generateVirtualTryOn(
+            const outputs = await getImageProvider().virtualTryOn(
                 modelUrl,
                 [garmentBase64],
                 'Studio Garment',
-                '3:4' // Default aspect ratio
+                aspectRatio,
+                variants
             );
 
-            // 3. Upload Result
-            const buffer = Buffer.from(outputBase64, 'base64');
-            const fileName = `studio/${projectId}/${uuidv4()}.jpg`;
-            const uploadedUrl = await uploadFile(buffer, fileName, 'image/jpeg', true);
-
-            // 4. Update Generation Record
-            await db.update(studioGenerations)
-                .set({
-                    status: 'completed',
-                    outputUrl: uploadedUrl,
-                })
-                .where(eq(studioGenerations.id, generationId));
-
-            // 5. Create Asset Record
-            await db.insert(studioAssets).values({
-                userId,
-                projectId,
-                type: 'generated', // We might need to add this to enum or use 'model'/'garment'
-                url: uploadedUrl,
+            if (variants > 1) {
+                await this.completeWithCandidates(generationId, userId, projectId, outputs, modelUrl);
+                return;
+            }
+            const [outputBase64] = outputs;
+
+            // 3. Upload the result and save it as an asset
+            await this.completeWithAsset(generationId, userId, projectId, outputBase64, {
+                fileName: `studio/${projectId}/${uuidv4()}.jpg`,
+                type: 'generated',
                 name: 'Generated Look',
             });
 
@@ -228,12 +257,7 @@ export class StudioService {
 
         } catch (error: any) {
             logger.error({ generationId, error: error.message }, 'Studio Generation Failed');
-            await db.update(studioGenerations)
-                .set({
-                    status: 'failed',
-                    errorMessage: error.message,
-                })
-                .where(eq(studioGenerations.id, generationId));
+            await this.failGeneration(generationId, error.message);
         }
     }
 
@@ -255,7 +279,9 @@ export class StudioService {
             propsId?: string;
             // Model metadata for better generation
             modelGender?: string;
-        }
+            aspectRatio?: AspectRatio;
+        },
+        variants: number = 1
     ) {
         try {
             // 1. Build Scene Prompt
@@ -334,7 +360,7 @@ export class StudioService {
             }, 'Starting Imagen 3 pose generation');
 
             // 5. Call Imagen 3 Capability API for pose/scene/lighting
-            const poseOutputBase64 = await generateWithPose({
+            const poseOutputBase64 = await getImageProvider().generateWithPose({
                 modelImageUrl: modelUrl,
                 poseImageUrl,
                 scenePrompt,
@@ -348,6 +374,7 @@ export class StudioService {
                 // Pass prop metadata for style reference
                 propName,
                 propImageUrl,
+                aspectRatio: studioOptions?.aspectRatio,
             });
 
             let finalOutputBase64 = poseOutputBase64;
@@ -357,8 +384,8 @@ export class StudioService {
                 logger.info({ generationId }, 'Chaining Virtual Try-On after pose generation');
 
                 // Download garment image
-                const garmentRes = await axios.get(garmentUrl, { responseType: 'arraybuffer' });
-                const garmentBase64 = Buffer.from(garmentRes.data).toString('base64');
+                const garment = await safeFetchImage(garmentUrl);
+                const garmentBase64 = garment.buffer.toString('base64');
 
                 // Upload intermediate pose result to get a URL for try-on
                 const intermediateBuffer = Buffer.from(poseOutputBase64, 'base64');
@@ -366,35 +393,27 @@ export class StudioService {
                 const intermediateUrl = await uploadFile(intermediateBuffer, intermediateFileName, 'image/jpeg', true);
 
                 // Call Virtual Try-On with the pose-generated image
-                finalOutputBase64 = await generateVirtualTryOn(
+                const outputs = await getImageProvider().virtualTryOn(
                     intermediateUrl, // The posed model image
                     [garmentBase64],
                     'Studio Garment',
-                    '3:4'
+                    studioOptions?.aspectRatio,
+                    variants
                 );
 
                 logger.info({ generationId }, 'Virtual Try-On chaining completed');
+
+                if (variants > 1) {
+                    await this.completeWithCandidates(generationId, userId, projectId, outputs, intermediateUrl);
+                    return;
+                }
+                [finalOutputBase64] = outputs;
             }
 
-            // 7. Upload Final Result
-            const buffer = Buffer.from(finalOutputBase64, 'base64');
-            const fileName = `studio/${projectId}/${uuidv4()}.jpg`;
-            const uploadedUrl = await uploadFile(buffer, fileName, 'image/jpeg', true);
-
-            // 8. Update Generation Record
-            await db.update(studioGenerations)
-                .set({
-                    status: 'completed',
-                    outputUrl: uploadedUrl,
-                })
-                .where(eq(studioGenerations.id, generationId));
-
-            // 9. Create Asset Record
-            await db.insert(studioAssets).values({
-                userId,
-                projectId,
+            // 7. Upload the final result and save it as an asset
+            await this.completeWithAsset(generationId, userId, projectId, finalOutputBase64, {
+                fileName: `studio/${projectId}/${uuidv4()}.jpg`,
                 type: 'generated',
-                url: uploadedUrl,
                 name: garmentUrl ? 'Generated Studio Look' : 'Generated Studio Image',
             });
 
@@ -402,12 +421,7 @@ export class StudioService {
 
         } catch (error: any) {
             logger.error({ generationId, error: error.message }, 'Pose Generation Failed');
-            await db.update(studioGenerations)
-                .set({
-                    status: 'failed',
-                    errorMessage: error.message,
-                })
-                .where(eq(studioGenerations.id, generationId));
+            await this.failGeneration(generationId, error.message);
         }
     }
 
@@ -417,41 +431,40 @@ export class StudioService {
     /**
      * Process Background Generation
      */
-    private async processBackgroundGeneration(generationId: string, userId: string, projectId: string, prompt: string, sourceImageUrl?: string) {
+    private async processBackgroundGeneration(
+        generationId: string,
+        userId: string,
+        projectId: string,
+        prompt: string,
+        sourceImageUrl?: string,
+        variants: number = 1,
+        aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
+    ) {
         try {
             let base64: string;
 
             if (sourceImageUrl) {
                 // Background Replacement Mode
                 // 1. Download source image
-                const imageRes = await axios.get(sourceImageUrl, { responseType: 'arraybuffer' });
-                const imageBase64 = Buffer.from(imageRes.data).toString('base64');
+                const image = await safeFetchImage(sourceImageUrl);
+                const imageBase64 = (await fitToAspectRatio(image.buffer, aspectRatio)).toString('base64');
 
                 // 2. Call Edit Image (Background Swap)
-                const [editedBase64] = await editImage(imageBase64, prompt, 'background-swap');
+                const [editedBase64] = await getImageProvider().editImage(imageBase64, prompt, 'background-swap');
                 base64 = editedBase64;
             } else {
                 // Text-to-Image Mode
-                const [genBase64] = await generateImage(prompt, '3:4');
-                base64 = genBase64;
+                const images = await getImageProvider().generateImage(prompt, aspectRatio, variants);
+                if (variants > 1) {
+                    await this.completeWithCandidates(generationId, userId, projectId, images);
+                    return;
+                }
+                base64 = images[0];
             }
 
-            const buffer = Buffer.from(base64, 'base64');
-            const fileName = `studio/${projectId}/bg_${uuidv4()}.jpg`;
-            const uploadedUrl = await uploadFile(buffer, fileName, 'image/jpeg', true);
-
-            await db.update(studioGenerations)
-                .set({
-                    status: 'completed',
-                    outputUrl: uploadedUrl,
-                })
-                .where(eq(studioGenerations.id, generationId));
-
-            await db.insert(studioAssets).values({
-                userId,
-                projectId,
+            await this.completeWithAsset(generationId, userId, projectId, base64, {
+                fileName: `studio/${projectId}/bg_${uuidv4()}.jpg`,
                 type: 'background',
-                url: uploadedUrl,
                 name: `BG: ${prompt.substring(0, 20)}...`,
             });
 
@@ -459,12 +472,108 @@ export class StudioService {
 
         } catch (error: any) {
             logger.error({ generationId, error: error.message }, 'Background Generation Failed');
-            await db.update(studioGenerations)
-                .set({
-                    status: 'failed',
-                    errorMessage: error.message,
-                })
-                .where(eq(studioGenerations.id, generationId));
+            await this.failGeneration(generationId, error.message);
+        }
+    }
+
+    /**
+     * Throw VARIANTS_LIMIT_EXCEEDED if the user's plan allows fewer candidates per generation
+     */
+    private async assertVariantsAllowed(userId: string, variants: number) {
+        if (variants > await this.creditsService.getVariantLimit(userId)) {
+            throw new Error('VARIANTS_LIMIT_EXCEEDED');
+        }
+    }
+
+    /**
+     * Hold the credits for a generation - one per image, as for try-ons
+     * Throws INSUFFICIENT_CREDITS if the balance is too low.
+     */
+    private async reserveCredits(userId: string, variants: number) {
+        return this.creditsService.reserveCredits(
+            userId,
+            getTryOnCost(variants),
+            `Studio generation (${variants} image${variants === 1 ? '' : 's'})`
+        );
+    }
+
+    /**
+     * Finish a single-image generation - the asset is saved in the same transaction as the charge
+     */
+    private async completeWithAsset(
+        generationId: string,
+        userId: string,
+        projectId: string,
+        imageBase64: string,
+        asset: { fileName: string; type: 'generated' | 'background'; name: string }
+    ) {
+        const uploadedUrl = await uploadFile(Buffer.from(imageBase64, 'base64'), asset.fileName, 'image/jpeg', true);
+
+        try {
+            await db.transaction(async (tx) => {
+                const [generation] = await tx.update(studioGenerations)
+                    .set({ status: 'completed', outputUrl: uploadedUrl })
+                    .where(eq(studioGenerations.id, generationId))
+                    .returning({ reservationId: studioGenerations.reservationId });
+
+                await tx.insert(studioAssets).values({
+                    userId,
+                    projectId,
+                    type: asset.type,
+                    url: uploadedUrl,
+                    name: asset.name,
+                });
+
+                await this.creditsService.chargeReservation(generation.reservationId, userId, getTryOnCost(1), {}, tx);
+            });
+        } catch (error) {
+            await generationCandidatesService.discardUploads([{ imageUrl: uploadedUrl }]);
+            throw error;
+        }
+    }
+
+    /**
+     * Finish a multi-variant generation - outputs are kept as candidates and no asset is
+     * created until the user picks one. Only delivered images are charged.
+     */
+    private async completeWithCandidates(generationId: string, userId: string, projectId: string, imagesBase64: string[], baseImageUrl?: string) {
+        const images = await generationCandidatesService.uploadImages(imagesBase64, {
+            folder: `studio/${projectId}`,
+            background: true,
+        });
+
+        try {
+            await db.transaction(async (tx) => {
+                const [generation] = await tx.update(studioGenerations)
+                    .set({ status: 'completed' })
+                    .where(eq(studioGenerations.id, generationId))
+                    .returning({ reservationId: studioGenerations.reservationId });
+
+                await generationCandidatesService.insertCandidates(userId, { studioGenerationId: generationId }, images, baseImageUrl, tx);
+                await this.creditsService.chargeReservation(generation.reservationId, userId, getTryOnCost(images.length), {}, tx);
+            });
+        } catch (error) {
+            await generationCandidatesService.discardUploads(images);
+            throw error;
+        }
+
+        logger.info({ generationId, candidates: images.length }, 'Studio Generation Completed with candidates');
+    }
+
+    /**
+     * Mark a generation failed and give its credits back
+     */
+    private async failGeneration(generationId: string, errorMessage: string) {
+        const [generation] = await db.update(studioGenerations)
+            .set({
+                status: 'failed',
+                errorMessage,
+            })
+            .where(eq(studioGenerations.id, generationId))
+            .returning({ reservationId: studioGenerations.reservationId });
+
+        if (generation?.reservationId) {
+            await this.creditsService.releaseCredits(generation.reservationId, 'Studio generation failed');
         }
     }
 
@@ -510,6 +619,82 @@ export class StudioService {
             ...generation,
             r2Url: generation.outputUrl,
             outputUrl: signedOutputUrl,
+            candidates: await generationCandidatesService.getCandidatesForClient({ studioGenerationId: generation.id }),
+        };
+    }
+
+    /**
+     * Keep one candidate of a multi-variant generation as a project asset
+     * Picking the candidate that was already kept returns the same asset.
+     */
+    async selectCandidate(generationId: string, userId: string, candidateId: string) {
+        const generation = await db.query.studioGenerations.findFirst({
+            where: and(eq(studioGenerations.id, generationId), eq(studioGenerations.userId, userId)),
+        });
+        if (!generation) {
+            throw new Error('GENERATION_NOT_FOUND');
+        }
+        if (generation.status !== 'completed') {
+            throw new Error('GENERATION_NOT_COMPLETED');
+        }
+
+        const candidate = await db.query.generationCandidates.findFirst({
+            where: and(eq(generationCandidates.id, candidateId), eq(generationCandidates.studioGenerationId, generation.id)),
+        });
+        if (!candidate) {
+            throw new Error('CANDIDATE_NOT_FOUND');
+        }
+
+        const input = JSON.parse(generation.inputAssets || '{}');
+        const isBackground = input.type === 'background';
+
+        const asset = await db.transaction(async (tx) => {
+            // The generation row is locked so two picks cannot both create an asset
+            await tx.select({ id: studioGenerations.id })
+                .from(studioGenerations)
+                .where(eq(studioGenerations.id, generation.id))
+                .for('update');
+
+            const [chosen] = await tx.select()
+                .from(generationCandidates)
+                .where(and(eq(generationCandidates.studioGenerationId, generation.id), isNotNull(generationCandidates.selectedAt)));
+            if (chosen) {
+                if (chosen.id !== candidate.id) {
+                    throw new Error('CANDIDATE_ALREADY_SELECTED');
+                }
+                return chosen.studioAssetId
+                    ? await tx.query.studioAssets.findFirst({ where: eq(studioAssets.id, chosen.studioAssetId) })
+                    : undefined;
+            }
+
+            const [created] = await tx.insert(studioAssets).values({
+                userId,
+                projectId: generation.projectId,
+                type: isBackground ? 'background' : 'generated',
+                url: candidate.imageUrl,
+                name: isBackground ? `BG: ${String(input.prompt || '').substring(0, 20)}...` : 'Generated Look',
+            }).returning();
+
+            await tx.update(generationCandidates)
+                .set({ selectedAt: new Date(), studioAssetId: created.id })
+                .where(eq(generationCandidates.id, candidate.id));
+            await tx.update(studioGenerations)
+                .set({ outputUrl: candidate.imageUrl })
+                .where(eq(studioGenerations.id, generation.id));
+
+            return created;
+        });
+
+        logger.info({ generationId, candidateId, assetId: asset?.id }, 'Studio candidate selected');
+
+        // The other candidates are not needed once one is kept
+        await generationCandidatesService.discardUnselected({ studioGenerationId: generation.id }).catch((error: any) =>
+            logger.warn({ generationId, error: error.message }, 'Failed to discard unselected candidates')
+        );
+
+        return {
+            asset: asset ? { ...asset, r2Url: asset.url, url: await getAuthenticatedUrl(asset.url) } : null,
+            outputUrl: await getAuthenticatedUrl(candidate.imageUrl),
         };
     }
     /**
@@ -698,8 +883,7 @@ export class StudioService {
             logger.info({ transparentUrl, backgroundColor }, 'Starting color compositing');
 
             // Download transparent image
-            const response = await axios.get(transparentUrl, { responseType: 'arraybuffer' });
-            const foregroundBuffer = Buffer.from(response.data);
+            const { buffer: foregroundBuffer } = await safeFetchImage(transparentUrl);
 
             // Get image dimensions
             const metadata = await sharp(foregroundBuffer).metadata();
@@ -751,6 +935,7 @@ export class StudioService {
             return { signedUrl, r2Url, generationId };
         } catch (error: any) {
             logger.error({ error: error.message }, 'Failed to composite with color');
+            if (isRefusedFetchError(error)) throw error;
             throw new Error('Color compositing failed');
         }
     }
@@ -0,0 +1,478 @@
+/**
+ * Account Service
+ * Account deletion (with a grace period) and personal data export
+ */
+
+import archiver from 'archiver';
+import { once } from 'events';
+import { eq, and, or, lt, lte, isNull, isNotNull, inArray, desc, gte } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../../db';
+import {
+    users, userImages, looks, outfits, outfitGenerations, follows, reactions,
+    creditTransactions, payments, purchaseIntents, referrals, userSessions, apiKeys,
+    studioProjects, studioAssets, studioGenerations, userModels, studioPoses, studioProps,
+    studioGenerationChain, studioModelImages, dataExports, priceWatches, parsedImages, generationCandidates, DataExport,
+} from '../../db/schema';
+import { deleteFile, downloadFile, uploadRawStream, getSignedDownloadUrlForAttachment } from '../../storage';
+import { cacheService } from '../../services/cache.service';
+import { SessionService } from '../auth/session.service';
+import { logger } from '../../utils/logger';
+
+// Time the user has to change their mind before everything is purged
+const DELETION_GRACE_DAYS = 14;
+
+// How long a finished export can be downloaded
+const EXPORT_TTL_DAYS = 7;
+
+// A new export is not built while a recent one is still available
+const EXPORT_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+// Exports stuck in processing this long (crashed instance) are picked up again
+const EXPORT_STALE_MS = 30 * 60 * 1000;
+
+const PURGE_BATCH_SIZE = 20;
+const DELETE_CONCURRENCY = 10;
+
+interface StoredFile {
+    category: string; // Folder in the export zip
+    url: string;
+}
+
+export class AccountService {
+    private sessionService = new SessionService();
+
+    /**
+     * Schedule the account for deletion after the grace period
+     * Every device is signed out; signing in again during the grace period allows cancelling.
+     */
+    async requestDeletion(userId: string): Promise<{ deletionScheduledFor: Date }> {
+        const scheduledFor = new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+        const [updated] = await db.update(users)
+            .set({ deletionScheduledFor: scheduledFor })
+            .where(and(eq(users.id, userId), isNull(users.deletionScheduledFor)))
+            .returning({ deletionScheduledFor: users.deletionScheduledFor });
+
+        if (updated) {
+            await this.sessionService.revokeAllSessions(userId);
+            await cacheService.invalidateUser(userId);
+            logger.info({ userId, scheduledFor }, 'Account deletion scheduled');
+            return { deletionScheduledFor: updated.deletionScheduledFor! };
+        }
+
+        // Already scheduled - keep the original date
+        const user = await db.query.users.findFirst({
+            where: eq(users.id, userId),
+            columns: { deletionScheduledFor: true },
+        });
+        if (!user) {
+            throw new Error('USER_NOT_FOUND');
+        }
+        return { deletionScheduledFor: user.deletionScheduledFor! };
+    }
+
+    /**
+     * Cancel a scheduled deletion during the grace period
+     */
+    async cancelDeletion(userId: string): Promise<boolean> {
+        const [updated] = await db.update(users)
+            .set({ deletionScheduledFor: null })
+            .where(and(eq(users.id, userId), isNotNull(users.deletionScheduledFor)))
+            .returning({ id: users.id });
+
+        if (updated) {
+            await cacheService.invalidateUser(userId);
+            logger.info({ userId }, 'Account deletion cancelled');
+        }
+        return !!updated;
+    }
+
+    /**
+     * Purge accounts whose grace period has ended (run by the scheduler)
+     */
+    async purgeDueAccounts(): Promise<number> {
+        const due = await db.select({ id: users.id })
+            .from(users)
+            .where(lte(users.deletionScheduledFor, new Date()))
+            .limit(PURGE_BATCH_SIZE);
+
+        let purged = 0;
+        for (const { id } of due) {
+            try {
+                if (await this.purgeAccount(id)) purged++;
+            } catch (error: any) {
+                logger.error({ userId: id, error: error.message }, 'Account purge failed');
+            }
+        }
+
+        if (purged > 0) {
+            logger.info({ purged }, 'Deleted accounts purged');
+        }
+        return purged;
+    }
+
+    /**
+     * Delete every stored file, then the user row (all other rows cascade)
+     * Returns false if some files could not be deleted - the account is retried on the next run.
+     */
+    private async purgeAccount(userId: string): Promise<boolean> {
+        const files = await this.collectStoredFiles(userId);
+        const exports = await db.select({ fileUrl: dataExports.fileUrl })
+            .from(dataExports)
+            .where(and(eq(dataExports.userId, userId), isNotNull(dataExports.fileUrl)));
+
+        const urls = [...new Set([...files.map(f => f.url), ...exports.map(e => e.fileUrl!)])];
+
+        let failed = 0;
+        for (let i = 0; i < urls.length; i += DELETE_CONCURRENCY) {
+            const results = await Promise.allSettled(urls.slice(i, i + DELETE_CONCURRENCY).map(url => deleteFile(url)));
+            failed += results.filter(r => r.status === 'rejected').length;
+        }
+
+        if (failed > 0) {
+            logger.warn({ userId, failed, total: urls.length }, 'Some files could not be deleted, will retry');
+            return false;
+        }
+
+        const deleted = await db.transaction(async (tx) => {
+            // Other users' studio chains may point at this user's poses/props (no cascade on those FKs)
+            const ownPoses = tx.select({ id: studioPoses.id }).from(studioPoses).where(eq(studioPoses.userId, userId));
+            const ownProps = tx.select({ id: studioProps.id }).from(studioProps).where(eq(studioProps.userId, userId));
+            await tx.update(studioGenerationChain).set({ poseId: null }).where(inArray(studioGenerationChain.poseId, ownPoses));
+            await tx.update(studioGenerationChain).set({ propId: null }).where(inArray(studioGenerationChain.propId, ownProps));
+
+            // Re-check the schedule so a last-second cancellation wins
+            return tx.delete(users)
+                .where(and(eq(users.id, userId), lte(users.deletionScheduledFor, new Date())))
+                .returning({ id: users.id });
+        });
+
+        if (deleted.length === 0) return false;
+
+        await cacheService.invalidateUser(userId);
+        logger.info({ userId, files: urls.length }, 'Account purged');
+        return true;
+    }
+
+    /**
+     * Start a data export, or return the one already in progress / recently built
+     */
+    async requestExport(userId: string): Promise<DataExport> {
+        const recent = await db.query.dataExports.findFirst({
+            where: and(
+                eq(dataExports.userId, userId),
+                or(
+                    inArray(dataExports.status, ['pending', 'processing']),
+                    and(eq(dataExports.status, 'completed'), gte(dataExports.createdAt, new Date(Date.now() - EXPORT_COOLDOWN_MS)))
+                )
+            ),
+            orderBy: [desc(dataExports.createdAt)],
+        });
+        if (recent) return recent;
+
+        const [created] = await db.insert(dataExports).values({ userId }).returning();
+
+        // Build right away; the scheduler picks it up if this instance goes down
+        this.processExport(created.id).catch(error =>
+            logger.error({ exportId: created.id, error: error.message }, 'Data export failed')
+        );
+
+        return created;
+    }
+
+    /**
+     * Export status, with a download link once it is ready
+     */
+    async getExport(userId: string, exportId: string) {
+        const dataExport = await db.query.dataExports.findFirst({
+            where: and(eq(dataExports.id, exportId), eq(dataExports.userId, userId)),
+        });
+
+        if (!dataExport) {
+            throw new Error('EXPORT_NOT_FOUND');
+        }
+
+        const available = dataExport.status === 'completed' && !!dataExport.fileUrl
+            && (!dataExport.expiresAt || dataExport.expiresAt > new Date());
+
+        const downloadUrl = available
+            ? await getSignedDownloadUrlForAttachment(
+                dataExport.fileUrl!.replace(`r2://${process.env.R2_BUCKET_NAME}/`, ''),
+                `snatched-export-${dataExport.createdAt.toISOString().slice(0, 10)}.zip`
+            )
+            : null;
+
+        return {
+            id: dataExport.id,
+            status: available || dataExport.status !== 'completed' ? dataExport.status : 'expired',
+            sizeBytes: dataExport.sizeBytes,
+            createdAt: dataExport.createdAt,
+            completedAt: dataExport.completedAt,
+            expiresAt: dataExport.expiresAt,
+            downloadUrl,
+        };
+    }
+
+    /**
+     * Build exports that are pending or stuck (run by the scheduler)
+     */
+    async processPendingExports(): Promise<void> {
+        const staleBefore = new Date(Date.now() - EXPORT_STALE_MS);
+        const pending = await db.select({ id: dataExports.id })
+            .from(dataExports)
+            .where(or(
+                eq(dataExports.status, 'pending'),
+                and(eq(dataExports.status, 'processing'), lt(dataExports.startedAt, staleBefore))
+            ))
+            .limit(5);
+
+        for (const { id } of pending) {
+            await this.processExport(id).catch(error =>
+                logger.error({ exportId: id, error: error.message }, 'Data export failed')
+            );
+        }
+    }
+
+    /**
+     * Delete expired export zips (run by the scheduler)
+     */
+    async purgeExpiredExports(): Promise<void> {
+        const expired = await db.select({ id: dataExports.id, fileUrl: dataExports.fileUrl })
+            .from(dataExports)
+            .where(and(lt(dataExports.expiresAt, new Date()), isNotNull(dataExports.fileUrl)));
+
+        for (const { id, fileUrl } of expired) {
+            try {
+                await deleteFile(fileUrl!);
+                await db.update(dataExports).set({ fileUrl: null }).where(eq(dataExports.id, id));
+            } catch (error: any) {
+                logger.warn({ exportId: id, error: error.message }, 'Failed to delete expired export');
+            }
+        }
+    }
+
+    /**
+     * Claim and build one export
+     */
+    private async processExport(exportId: string): Promise<void> {
+        const staleBefore = new Date(Date.now() - EXPORT_STALE_MS);
+        const [claimed] = await db.update(dataExports)
+            .set({ status: 'processing', startedAt: new Date() })
+            .where(and(
+                eq(dataExports.id, exportId),
+                or(
+                    eq(dataExports.status, 'pending'),
+                    and(eq(dataExports.status, 'processing'), lt(dataExports.startedAt, staleBefore))
+                )
+            ))
+            .returning();
+
+        if (!claimed) return;
+
+        const start = Date.now();
+        try {
+            const { url: fileUrl, sizeBytes } = await this.buildArchive(claimed.userId, `exports/${claimed.userId}/${uuidv4()}.zip`);
+
+            await db.update(dataExports)
+                .set({
+                    status: 'completed',
+                    fileUrl,
+                    sizeBytes,
+                    completedAt: new Date(),
+                    expiresAt: new Date(Date.now() + EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000),
+                })
+                .where(eq(dataExports.id, exportId));
+
+            logger.info({ exportId, userId: claimed.userId, sizeBytes, duration: Date.now() - start }, 'Data export completed');
+        } catch (error: any) {
+            await db.update(dataExports)
+                .set({ status: 'failed', errorMessage: error.message })
+                .where(eq(dataExports.id, exportId));
+            throw error;
+        }
+    }
+
+    /**
+     * Zip of data.json plus every stored image, streamed to storage as it is built
+     */
+    private async buildArchive(userId: string, fileName: string): Promise<{ url: string; sizeBytes: number }> {
+        const [records, files] = await Promise.all([
+            this.collectRecords(userId),
+            this.collectStoredFiles(userId),
+        ]);
+
+        const archive = archiver('zip', { zlib: { level: 6 } });
+        const upload = uploadRawStream(archive, fileName, 'application/zip');
+
+        const missing: string[] = [];
+        try {
+            for (const [index, file] of files.entries()) {
+                let buffer: Buffer;
+                try {
+                    buffer = await downloadFile(file.url);
+                } catch {
+                    missing.push(file.url);
+                    continue;
+                }
+                const baseName = file.url.split('/').pop() || 'image.jpg';
+                // Images are already compressed - store them as-is
+                archive.append(buffer, { name: `images/${file.category}/${index + 1}_${baseName}`, store: true });
+                // Wait until the image is written out so only one is held in memory
+                await Promise.race([once(archive, 'entry'), upload]);
+            }
+
+            archive.append(JSON.stringify({ exportedAt: new Date().toISOString(), ...records, missingFiles: missing }, null, 2), { name: 'data.json' });
+            await archive.finalize();
+        } catch (error: any) {
+            // Fails the upload too, which aborts the multipart upload
+            archive.destroy(error);
+            await upload.catch(() => undefined);
+            throw error;
+        }
+
+        const result = await upload;
+        if (missing.length > 0) {
+            logger.warn({ userId, missing: missing.length }, 'Some files were missing from the export');
+        }
+        return result;
+    }
+
+    /**
+     * Everything stored about the user, minus secrets (token and key hashes)
+     */
+    private async collectRecords(userId: string) {
+        const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+        if (!user) {
+            throw new Error('USER_NOT_FOUND');
+        }
+
+        const userOutfits = await db.query.outfits.findMany({ where: eq(outfits.userId, userId) });
+        const outfitIds = userOutfits.map(o => o.id);
+        const projects = await db.query.studioProjects.findMany({ where: eq(studioProjects.userId, userId) });
+
+        const [
+            images, userLooks, steps, following, followers, userReactions, transactions,
+            userPayments, intents, userReferrals, sessions, keys, assets, generations, models, poses, props, chain,
+            watches, garmentPhotos, candidates,
+        ] = await Promise.all([
+            db.query.userImages.findMany({ where: eq(userImages.userId, userId) }),
+            db.query.looks.findMany({ where: eq(looks.userId, userId) }),
+            outfitIds.length > 0 ? db.query.outfitGenerations.findMany({ where: inArray(outfitGenerations.outfitId, outfitIds) }) : [],
+            db.select({ userId: follows.followingId, createdAt: follows.createdAt }).from(follows).where(eq(follows.followerId, userId)),
+            db.select({ userId: follows.followerId, createdAt: follows.createdAt }).from(follows).where(eq(follows.followingId, userId)),
+            db.query.reactions.findMany({ where: eq(reactions.userId, userId) }),
+            db.query.creditTransactions.findMany({ where: eq(creditTransactions.userId, userId) }),
+            db.query.payments.findMany({ where: eq(payments.userId, userId) }),
+            db.query.purchaseIntents.findMany({ where: eq(purchaseIntents.userId, userId) }),
+            db.query.referrals.findMany({
+                where: or(eq(referrals.referrerId, userId), eq(referrals.refereeId, userId)),
+                columns: { id: true, referrerId: true, refereeId: true, code: true, status: true, createdAt: true, rewardedAt: true },
+            }),
+            db.query.userSessions.findMany({ where: eq(userSessions.userId, userId) }),
+            db.query.apiKeys.findMany({
+                where: eq(apiKeys.userId, userId),
+                columns: { keyHash: false },
+            }),
+            db.query.studioAssets.findMany({ where: eq(studioAssets.userId, userId) }),
+            db.query.studioGenerations.findMany({ where: eq(studioGenerations.userId, userId) }),
+            db.query.userModels.findMany({ where: eq(userModels.userId, userId) }),
+            db.query.studioPoses.findMany({ where: eq(studioPoses.userId, userId) }),
+            db.query.studioProps.findMany({ where: eq(studioProps.userId, userId) }),
+            db.query.studioGenerationChain.findMany({ where: eq(studioGenerationChain.userId, userId) }),
+            db.query.priceWatches.findMany({ where: eq(priceWatches.userId, userId) }),
+            db.query.parsedImages.findMany({ where: eq(parsedImages.userId, userId) }),
+            db.query.generationCandidates.findMany({ where: eq(generationCandidates.userId, userId) }),
+        ]);
+
+        return {
+            user,
+            bodyPhotos: images,
+            looks: userLooks,
+            outfits: userOutfits.map(outfit => ({ ...outfit, steps: steps.filter(s => s.outfitId === outfit.id) })),
+            following,
+            followers,
+            reactions: userReactions,
+            creditTransactions: transactions,
+            payments: userPayments,
+            purchaseIntents: intents,
+            referrals: userReferrals,
+            sessions,
+            apiKeys: keys,
+            priceWatches: watches,
+            parsedImages: garmentPhotos,
+            generationCandidates: candidates,
+            studio: { projects, assets, generations, models, poses, props, generationChain: chain },
+        };
+    }
+
+    /**
+     * Every R2 object the user owns
+     * Stock studio files (model images, stock poses/props) can appear in a user's rows and are excluded.
+     */
+    private async collectStoredFiles(userId: string): Promise<StoredFile[]> {
+        const [
+            user, images, userLooks, steps, projects, assets, generations, models, poses, props, chain, crops, variants,
+            stockModelImages, stockPoses, stockProps,
+        ] = await Promise.all([
+            db.query.users.findFirst({ where: eq(users.id, userId), columns: { bodyPhotoUrl: true, profilePhotoUrl: true } }),
+            db.select({ url: userImages.imageUrl }).from(userImages).where(eq(userImages.userId, userId)),
+            db.select({ generated: looks.generatedImageUrl, base: looks.baseImageUrl }).from(looks).where(eq(looks.userId, userId)),
+            db.select({ url: outfitGenerations.generatedImageUrl })
+                .from(outfitGenerations)
+                .innerJoin(outfits, eq(outfits.id, outfitGenerations.outfitId))
+                .where(eq(outfits.userId, userId)),
+            db.select({ url: studioProjects.coverImageUrl }).from(studioProjects).where(eq(studioProjects.userId, userId)),
+            db.select({ url: studioAssets.url }).from(studioAssets).where(eq(studioAssets.userId, userId)),
+            db.select({ output: studioGenerations.outputUrl, transparent: studioGenerations.transparentUrl })
+                .from(studioGenerations).where(eq(studioGenerations.userId, userId)),
+            db.select({ url: userModels.url }).from(userModels).where(eq(userModels.userId, userId)),
+            db.select({ thumbnail: studioPoses.thumbnailUrl, control: studioPoses.controlImageUrl })
+                .from(studioPoses).where(eq(studioPoses.userId, userId)),
+            db.select({ thumbnail: studioProps.thumbnailUrl, image: studioProps.imageUrl })
+                .from(studioProps).where(eq(studioProps.userId, userId)),
+            db.select({ output: studioGenerationChain.outputUrl, sceneReference: studioGenerationChain.sceneReferenceUrl })
+                .from(studioGenerationChain).where(eq(studioGenerationChain.userId, userId)),
+            db.select({ url: parsedImages.imageUrl }).from(parsedImages).where(eq(parsedImages.userId, userId)),
+            db.select({ url: generationCandidates.imageUrl }).from(generationCandidates).where(eq(generationCandidates.userId, userId)),
+            db.select({ url: studioModelImages.url }).from(studioModelImages),
+            db.select({ thumbnail: studioPoses.thumbnailUrl, control: studioPoses.controlImageUrl })
+                .from(studioPoses).where(isNull(studioPoses.userId)),
+            db.select({ thumbnail: studioProps.thumbnailUrl, image: studioProps.imageUrl })
+                .from(studioProps).where(isNull(studioProps.userId)),
+        ]);
+
+        const shared = new Set<string | null>([
+            ...stockModelImages.map(m => m.url),
+            ...stockPoses.flatMap(p => [p.thumbnail, p.control]),
+            ...stockProps.flatMap(p => [p.thumbnail, p.image]),
+        ]);
+
+        const candidates: Array<[string, string | null | undefined]> = [
+            ['profile', user?.bodyPhotoUrl],
+            ['profile', user?.profilePhotoUrl],
+            ...images.map(i => ['body-photos', i.url] as [string, string]),
+            ...userLooks.flatMap(l => [['looks', l.generated], ['looks', l.base]] as Array<[string, string | null]>),
+            ...steps.map(s => ['outfits', s.url] as [string, string]),
+            ...projects.map(p => ['studio', p.url] as [string, string | null]),
+            ...assets.map(a => ['studio', a.url] as [string, string]),
+            ...generations.flatMap(g => [['studio', g.output], ['studio', g.transparent]] as Array<[string, string | null]>),
+            ...models.map(m => ['studio', m.url] as [string, string]),
+            ...poses.flatMap(p => [['studio', p.thumbnail], ['studio', p.control]] as Array<[string, string | null]>),
+            ...props.flatMap(p => [['studio', p.thumbnail], ['studio', p.image]] as Array<[string, string | null]>),
+            ...chain.flatMap(c => [['studio', c.output], ['studio', c.sceneReference]] as Array<[string, string | null]>),
+            ...crops.map(c => ['parsed-images', c.url] as [string, string]),
+            ...variants.map(v => ['candidates', v.url] as [string, string]),
+        ];
+
+        const seen = new Set<string>();
+        const files: StoredFile[] = [];
+        for (const [category, url] of candidates) {
+            // Only our own bucket - product images and Google avatars are external URLs
+            if (!url || !url.startsWith('r2://') || shared.has(url) || seen.has(url)) continue;
+            seen.add(url);
+            files.push({ category, url });
+        }
+        return files;
+    }
+}
@@ -5,6 +5,7 @@
 
 import { Request, Response } from 'express';
 import { UsersService } from './users.service';
+import { AccountService } from './account.service';
 import { AuthRequest } from '../../middleware/auth';
 import { logger } from '../../utils/logger';
 
@@ -16,6 +17,7 @@ function sanitizeErrorDetails(error: any): string | undefined {
 
 export class UsersController {
     private service = new UsersService();
+    private accountService = new AccountService();
 
     /**
      * Create new user with body photo
@@ -221,4 +223,106 @@ export class UsersController {
             res.status(500).json({ error: 'Failed to delete image' });
         }
     };
+
+    /**
+     * Schedule account deletion (purged after the grace period)
+     */
+    deleteAccount = async (req: AuthRequest, res: Response) => {
+        try {
+            const { userId } = req.params;
+
+            // SECURITY: Verify authenticated user owns this account
+            if (req.user?.id !== userId) {
+                return res.status(403).json({ error: 'Not authorized to delete this account' });
+            }
+
+            const { deletionScheduledFor } = await this.accountService.requestDeletion(userId);
+
+            res.json({
+                success: true,
+                deletionScheduledFor,
+                message: 'Your account and all your photos will be permanently deleted on this date. You can cancel until then.',
+            });
+        } catch (error: any) {
+            if (error.message === 'USER_NOT_FOUND') {
+                return res.status(404).json({ error: 'User not found' });
+            }
+            logger.error({ error: error.message, userId: req.params.userId }, 'Error scheduling account deletion');
+            res.status(500).json({ error: 'Failed to delete account' });
+        }
+    };
+
+    /**
+     * Cancel a scheduled account deletion
+     */
+    cancelDeletion = async (req: AuthRequest, res: Response) => {
+        try {
+            const { userId } = req.params;
+
+            // SECURITY: Verify authenticated user owns this account
+            if (req.user?.id !== userId) {
+                return res.status(403).json({ error: 'Not authorized to modify this account' });
+            }
+
+            const cancelled = await this.accountService.cancelDeletion(userId);
+
+            if (!cancelled) {
+                return res.status(400).json({ error: 'Account is not scheduled for deletion', code: 'DELETION_NOT_SCHEDULED' });
+            }
+
+            res.json({ success: true });
+        } catch (error: any) {
+            logger.error({ error: error.message, userId: req.params.userId }, 'Error cancelling account deletion');
+            res.status(500).json({ error: 'Failed to cancel account deletion' });
+        }
+    };
+
+    /**
+     * Start a data export (zip of images + records)
+     */
+    requestExport = async (req: AuthRequest, res: Response) => {
+        try {
+            const { userId } = req.params;
+
+            // SECURITY: Verify authenticated user owns this account
+            if (req.user?.id !== userId) {
+                return res.status(403).json({ error: 'Not authorized to export this account' });
+            }
+
+            const dataExport = await this.accountService.requestExport(userId);
+
+            res.status(202).json({
+                success: true,
+                exportId: dataExport.id,
+                status: dataExport.status,
+                createdAt: dataExport.createdAt,
+            });
+        } catch (error: any) {
+            logger.error({ error: error.message, userId: req.params.userId }, 'Error requesting data export');
+            res.status(500).json({ error: 'Failed to start data export' });
+        }
+    };
+
+    /**
+     * Data export status and download link
+     */
+    getExport = async (req: AuthRequest, res: Response) => {
+        try {
+            const { userId, exportId } = req.params;
+
+            // SECURITY: Verify authenticated user owns this account
+            if (req.user?.id !== userId) {
+                return res.status(403).json({ error: 'Not authorized to view this export' });
+            }
+
+            const dataExport = await this.accountService.getExport(userId, exportId);
+            res.json(dataExport);
+        } catch (error: any) {
+            if (error.message === 'EXPORT_NOT_FOUND') {
+                return res.status(404).json({ error: 'Export not found' });
+            }
+            logger.error({ error: error.message, userId: req.params.userId }, 'Error getting data export');
+            res.status(500).json({ error: 'Failed to get data export' });
+        }
+    };
 }
@@ -10,6 +10,7 @@ import { authenticateUser } from '../../middleware/auth';
 import { validate } from '../../middleware/validation';
 import { Schemas } from '../../middleware/schemas';
 import { writeRateLimiter } from '../../middleware/rateLimiter';
+import { idempotent } from '../../middleware/idempotency';
 
 const router = Router();
 const controller = new UsersController();
@@ -38,8 +39,14 @@ router.get('/check-username/:username', authenticateUser, controller.checkUserna
 
 // Image gallery endpoints
 router.get('/:userId/images', authenticateUser, controller.getImages);
-router.post('/:userId/images', authenticateUser, writeRateLimiter, upload.single('bodyPhoto'), validate(Schemas.uploadUserImage), controller.uploadImage);
+router.post('/:userId/images', authenticateUser, writeRateLimiter, upload.single('bodyPhoto'), validate(Schemas.uploadUserImage), idempotent, controller.uploadImage);
 router.put('/:userId/images/:imageId/active', authenticateUser, writeRateLimiter, validate(Schemas.imageIdParam), controller.setActiveImage);
 router.delete('/:userId/images/:imageId', authenticateUser, writeRateLimiter, validate(Schemas.imageIdParam), controller.deleteImage);
 
+// Account deletion (after a grace period) and data export
+router.delete('/:userId', authenticateUser, writeRateLimiter, validate(Schemas.userIdParam), controller.deleteAccount);
+router.post('/:userId/deletion/cancel', authenticateUser, writeRateLimiter, validate(Schemas.userIdParam), controller.cancelDeletion);
+router.post('/:userId/export', authenticateUser, writeRateLimiter, validate(Schemas.userIdParam), controller.requestExport);
+router.get('/:userId/export/:exportId', authenticateUser, validate(Schemas.exportIdParam), controller.getExport);
+
 export default router;
@@ -0,0 +1,42 @@
+/**
+ * Image Generation Providers
+ * Selected with IMAGE_PROVIDER: "vertex" (default) or "local" (deterministic fake, no Google Cloud)
+ */
+
+import { logger } from '../utils/logger';
+import { ImageGenerationProvider } from './types';
+import { VertexImageProvider } from './vertex.provider';
+import { LocalImageProvider } from './local.provider';
+
+export * from './types';
+
+let provider: ImageGenerationProvider | null = null;
+
+/**
+ * Get the configured provider (created once per process)
+ */
+export function getImageProvider(): ImageGenerationProvider {
+    if (provider) return provider;
+
+    const name = (process.env.IMAGE_PROVIDER || 'vertex').toLowerCase();
+    switch (name) {
+        case 'vertex':
+            provider = new VertexImageProvider();
+            break;
+        case 'local':
+            provider = new LocalImageProvider();
+            break;
+        default:
+            throw new Error(`Unknown IMAGE_PROVIDER: ${name}`);
+    }
+
+    logger.info({ provider: provider.name }, 'Image generation provider selected');
+    return provider;
+}
+
+/**
+ * Override the provider (tests)
+ */
+export function setImageProvider(override: ImageGenerationProvider | null): void {
+    provider = override;
+}
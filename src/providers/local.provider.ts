@@ -0,0 +1,136 @@
+/**
+ * Local Provider
+ * Deterministic fake for development and tests - no Google Cloud needed.
+ * Output depends only on the inputs, so the same request always yields the same image.
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { getAuthenticatedUrl } from '../storage';
+import { logger } from '../utils/logger';
+import { safeFetchImage } from '../utils/safeFetch';
+import { fitToAspectRatio } from '../utils/aspectRatio';
+import { ImageGenerationProvider, ImageEditMode, PoseGenerationOptions, UpscaleFactor } from './types';
+
+// Long edge of generated images
+const OUTPUT_SIZE = 1024;
+
+// Garment is pasted over the torso: this fraction of the person's width, starting this far down
+const GARMENT_WIDTH_RATIO = 0.5;
+const GARMENT_TOP_RATIO = 0.22;
+
+// Extra downward shift of the garment for each additional sample
+const SAMPLE_OFFSET_RATIO = 0.02;
+
+export class LocalImageProvider implements ImageGenerationProvider {
+    readonly name = 'local';
+
+    async virtualTryOn(personImageUrl: string, productBase64s: string[], productName: string, aspectRatio?: string, sampleCount: number = 1) {
+        if (productBase64s.length === 0) {
+            throw new Error('No product images provided');
+        }
+
+        const photo = await downloadImage(personImageUrl);
+        const { data: person, info: { width, height } } = await sharp(aspectRatio ? await fitToAspectRatio(photo, aspectRatio) : photo)
+            .rotate()
+            .resize(OUTPUT_SIZE, OUTPUT_SIZE, { fit: 'inside' })
+            .toBuffer({ resolveWithObject: true });
+
+        const garmentWidth = Math.round(width * GARMENT_WIDTH_RATIO);
+        const garment = await sharp(Buffer.from(productBase64s[0], 'base64'))
+            .resize({ width: garmentWidth, height: Math.round(height * 0.6), fit: 'inside' })
+            .png()
+            .toBuffer();
+        const garmentMeta = await sharp(garment).metadata();
+
+        logger.info({ provider: this.name, productName, aspectRatio, sampleCount }, 'Local try-on composite');
+
+        // Each sample nudges the garment down a little so candidates are distinguishable
+        const images: string[] = [];
+        for (let i = 0; i < sampleCount; i++) {
+            const output = await sharp(person)
+                .composite([{
+                    input: garment,
+                    left: Math.round((width - (garmentMeta.width || garmentWidth)) / 2),
+                    top: Math.round(height * (GARMENT_TOP_RATIO + i * SAMPLE_OFFSET_RATIO)),
+                }])
+                .jpeg({ quality: 90 })
+                .toBuffer();
+            images.push(output.toString('base64'));
+        }
+        return images;
+    }
+
+    async generateWithPose(options: PoseGenerationOptions) {
+        const { width, height } = dimensionsFor(options.aspectRatio || '3:4');
+        const prompt = [options.poseName, options.scenePrompt, options.lightingPrompt, options.propsPrompt].filter(Boolean).join('|');
+
+        const output = await sharp(await downloadImage(options.modelImageUrl))
+            .resize(width, height, { fit: 'cover' })
+            .tint(colorFor(prompt))
+            .jpeg({ quality: 90 })
+            .toBuffer();
+
+        return output.toString('base64');
+    }
+
+    async generateImage(prompt: string, aspectRatio: string = '3:4', sampleCount: number = 1) {
+        const { width, height } = dimensionsFor(aspectRatio);
+
+        const images: string[] = [];
+        for (let i = 0; i < sampleCount; i++) {
+            const output = await sharp({
+                create: { width, height, channels: 3, background: colorFor(`${prompt}#${i}`) },
+            })
+                .jpeg({ quality: 90 })
+                .toBuffer();
+            images.push(output.toString('base64'));
+        }
+        return images;
+    }
+
+    async editImage(imageBase64: string, prompt: string, editMode: ImageEditMode = 'background-swap', _maskBase64?: string) {
+        const output = await sharp(Buffer.from(imageBase64, 'base64'))
+            .tint(colorFor(`${editMode}:${prompt}`))
+            .jpeg({ quality: 90 })
+            .toBuffer();
+        return [output.toString('base64')];
+    }
+
+    async upscaleImage(imageBase64: string, factor: UpscaleFactor = 'x2') {
+        const input = sharp(Buffer.from(imageBase64, 'base64'));
+        const { width = OUTPUT_SIZE } = await input.metadata();
+
+        const output = await input
+            .resize({ width: width * (factor === 'x3' ? 3 : 2) })
+            .jpeg({ quality: 90 })
+            .toBuffer();
+        return output.toString('base64');
+    }
+}
+
+/**
+ * Pixel size for an aspect ratio string like "3:4"
+ */
+function dimensionsFor(aspectRatio: string): { width: number; height: number } {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    if (!w || !h) return { width: Math.round(OUTPUT_SIZE * 0.75), height: OUTPUT_SIZE };
+
+    return w >= h
+        ? { width: OUTPUT_SIZE, height: Math.round(OUTPUT_SIZE * h / w) }
+        : { width: Math.round(OUTPUT_SIZE * w / h), height: OUTPUT_SIZE };
+}
+
+/**
+ * Stable colour derived from a string
+ */
+function colorFor(seed: string): { r: number; g: number; b: number } {
+    const hash = crypto.createHash('sha256').update(seed).digest();
+    return { r: hash[0], g: hash[1], b: hash[2] };
+}
+
+async function downloadImage(url: string): Promise<Buffer> {
+    const finalUrl = url.startsWith('r2://') ? await getAuthenticatedUrl(url) : url;
+    const { buffer } = await safeFetchImage(finalUrl, { timeoutMs: 15000 });
+    return buffer;
+}
@@ -0,0 +1,39 @@
+/**
+ * Image Generation Provider Types
+ */
+
+import { PoseGenerationOptions } from '../gemini';
+
+export type { PoseGenerationOptions };
+
+// Most images a provider returns from one request (Vertex AI limit)
+export const MAX_SAMPLE_COUNT = 4;
+
+export type ImageEditMode = 'background-swap' | 'inpainting' | 'outpainting';
+export type UpscaleFactor = 'x2' | 'x3';
+
+/**
+ * Backend that produces images for try-on, studio and demo flows
+ * All methods take and return raw base64 (no data: prefix) unless noted.
+ */
+export interface ImageGenerationProvider {
+    readonly name: string;
+
+    /**
+     * Dress the person in the first product image - one image per sample. personImageUrl may be an r2:// URL.
+     * The person photo is cropped or padded to aspectRatio first; without one it keeps its own shape.
+     */
+    virtualTryOn(personImageUrl: string, productBase64s: string[], productName: string, aspectRatio?: string, sampleCount?: number): Promise<string[]>;
+
+    /** Re-pose / re-light the model image */
+    generateWithPose(options: PoseGenerationOptions): Promise<string>;
+
+    /** Text-to-image */
+    generateImage(prompt: string, aspectRatio?: string, sampleCount?: number): Promise<string[]>;
+
+    /** Prompt-driven edit of an existing image */
+    editImage(imageBase64: string, prompt: string, editMode?: ImageEditMode, maskBase64?: string): Promise<string[]>;
+
+    /** Increase image resolution */
+    upscaleImage(imageBase64: string, factor?: UpscaleFactor): Promise<string>;
+}
@@ -0,0 +1,33 @@
+/**
+ * Vertex AI Provider
+ * Production provider backed by Vertex AI Virtual Try-On and Imagen
+ */
+
+import { generateVirtualTryOn, generateWithPose } from '../gemini';
+import { generateImage, editImage } from '../imagen';
+import { upscaleImage } from '../upscale';
+import { ImageGenerationProvider, ImageEditMode, PoseGenerationOptions, UpscaleFactor } from './types';
+
+export class VertexImageProvider implements ImageGenerationProvider {
+    readonly name = 'vertex';
+
+    virtualTryOn(personImageUrl: string, productBase64s: string[], productName: string, aspectRatio?: string, sampleCount: number = 1) {
+        return generateVirtualTryOn(personImageUrl, productBase64s, productName, aspectRatio, sampleCount);
+    }
+
+    generateWithPose(options: PoseGenerationOptions) {
+        return generateWithPose(options);
+    }
+
+    generateImage(prompt: string, aspectRatio: string = '3:4', sampleCount: number = 1) {
+        return generateImage(prompt, aspectRatio, sampleCount);
+    }
+
+    editImage(imageBase64: string, prompt: string, editMode: ImageEditMode = 'background-swap', maskBase64?: string) {
+        return editImage(imageBase64, prompt, editMode, maskBase64);
+    }
+
+    upscaleImage(imageBase64: string, factor: UpscaleFactor = 'x2') {
+        return upscaleImage(imageBase64, factor);
+    }
+}
@@ -15,6 +15,8 @@ console.log('✅ Upstash Redis client initialized');
  */
 export const CACHE_KEYS = {
     USER_PROFILE: (userId: string) => `user:profile:${userId}`,
+    PRODUCT_PARSE: (mode: string, urlHash: string) => `product:parse:${mode}:${urlHash}`,
+    PRODUCT_PARSE_REFRESH: (mode: string, urlHash: string) => `product:parse:refresh:${mode}:${urlHash}`,
 };
 
 /**
@@ -22,4 +24,7 @@ export const CACHE_KEYS = {
  */
 export const CACHE_TTL = {
     USER_PROFILE: 60 * 60 * 24, // 24 hours
+    PRODUCT_PARSE_FRESH: 60 * 60 * 6, // 6 hours - served as-is
+    PRODUCT_PARSE: 60 * 60 * 24 * 7, // 7 days - served stale while a refresh runs
+    PRODUCT_PARSE_REFRESH_LOCK: 60, // One background refresh per link at a time
 };
@@ -1,6 +1,7 @@
 /**
  * Script to add credits to a specific user
  * Usage: npx tsx src/scripts/add-credits.ts
+ * Prefer POST /api/admin/users/:userId/credits, which records a transaction and an audit log entry.
  */
 
 import 'dotenv/config';
@@ -0,0 +1,40 @@
+/**
+ * Script to create a promo code
+ * Usage: npx tsx src/scripts/create-promo-code.ts <CODE> <percent_off|flat_off|bonus_credits> <value> [maxRedemptions] [expiresAt] [plans]
+ * Example: npx tsx src/scripts/create-promo-code.ts LAUNCH50 percent_off 50 500 2026-12-31 basic,premium
+ */
+
+import 'dotenv/config';
+import { db } from '../db';
+import { promoCodes } from '../db/schema';
+
+const PROMO_TYPES = ['percent_off', 'flat_off', 'bonus_credits'] as const;
+
+async function createPromoCode() {
+    const [code, type, value, maxRedemptions, expiresAt, plans] = process.argv.slice(2);
+
+    if (!code || !PROMO_TYPES.includes(type as any) || !parseInt(value)) {
+        console.log('Usage: npx tsx src/scripts/create-promo-code.ts <CODE> <percent_off|flat_off|bonus_credits> <value> [maxRedemptions] [expiresAt] [plans]');
+        process.exit(1);
+    }
+
+    try {
+        const [promo] = await db.insert(promoCodes).values({
+            code: code.trim().toUpperCase(),
+            type: type as typeof PROMO_TYPES[number],
+            value: parseInt(value),
+            maxRedemptions: maxRedemptions ? parseInt(maxRedemptions) : null,
+            expiresAt: expiresAt ? new Date(expiresAt) : null,
+            planIds: plans ? plans.split(',') : null,
+        }).returning();
+
+        console.log(`✅ Created promo code ${promo.code} (${promo.type} ${promo.value})`);
+    } catch (error) {
+        console.error('❌ Error:', error);
+        process.exit(1);
+    }
+
+    process.exit(0);
+}
+
+createPromoCode();
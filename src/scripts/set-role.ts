@@ -0,0 +1,49 @@
+/**
+ * Script to set a user's staff role (use to create the first admin - later changes go through /api/admin)
+ * Usage: npx tsx src/scripts/set-role.ts <username> <user|support|admin>
+ */
+
+import 'dotenv/config';
+import { db } from '../db';
+import { users, adminAuditLog } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+const ROLES = ['user', 'support', 'admin'] as const;
+
+async function setRole() {
+    const [username, role] = process.argv.slice(2);
+
+    if (!username || !ROLES.includes(role as any)) {
+        console.log('Usage: npx tsx src/scripts/set-role.ts <username> <user|support|admin>');
+        process.exit(1);
+    }
+
+    try {
+        const [user] = await db.update(users)
+            .set({ role: role as typeof ROLES[number] })
+            .where(eq(users.username, username.replace(/^@/, '')))
+            .returning({ id: users.id, username: users.username, role: users.role });
+
+        if (!user) {
+            console.log(`❌ User @${username} not found`);
+            process.exit(1);
+        }
+
+        await db.insert(adminAuditLog).values({
+            actorId: null,
+            actorRole: 'script',
+            action: 'role.change',
+            targetUserId: user.id,
+            details: JSON.stringify({ to: user.role }),
+        });
+
+        console.log(`✅ @${user.username} is now ${user.role}`);
+    } catch (error) {
+        console.error('❌ Error:', error);
+        process.exit(1);
+    }
+
+    process.exit(0);
+}
+
+setRole();
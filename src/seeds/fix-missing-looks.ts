@@ -4,8 +4,6 @@ import { db } from '../db';
 import { users, looks } from '../db/schema';
 import { eq, sql } from 'drizzle-orm';
 import { GenerationService } from '../modules/generation/generation.service';
-import { uploadFile } from '../storage';
-import { v4 as uuidv4 } from 'uuid';
 
 // Initialize service
 const generationService = new GenerationService();
@@ -59,34 +57,23 @@ async function fixMissingLooks() {
 
             // Generate
             console.log('   Triggering AI generation...');
-            const generationResult = await generationService.generateTryOn({
+            const generationResult = await generationService.runTryOn({
                 userId: user.id,
                 productUrl: model.link,
                 productName: parseResult.product.name,
                 productImageUrls: productImages.slice(0, 3),
             });
 
-            if (generationResult.generatedImageBase64) {
-                console.log('   ✅ Generation successful (Base64 received). Saving manually...');
-
-                // Manually save to R2 and DB to ensure persistence
-                const buffer = Buffer.from(generationResult.generatedImageBase64, 'base64');
-                const fileName = `generated/${uuidv4()}.jpg`;
-                const uploadedUrl = await uploadFile(buffer, fileName, 'image/jpeg', true);
-                console.log(`   Uploaded to R2: ${uploadedUrl}`);
-
-                await db.insert(looks).values({
-                    userId: user.id,
-                    productUrl: model.link,
-                    productName: parseResult.product.name,
-                    productImageUrl: productImages[0],
-                    generatedImageUrl: uploadedUrl,
-                    isPublic: true,
-                });
-                console.log(`   ✅ Look saved to DB!`);
+            if (generationResult.lookId) {
+                console.log(`   ✅ Generation successful: ${generationResult.resultUrl}`);
 
+                // Seeded looks are public showcase looks
+                await db.update(looks)
+                    .set({ productImageUrl: productImages[0], isPublic: true })
+                    .where(eq(looks.id, generationResult.lookId));
+                console.log(`   ✅ Look saved to DB!`);
             } else {
-                console.error('   ❌ Generation returned no image data');
+                console.error('   ❌ Generation returned no look');
             }
 
         } catch (error) {
@@ -134,7 +134,7 @@ async function seedFreshData() {
 
             // Generate
             console.log('   Triggering AI generation (this may take a minute)...');
-            const generationResult = await generationService.generateTryOn({
+            const generationResult = await generationService.runTryOn({
                 userId: user.id,
                 productUrl: model.link,
                 productName: parseResult.product.name,
@@ -142,19 +142,7 @@ async function seedFreshData() {
                 // No outfitId, standard generation
             });
 
-            if (generationResult.generatedImageUrl) {
-                console.log(`   ✅ Generation complete: ${generationResult.generatedImageUrl}`);
-            } else if (generationResult.generatedImageBase64) {
-                console.log(`   ✅ Generation complete (Base64 returned)`);
-                // The service saves background/async for non-outfit mode usually, 
-                // but we want to ensure it's saved for the seed.
-                // Actually generationService.generateTryOn saves it in background if no outfitId.
-                // We might want to wait or check? 
-                // The service returns `generatedImageUrl` as null if background save.
-                // Let's rely on the service's background save, but maybe add a small delay or 
-                // modify the service call to force wait? 
-                // For this seed script, we can just let it run.
-            }
+            console.log(`   ✅ Generation complete: ${generationResult.resultUrl}`);
 
         } catch (error) {
             console.error(`   ❌ Error processing ${model.name}:`, error);
@@ -7,7 +7,6 @@ import { users, userImages, looks } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { uploadFile } from '../storage';
 import { GenerationService } from '../modules/generation/generation.service';
-import { v4 as uuidv4 } from 'uuid';
 
 const generationService = new GenerationService();
 
@@ -85,38 +84,24 @@ async function updateNova() {
 
         // Generate
         console.log('   Triggering AI generation...');
-        const generationResult = await generationService.generateTryOn({
+        const generationResult = await generationService.runTryOn({
             userId: user.id,
             productUrl: NOVA.link,
             productName: parseResult.product.name,
             productImageUrls: productImages.slice(0, 3),
         });
 
-        if (generationResult.generatedImageBase64) {
-            console.log('   ✅ Generation successful (Base64 received). Saving manually...');
-
-            const buffer = Buffer.from(generationResult.generatedImageBase64, 'base64');
-            const genFileName = `generated/${uuidv4()}.jpg`;
-            const uploadedUrl = await uploadFile(buffer, genFileName, 'image/jpeg', true);
-            console.log(`   Uploaded to R2: ${uploadedUrl}`);
-
-            await db.insert(looks).values({
-                userId: user.id,
-                productUrl: NOVA.link,
-                productName: parseResult.product.name,
-                productImageUrl: productImages[0],
-                generatedImageUrl: uploadedUrl,
-                isPublic: true,
-            });
+        if (generationResult.lookId) {
+            console.log(`   ✅ Generation successful: ${generationResult.resultUrl}`);
+
+            // Seeded looks are public showcase looks
+            await db.update(looks)
+                .set({ productImageUrl: productImages[0], isPublic: true })
+                .where(eq(looks.id, generationResult.lookId));
             console.log(`   ✅ Look saved to DB!`);
         } else {
-            // If background processing (which shouldn't happen if we wait, but just in case)
-            console.log('   ⚠️  Generation started in background or returned URL directly.');
-            if (generationResult.generatedImageUrl) {
-                console.log(`   ✅ URL: ${generationResult.generatedImageUrl}`);
-            }
+            console.error('   ❌ Generation returned no look');
         }
-
     } catch (error) {
         console.error('   ❌ Error:', error);
     }
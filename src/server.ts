@@ -5,20 +5,36 @@
  * All app configuration is in app.ts.
  */
 
+import { Server } from 'http';
 import app from './app';
 import { logger } from './utils/logger';
 import { authorize as authorizeB2 } from './storage';
+import { startGenerationWorker, stopGenerationWorker } from './workers/generation.worker';
+import { startScheduler, stopScheduler } from './workers/scheduler';
+import { closeBrowser } from './fetchers';
 
 const PORT = process.env.PORT || 3000;
 
+// Exit anyway if open connections or the browser have not closed by then
+const SHUTDOWN_TIMEOUT_MS = 10000;
+
+let server: Server | null = null;
+let shuttingDown = false;
+
 async function startServer() {
     try {
         // Authorize B2/R2 storage
         await authorizeB2();
         logger.info('Storage authorized');
 
+        // Start background generation worker
+        startGenerationWorker();
+
+        // Start periodic maintenance tasks
+        startScheduler();
+
         // Start listening
-        app.listen(PORT, () => {
+        server = app.listen(PORT, () => {
             logger.info({ port: PORT }, `🚀 Server is running on port ${PORT}`);
         });
     } catch (error) {
@@ -27,4 +43,40 @@ async function startServer() {
     }
 }
 
+/**
+ * Stop taking work, let open requests finish and close the shared browser
+ * Jobs still running are reclaimed by another instance once their heartbeat goes stale.
+ */
+async function shutdown(signal: NodeJS.Signals) {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info({ signal }, 'Shutting down');
+
+    setTimeout(() => {
+        logger.warn('Shutdown timed out, exiting');
+        process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS).unref();
+
+    stopGenerationWorker();
+    stopScheduler();
+
+    try {
+        await Promise.all([
+            new Promise<void>((resolve, reject) => {
+                if (!server) return resolve();
+                server.close(err => err ? reject(err) : resolve());
+            }),
+            closeBrowser(),
+        ]);
+        logger.info('Shutdown complete');
+        process.exit(0);
+    } catch (error: any) {
+        logger.error({ error: error.message }, 'Shutdown failed');
+        process.exit(1);
+    }
+}
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
+
 startServer();
@@ -81,6 +81,37 @@ export class CacheService {
             logger.warn({ err, key }, 'Redis Error: Del');
         }
     }
+
+    /**
+     * Increment a counter, setting its TTL when it is first created
+     * Returns the new value, or null on Redis errors.
+     */
+    async increment(key: string, ttlSeconds: number): Promise<number | null> {
+        try {
+            const value = await redis.incr(key);
+            if (value === 1) {
+                await redis.expire(key, ttlSeconds);
+            }
+            return value;
+        } catch (err) {
+            logger.warn({ err, key }, 'Redis Error: Incr');
+            return null;
+        }
+    }
+
+    /**
+     * Set only if the key does not exist (SET NX)
+     * Returns true if the key was set. Returns false on Redis errors so callers fail closed.
+     */
+    async setIfAbsent<T>(key: string, value: T, ttlSeconds: number): Promise<boolean> {
+        try {
+            const result = await redis.set(key, value, { nx: true, ex: ttlSeconds });
+            return result === 'OK';
+        } catch (err) {
+            logger.warn({ err, key }, 'Redis Error: Set NX');
+            return false;
+        }
+    }
 }
 
 // Singleton instance
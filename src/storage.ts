@@ -1,6 +1,10 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import {
+    S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand,
+    CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand, CompletedPart,
+} from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import sharp from 'sharp';
+import { Readable } from 'stream';
 import { logger } from './utils/logger';
 import { redis } from './redis';
 
@@ -52,6 +56,9 @@ export async function authorize(): Promise<string> {
 // Whitelist of allowed image MIME types
 const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
 
+// Optimised uploads are narrowed to this width
+const OPTIMIZED_MAX_WIDTH = 1024;
+
 export async function uploadFile(
     buffer: Buffer,
     fileName: string,
@@ -74,7 +81,7 @@ export async function uploadFile(
         if (!skipOptimization) {
             try {
                 optimizedBuffer = await sharp(buffer)
-                    .resize(1024, null, { withoutEnlargement: true })
+                    .resize(OPTIMIZED_MAX_WIDTH, null, { withoutEnlargement: true })
                     .jpeg({ quality: 80 })
                     .toBuffer();
 
@@ -131,19 +138,125 @@ export async function uploadFile(
 }
 
 /**
- * Delete file from R2
+ * Pixel size an image will have once stored by uploadFile
+ */
+export async function getStoredImageSize(buffer: Buffer, skipOptimization: boolean = false): Promise<{ width: number; height: number } | null> {
+    const { width, height } = await sharp(buffer).metadata();
+    if (!width || !height) return null;
+
+    if (skipOptimization || width <= OPTIMIZED_MAX_WIDTH) {
+        return { width, height };
+    }
+    return { width: OPTIMIZED_MAX_WIDTH, height: Math.round(height * OPTIMIZED_MAX_WIDTH / width) };
+}
+
+// Multipart parts must be at least 5 MB, except the last
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Stream a non-image file to R2 as a multipart upload, holding one part in memory at a time
+ * Returns the stored URL and the number of bytes written.
+ */
+export async function uploadRawStream(stream: Readable, fileName: string, contentType: string): Promise<{ url: string; sizeBytes: number }> {
+    const startTime = Date.now();
+    const client = getR2Client();
+    const bucket = getBucketName();
+
+    const { UploadId } = await client.send(new CreateMultipartUploadCommand({
+        Bucket: bucket,
+        Key: fileName,
+        ContentType: contentType,
+    }));
+
+    const parts: CompletedPart[] = [];
+    let pending: Buffer[] = [];
+    let pendingBytes = 0;
+    let sizeBytes = 0;
+
+    const uploadPart = async () => {
+        const PartNumber = parts.length + 1;
+        const { ETag } = await client.send(new UploadPartCommand({
+            Bucket: bucket,
+            Key: fileName,
+            UploadId,
+            PartNumber,
+            Body: Buffer.concat(pending),
+        }));
+        parts.push({ ETag, PartNumber });
+        pending = [];
+        pendingBytes = 0;
+    };
+
+    try {
+        for await (const chunk of stream) {
+            const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+            pending.push(buffer);
+            pendingBytes += buffer.length;
+            sizeBytes += buffer.length;
+            if (pendingBytes >= MULTIPART_PART_SIZE) {
+                await uploadPart();
+            }
+        }
+        // An upload needs at least one part, even an empty one
+        if (pendingBytes > 0 || parts.length === 0) {
+            await uploadPart();
+        }
+
+        await client.send(new CompleteMultipartUploadCommand({
+            Bucket: bucket,
+            Key: fileName,
+            UploadId,
+            MultipartUpload: { Parts: parts },
+        }));
+
+        logger.info({ fileName, size: sizeBytes, parts: parts.length, duration: Date.now() - startTime }, 'R2 Upload Success');
+        return { url: `r2://${bucket}/${fileName}`, sizeBytes };
+    } catch (error: any) {
+        logger.error({ fileName, error: error.message }, 'R2 Upload Failed');
+        await client.send(new AbortMultipartUploadCommand({ Bucket: bucket, Key: fileName, UploadId }))
+            .catch((abortError: any) => logger.warn({ fileName, error: abortError.message }, 'R2 multipart abort failed'));
+        throw error;
+    }
+}
+
+/**
+ * Download a stored file (r2:// URL or key)
+ */
+export async function downloadFile(fileUrl: string): Promise<Buffer> {
+    const fileKey = parseR2Url(fileUrl) ?? fileUrl;
+
+    try {
+        const response = await getR2Client().send(new GetObjectCommand({
+            Bucket: getBucketName(),
+            Key: fileKey,
+        }));
+
+        if (!response.Body) {
+            throw new Error('Empty response body');
+        }
+        return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error: any) {
+        logger.error({ fileKey, error: error.message }, '❌ R2 download error');
+        throw error;
+    }
+}
+
+/**
+ * Delete file from R2 (r2:// URL or key)
  */
 export async function deleteFile(fileName: string): Promise<void> {
+    const fileKey = parseR2Url(fileName) ?? fileName;
+
     try {
         const command = new DeleteObjectCommand({
             Bucket: getBucketName(),
-            Key: fileName,
+            Key: fileKey,
         });
 
         await getR2Client().send(command);
-        logger.info({ fileName }, '✅ R2 deleted');
+        logger.info({ fileKey }, '✅ R2 deleted');
     } catch (error: any) {
-        logger.error({ fileName, error: error.message }, '❌ R2 delete error');
+        logger.error({ fileKey, error: error.message }, '❌ R2 delete error');
         throw error;
     }
 }
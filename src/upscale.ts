@@ -1,6 +1,7 @@
 import { getVertexAccessToken } from './vertex-auth';
 import axios from 'axios';
 import { logger } from './utils/logger';
+import { safeFetchImage } from './utils/safeFetch';
 
 /**
  * Upscale an image using Vertex AI Imagen 4.0 upscale API
@@ -94,12 +95,11 @@ export async function upscaleImage(
  * Download image from URL and return as base64
  */
 export async function downloadImageAsBase64(imageUrl: string): Promise<string> {
-    const response = await axios.get(imageUrl, {
-        responseType: 'arraybuffer',
-        timeout: 30000,
+    const { buffer } = await safeFetchImage(imageUrl, {
+        timeoutMs: 30000,
         headers: {
             'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
         }
     });
-    return Buffer.from(response.data).toString('base64');
+    return buffer.toString('base64');
 }
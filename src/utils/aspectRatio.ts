@@ -0,0 +1,136 @@
+/**
+ * Aspect Ratios
+ * Ratios users pick for their photos and generations, and fitting images to them
+ */
+
+import sharp from 'sharp';
+
+export const ASPECT_RATIOS = ['9:16', '2:3', '3:4', '4:5'] as const;
+
+export type AspectRatio = typeof ASPECT_RATIOS[number];
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = '3:4';
+
+// Differences up to this fraction of an edge are cropped away; larger ones are padded so the person is not cut off
+const MAX_CROP_FRACTION = 0.1;
+
+// Strength of the blur behind padded images
+const BACKGROUND_BLUR_SIGMA = 40;
+
+export function isAspectRatio(value: unknown): value is AspectRatio {
+    return typeof value === 'string' && (ASPECT_RATIOS as readonly string[]).includes(value);
+}
+
+/**
+ * Width divided by height for a ratio like "3:4", or null if it cannot be read
+ */
+export function aspectRatioValue(aspectRatio: string): number | null {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    return w > 0 && h > 0 ? w / h : null;
+}
+
+/**
+ * Decode with EXIF rotation applied, so the measured size is the size that is shown
+ */
+async function orient(buffer: Buffer) {
+    const { data, info } = await sharp(buffer).rotate().toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+}
+
+/**
+ * Centre-crop an image to an aspect ratio
+ */
+export async function cropToAspectRatio(buffer: Buffer, aspectRatio: string): Promise<Buffer> {
+    const ratio = aspectRatioValue(aspectRatio);
+    if (!ratio) {
+        throw new Error(`Invalid aspect ratio: ${aspectRatio}`);
+    }
+
+    const { data, width, height } = await orient(buffer);
+
+    let cropWidth = width;
+    let cropHeight = height;
+    if (width / height > ratio) {
+        // Image is wider than target, crop width
+        cropWidth = Math.round(height * ratio);
+    } else {
+        // Image is taller than target, crop height
+        cropHeight = Math.round(width / ratio);
+    }
+
+    return sharp(data)
+        .extract({
+            left: Math.round((width - cropWidth) / 2),
+            top: Math.round((height - cropHeight) / 2),
+            width: cropWidth,
+            height: cropHeight,
+        })
+        .jpeg({ quality: 90 })
+        .toBuffer();
+}
+
+/**
+ * Pad an image out to an aspect ratio over a blurred, enlarged copy of itself
+ * Repeating the edge pixels instead smears stripes across the new space that generation models copy.
+ */
+export async function padToAspectRatio(buffer: Buffer, aspectRatio: string): Promise<Buffer> {
+    const ratio = aspectRatioValue(aspectRatio);
+    if (!ratio) {
+        throw new Error(`Invalid aspect ratio: ${aspectRatio}`);
+    }
+
+    const { data, width, height } = await orient(buffer);
+
+    let targetWidth = width;
+    let targetHeight = height;
+    if (width / height > ratio) {
+        // Image is wider than target, add height
+        targetHeight = Math.round(width / ratio);
+    } else {
+        // Image is taller than target, add width
+        targetWidth = Math.round(height * ratio);
+    }
+
+    const background = await sharp(data)
+        .resize(targetWidth, targetHeight, { fit: 'cover' })
+        .blur(BACKGROUND_BLUR_SIGMA)
+        .toBuffer();
+
+    return sharp(background)
+        .composite([{
+            input: data,
+            left: Math.floor((targetWidth - width) / 2),
+            top: Math.floor((targetHeight - height) / 2),
+        }])
+        .jpeg({ quality: 90 })
+        .toBuffer();
+}
+
+/**
+ * Bring an image to an aspect ratio - small differences are cropped, large ones padded
+ * An image that already has the ratio is returned unchanged.
+ */
+export async function fitToAspectRatio(buffer: Buffer, aspectRatio: string): Promise<Buffer> {
+    const ratio = aspectRatioValue(aspectRatio);
+    if (!ratio) {
+        throw new Error(`Invalid aspect ratio: ${aspectRatio}`);
+    }
+
+    const { width, height, orientation } = await sharp(buffer).metadata();
+    if (!width || !height) {
+        throw new Error('Could not read image dimensions');
+    }
+    // Orientations 5-8 are stored on their side
+    const [shownWidth, shownHeight] = orientation && orientation >= 5 ? [height, width] : [width, height];
+
+    const current = shownWidth / shownHeight;
+    if (Math.abs(current - ratio) < 0.01) {
+        return buffer;
+    }
+
+    // Share of the width (too wide) or height (too tall) a crop would remove
+    const cropFraction = current > ratio ? 1 - ratio / current : 1 - current / ratio;
+    return cropFraction <= MAX_CROP_FRACTION
+        ? cropToAspectRatio(buffer, aspectRatio)
+        : padToAspectRatio(buffer, aspectRatio);
+}
@@ -0,0 +1,61 @@
+/**
+ * Product URL canonicalization
+ * Links to the same product differ by tracking params, host aliases and trailing slashes;
+ * the canonical form is used as the cache key and the products table key.
+ */
+
+// Query params that never change which product a page shows
+// (kept conservative - stores use params like "cid" or "color" to pick a variant)
+const TRACKING_PARAMS = new Set([
+    'gclid', 'gbraid', 'wbraid', 'fbclid', 'msclkid', 'dclid', 'yclid', 'twclid', 'ttclid', 'igshid', 'srsltid',
+    '_ga', '_gl', 'mc_cid', 'mc_eid', 'ref', 'ref_', 'referrer', 'si', 'spm', 'affid', 'aff_id', 'affiliate',
+    'clickid', 'click_id', 'trk', 'rawquery', 'searchquery', 'searchrows', 'qid', 'sprefix', 'crid',
+]);
+
+const TRACKING_PREFIXES = ['utm_', 'pf_rd_', 'pd_rd_', 'hsa_', 'mkt_'];
+
+function isTrackingParam(key: string): boolean {
+    const name = key.toLowerCase();
+    return TRACKING_PARAMS.has(name) || TRACKING_PREFIXES.some(prefix => name.startsWith(prefix));
+}
+
+/**
+ * Remove tracking params and the fragment, leaving the URL otherwise as given
+ * Used for the URL that is actually fetched, so host aliases keep working.
+ */
+export function stripTrackingParams(rawUrl: string): string {
+    const url = new URL(rawUrl.trim());
+    url.hash = '';
+
+    const params = Array.from(url.searchParams.entries()).filter(([key]) => !isTrackingParam(key));
+    url.search = new URLSearchParams(params).toString();
+
+    return url.toString();
+}
+
+/**
+ * Canonical form of a product URL
+ * - https, lowercase host without "www." or "m.", default port removed
+ * - tracking params removed, remaining params sorted
+ * - fragment and trailing slash removed
+ * Throws on URLs that cannot be parsed.
+ */
+export function canonicalizeProductUrl(rawUrl: string): string {
+    const url = new URL(stripTrackingParams(rawUrl));
+
+    url.protocol = 'https:';
+    url.hostname = url.hostname.toLowerCase().replace(/^(www|m)\./, '');
+    url.port = '';
+    url.username = '';
+    url.password = '';
+
+    const params = Array.from(url.searchParams.entries())
+        .sort(([a], [b]) => a.localeCompare(b));
+    url.search = new URLSearchParams(params).toString();
+
+    if (url.pathname.length > 1) {
+        url.pathname = url.pathname.replace(/\/+$/, '');
+    }
+
+    return url.toString();
+}
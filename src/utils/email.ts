@@ -4,6 +4,7 @@
  * Handles sending transactional emails for verification, notifications, etc.
  */
 
+import crypto from 'crypto';
 import { logger } from './logger';
 
 const AUTOSEND_API_URL = 'https://api.autosend.com/v1/mails/send';
@@ -68,7 +69,7 @@ async function sendEmail(options: SendEmailOptions): Promise<boolean> {
  * Generate a 6-digit OTP code
  */
 export function generateOTP(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString();
+    return crypto.randomInt(100000, 1000000).toString();
 }
 
 /**
@@ -142,3 +143,109 @@ export async function sendVerificationEmail(email: string, code: string): Promis
         text,
     });
 }
+
+/**
+ * Wrap message content in the standard Snatched email layout
+ */
+function renderLayout(title: string, content: string): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #0a0a0a; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+    <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #0a0a0a; padding: 40px 20px;">
+        <tr>
+            <td align="center">
+                <table width="100%" max-width="480" cellpadding="0" cellspacing="0" style="background: linear-gradient(135deg, #1a1a1a 0%, #0d0d0d 100%); border-radius: 16px; border: 1px solid #333; padding: 40px;">
+                    <tr>
+                        <td align="center" style="padding-bottom: 24px;">
+                            <h1 style="margin: 0; font-size: 32px; font-weight: 700; color: #fff;">SNATCHED</h1>
+                        </td>
+                    </tr>
+                    <tr>
+                        <td align="center" style="color: #999; font-size: 16px; line-height: 1.5;">
+                            ${content}
+                        </td>
+                    </tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+</body>
+</html>
+    `.trim();
+}
+
+/**
+ * Send plan expiry reminder email
+ */
+export async function sendPlanExpiringEmail(email: string, planName: string, expiresAt: Date): Promise<boolean> {
+    const date = expiresAt.toDateString();
+    const html = renderLayout('Your plan is expiring', `
+        <p style="margin: 0 0 16px;">Your <strong style="color: #fff;">${planName}</strong> plan expires on <strong style="color: #fff;">${date}</strong>.</p>
+        <p style="margin: 0;">Renew before then to keep your plan features and credits.</p>
+    `);
+
+    return sendEmail({
+        to: { email },
+        subject: `Your Snatched ${planName} plan expires on ${date}`,
+        html,
+        text: `Your Snatched ${planName} plan expires on ${date}.\n\nRenew before then to keep your plan features and credits.`,
+    });
+}
+
+/**
+ * Send plan expired (downgraded) email
+ */
+export async function sendPlanExpiredEmail(email: string, planName: string, forfeitedCredits: number): Promise<boolean> {
+    const forfeitedLine = forfeitedCredits > 0
+        ? `${forfeitedCredits} unused credit${forfeitedCredits === 1 ? ' has' : 's have'} expired with it.`
+        : 'Your remaining credits are still available.';
+    const html = renderLayout('Your plan has expired', `
+        <p style="margin: 0 0 16px;">Your <strong style="color: #fff;">${planName}</strong> plan has expired and your account is now on the Free plan.</p>
+        <p style="margin: 0;">${forfeitedLine}</p>
+    `);
+
+    return sendEmail({
+        to: { email },
+        subject: `Your Snatched ${planName} plan has expired`,
+        html,
+        text: `Your Snatched ${planName} plan has expired and your account is now on the Free plan.\n\n${forfeitedLine}`,
+    });
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Send price drop alert for a watched product
+ * Product names come from store pages, so they are escaped.
+ */
+export async function sendPriceDropEmail(
+    email: string,
+    productName: string,
+    newPrice: string,
+    previousPrice: string,
+    productUrl: string
+): Promise<boolean> {
+    const html = renderLayout('Price drop', `
+        <p style="margin: 0 0 16px;"><strong style="color: #fff;">${escapeHtml(productName)}</strong> is now <strong style="color: #fff;">${newPrice}</strong> (was ${previousPrice}).</p>
+        <p style="margin: 0;"><a href="${escapeHtml(productUrl)}" style="color: #fff;">View the product</a></p>
+    `);
+
+    return sendEmail({
+        to: { email },
+        subject: `Price drop: ${productName} is now ${newPrice}`,
+        html,
+        text: `${productName} is now ${newPrice} (was ${previousPrice}).\n\n${productUrl}`,
+    });
+}
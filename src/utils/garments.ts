@@ -0,0 +1,45 @@
+/**
+ * Garment categories and layering
+ * Multi-garment try-ons dress the model from the inside out, one garment per step.
+ */
+
+export const GARMENT_CATEGORIES = ['bottom', 'dress', 'top', 'outerwear', 'shoes', 'accessory', 'bag'] as const;
+
+export type GarmentCategory = typeof GARMENT_CATEGORIES[number];
+
+// Categories that can appear more than once in one outfit
+const REPEATABLE_CATEGORIES: GarmentCategory[] = ['accessory'];
+
+// A dress takes the place of both a top and a bottom
+const CONFLICTS: [GarmentCategory, GarmentCategory][] = [['dress', 'top'], ['dress', 'bottom']];
+
+export function isGarmentCategory(value: unknown): value is GarmentCategory {
+    return typeof value === 'string' && (GARMENT_CATEGORIES as readonly string[]).includes(value);
+}
+
+/**
+ * Sort garments in the order they are put on (GARMENT_CATEGORIES order); ties keep the given order
+ */
+export function orderByLayer<T extends { category: GarmentCategory }>(items: T[]): T[] {
+    return items
+        .map((item, index) => ({ item, index }))
+        .sort((a, b) => GARMENT_CATEGORIES.indexOf(a.item.category) - GARMENT_CATEGORIES.indexOf(b.item.category) || a.index - b.index)
+        .map(({ item }) => item);
+}
+
+/**
+ * Why a set of garments cannot be worn together, or null if it can
+ */
+export function findLayeringConflict(categories: GarmentCategory[]): string | null {
+    for (const category of new Set(categories)) {
+        if (!REPEATABLE_CATEGORIES.includes(category) && categories.filter(c => c === category).length > 1) {
+            return `Only one ${category} can be worn at a time`;
+        }
+    }
+    for (const [a, b] of CONFLICTS) {
+        if (categories.includes(a) && categories.includes(b)) {
+            return `A ${a} cannot be combined with a ${b}`;
+        }
+    }
+    return null;
+}
@@ -1,5 +1,5 @@
-import axios from 'axios';
 import { logger } from './logger';
+import { FetchedImage, safeFetchImage } from './safeFetch';
 
 /**
  * Download product images in parallel and return them as base64 strings
@@ -16,17 +16,16 @@ export async function downloadProductImages(urls: string[]): Promise<string[]> {
     };
 
     const promises = urls.map(url =>
-        axios.get(url, {
-            responseType: 'arraybuffer',
+        safeFetchImage(url, {
             headers: browserHeaders,
-            timeout: 10000
+            timeoutMs: 10000
         })
     );
 
     const results = await Promise.allSettled(promises);
     const base64s = results
-        .filter((result): result is PromiseFulfilledResult<any> => result.status === 'fulfilled')
-        .map(result => Buffer.from(result.value.data).toString('base64'));
+        .filter((result): result is PromiseFulfilledResult<FetchedImage> => result.status === 'fulfilled')
+        .map(result => result.value.buffer.toString('base64'));
 
     if (base64s.length === 0) {
         throw new Error('Failed to download any product images');
@@ -0,0 +1,174 @@
+/**
+ * Product price parsing
+ * Turns the price data stores publish (JSON-LD offers, meta tags, display strings)
+ * into amounts that can be sorted, filtered and tracked.
+ */
+
+export interface ProductPrice {
+    amount: number | null; // Current (selling) price in major units, e.g. 2999 or 49.9
+    currency: string | null; // ISO 4217 code
+    originalAmount: number | null; // Pre-discount price, only set when higher than amount
+    discountPercent: number | null;
+    inStock: boolean | null; // null = the page did not say
+}
+
+// Symbols and spellings seen on store pages, matched case-insensitively
+const CURRENCY_ALIASES: Record<string, string> = {
+    '₹': 'INR', 'rs': 'INR', 'rs.': 'INR', 'inr': 'INR', 'rupees': 'INR',
+    '$': 'USD', 'us$': 'USD', 'usd': 'USD',
+    '€': 'EUR', 'eur': 'EUR', 'euro': 'EUR',
+    '£': 'GBP', 'gbp': 'GBP',
+};
+
+const CURRENCY_PATTERN = /₹|€|£|us\$|\$|\b(?:rs\.?|inr|usd|eur|euro|gbp|rupees)(?![a-z])/i;
+
+export function emptyProductPrice(): ProductPrice {
+    return { amount: null, currency: null, originalAmount: null, discountPercent: null, inStock: null };
+}
+
+/**
+ * ISO code for a currency code or symbol ("₹", "Rs.", "usd", "€")
+ * Symbols are only recognised for INR, USD, EUR and GBP; other three-letter codes pass through.
+ */
+export function normalizeCurrency(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    const code = value.trim().toLowerCase();
+    return CURRENCY_ALIASES[code] ?? (/^[a-z]{3}$/.test(code) ? code.toUpperCase() : null);
+}
+
+/**
+ * Numeric amount from a number or a string like "2,999", "1.299,95" or "₹ 49.90"
+ */
+export function parseAmount(value: unknown): number | null {
+    if (typeof value === 'number') {
+        return Number.isFinite(value) && value > 0 ? value : null;
+    }
+    if (typeof value !== 'string') return null;
+
+    const match = value.match(/\d[\d.,\s]*/);
+    if (!match) return null;
+
+    let digits = match[0].replace(/\s/g, '').replace(/[.,]$/, '');
+    const lastComma = digits.lastIndexOf(',');
+    const lastDot = digits.lastIndexOf('.');
+
+    if (lastComma > lastDot && /,\d{1,2}$/.test(digits)) {
+        // Decimal comma ("1.299,95" or "49,90")
+        digits = digits.replace(/\./g, '').replace(',', '.');
+    } else {
+        digits = digits.replace(/,/g, '');
+        // "1.299" with no cents is a thousands separator
+        if (/^\d{1,3}(\.\d{3})+$/.test(digits)) digits = digits.replace(/\./g, '');
+    }
+
+    const amount = parseFloat(digits);
+    return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+/**
+ * Amount and currency from a display string, e.g. "₹2,999" or "EUR 49,90"
+ */
+export function parsePriceText(text: unknown): { amount: number | null; currency: string | null } {
+    if (typeof text !== 'string') return { amount: null, currency: null };
+
+    const symbol = text.match(CURRENCY_PATTERN);
+    return {
+        amount: parseAmount(text),
+        currency: symbol ? normalizeCurrency(symbol[0]) : null,
+    };
+}
+
+/**
+ * Stock status from schema.org availability ("https://schema.org/InStock"), store flags or text
+ */
+export function parseAvailability(value: unknown): boolean | null {
+    if (typeof value === 'boolean') return value;
+    if (typeof value !== 'string' || !value.trim()) return null;
+
+    const status = value.toLowerCase().replace(/^https?:\/\/schema\.org\//, '').replace(/[^a-z]/g, '');
+    if (['instock', 'limitedavailability', 'onlineonly', 'instoreonly', 'presale', 'preorder', 'available'].includes(status)) {
+        return true;
+    }
+    if (['outofstock', 'soldout', 'discontinued', 'unavailable', 'notavailable'].includes(status)) {
+        return false;
+    }
+    return null;
+}
+
+/**
+ * Assemble a price, deriving the discount and dropping an "original" price that is not higher
+ */
+export function buildProductPrice(input: {
+    amount?: unknown;
+    currency?: unknown;
+    originalAmount?: unknown;
+    inStock?: unknown;
+}): ProductPrice {
+    const amount = parseAmount(input.amount);
+    let originalAmount = parseAmount(input.originalAmount);
+    if (amount === null || originalAmount === null || originalAmount <= amount) {
+        originalAmount = null;
+    }
+
+    return {
+        amount,
+        currency: normalizeCurrency(input.currency),
+        originalAmount,
+        discountPercent: originalAmount !== null && amount !== null
+            ? Math.round((1 - amount / originalAmount) * 100)
+            : null,
+        inStock: parseAvailability(input.inStock),
+    };
+}
+
+/**
+ * Format a numeric price the way the app shows it, e.g. "₹2,999" or "$49.90"
+ */
+export function formatPrice(amount: unknown, currency: unknown = 'INR'): string {
+    const value = typeof amount === 'string' ? parseFloat(amount.replace(/,/g, '')) : Number(amount);
+    if (!Number.isFinite(value) || value <= 0) return '';
+
+    const code = typeof currency === 'string' && /^[A-Z]{3}$/.test(currency) ? currency : 'INR';
+    return new Intl.NumberFormat(code === 'INR' ? 'en-IN' : 'en-US', {
+        style: 'currency',
+        currency: code,
+        minimumFractionDigits: Number.isInteger(value) ? 0 : 2,
+        maximumFractionDigits: 2,
+    }).format(value);
+}
+
+/**
+ * Fill the gaps in one price from another (e.g. JSON-LD first, meta tags second)
+ */
+export function mergeProductPrice(primary: ProductPrice, fallback: ProductPrice): ProductPrice {
+    if (primary.amount === null) {
+        return { ...fallback, inStock: fallback.inStock ?? primary.inStock };
+    }
+    return {
+        ...primary,
+        currency: primary.currency ?? fallback.currency,
+        inStock: primary.inStock ?? fallback.inStock,
+    };
+}
+
+export interface PriceColumns {
+    priceAmount: number | null;
+    priceCurrency: string | null;
+    originalPriceAmount: number | null;
+    discountPercent: number | null;
+    inStock: boolean | null;
+}
+
+/**
+ * Database columns for a price - amounts are stored in hundredths (paise, cents)
+ */
+export function toPriceColumns(price: ProductPrice): PriceColumns {
+    return {
+        priceAmount: price.amount !== null ? Math.round(price.amount * 100) : null,
+        priceCurrency: price.currency,
+        originalPriceAmount: price.originalAmount !== null ? Math.round(price.originalAmount * 100) : null,
+        discountPercent: price.discountPercent,
+        inStock: price.inStock,
+    };
+}
+
@@ -0,0 +1,328 @@
+/**
+ * Safe Fetch
+ * Every download of a URL that came from a client or a scraped page goes through here.
+ *
+ * - http(s) only
+ * - Hosts that resolve to private, loopback, link-local or reserved addresses are refused.
+ *   The check runs inside the DNS lookup each connection uses (redirects included), so the address
+ *   checked is the address connected to.
+ * - Software that does its own networking (the headless browser) is pointed at a local proxy
+ *   whose outbound connections use the same lookup.
+ * - Limited redirects, response size and total time
+ * - Images are identified by their magic bytes, not the Content-Type header
+ */
+
+import axios, { AxiosRequestConfig } from 'axios';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_BYTES = 15 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+const ALLOWED_PROTOCOLS = new Set(['http:', 'https:']);
+
+// Error messages thrown for a URL or response that was refused
+const REFUSED_ERRORS = new Set(['URL_NOT_ALLOWED', 'NOT_AN_IMAGE', 'RESPONSE_TOO_LARGE']);
+
+export type ImageMimeType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' | 'image/avif' | 'image/heic';
+
+export interface SafeFetchOptions {
+    timeoutMs?: number;
+    maxBytes?: number;
+    headers?: Record<string, string>;
+}
+
+export interface FetchedImage {
+    buffer: Buffer;
+    contentType: ImageMimeType;
+}
+
+// Addresses no outbound fetch may reach (IPv4-mapped IPv6 addresses are matched against the IPv4 ranges)
+// 6to4 (2002::/16) and Teredo (2001::/32) embed an IPv4 address that may be private, so they are refused outright.
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+    ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001::', 32], ['2001:db8::', 32],
+    ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an error means the URL or its response was refused (a client error, not a server one)
+ */
+export function isRefusedFetchError(error: unknown): boolean {
+    return error instanceof Error && REFUSED_ERRORS.has(error.message);
+}
+
+/**
+ * True for addresses on private, loopback, link-local, multicast or reserved ranges
+ */
+export function isBlockedAddress(address: string): boolean {
+    const family = net.isIP(address);
+    if (family === 0) return true;
+    return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup that refuses hosts resolving to a blocked address
+ */
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+            callback(error, '', 0);
+            return;
+        }
+        if (addresses.length === 0 || addresses.some(entry => isBlockedAddress(entry.address))) {
+            callback(Object.assign(new Error('URL_NOT_ALLOWED'), { code: 'URL_NOT_ALLOWED' }), '', 0);
+            return;
+        }
+
+        if (options.all) {
+            (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
+
+const httpAgent = new http.Agent({ lookup: guardedLookup });
+const httpsAgent = new https.Agent({ lookup: guardedLookup });
+
+function parseAllowedUrl(rawUrl: string): URL {
+    let url: URL;
+    try {
+        url = new URL(rawUrl);
+    } catch {
+        throw new Error('URL_NOT_ALLOWED');
+    }
+    if (!ALLOWED_PROTOCOLS.has(url.protocol)) {
+        throw new Error('URL_NOT_ALLOWED');
+    }
+    // IP literals never reach the DNS lookup, so they are checked here
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(hostname) && isBlockedAddress(hostname)) {
+        throw new Error('URL_NOT_ALLOWED');
+    }
+    return url;
+}
+
+/**
+ * Parse a URL and make sure it is http(s) and resolves to public addresses
+ * Throws URL_NOT_ALLOWED otherwise. This is an early check only: the host can resolve
+ * differently by the time something else connects to it.
+ */
+export async function assertPublicUrl(rawUrl: string): Promise<URL> {
+    const url = parseAllowedUrl(rawUrl);
+    if (net.isIP(url.hostname.replace(/^\[|\]$/g, ''))) return url;
+
+    const addresses = await dns.promises.lookup(url.hostname, { all: true }).catch(() => []);
+
+    if (addresses.length === 0 || addresses.some(entry => isBlockedAddress(entry.address))) {
+        throw new Error('URL_NOT_ALLOWED');
+    }
+    return url;
+}
+
+export interface GuardedProxy {
+    url: string;
+    close(): Promise<void>;
+}
+
+// Hop-by-hop headers a proxy must not forward
+const PROXY_HEADERS = ['proxy-connection', 'proxy-authorization', 'connection', 'keep-alive'];
+
+/**
+ * Tunnel a CONNECT request (https and wss) to a host that passes the guarded lookup
+ */
+function tunnel(req: http.IncomingMessage, clientSocket: net.Socket, head: Buffer): void {
+    let target: URL;
+    try {
+        target = new URL(`http://${req.url}`);
+    } catch {
+        clientSocket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+
+    const hostname = target.hostname.replace(/^\[|\]$/g, '');
+    if (!target.port || (net.isIP(hostname) && isBlockedAddress(hostname))) {
+        clientSocket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+        return;
+    }
+
+    const upstream = net.connect({ host: hostname, port: Number(target.port), lookup: guardedLookup }, () => {
+        clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        if (head.length > 0) upstream.write(head);
+        upstream.pipe(clientSocket);
+        clientSocket.pipe(upstream);
+    });
+
+    upstream.on('error', (error: NodeJS.ErrnoException) => {
+        if (clientSocket.writable && !upstream.readable) {
+            clientSocket.end(error.code === 'URL_NOT_ALLOWED'
+                ? 'HTTP/1.1 403 Forbidden\r\n\r\n'
+                : 'HTTP/1.1 502 Bad Gateway\r\n\r\n');
+        } else {
+            clientSocket.destroy();
+        }
+    });
+    clientSocket.on('error', () => upstream.destroy());
+    clientSocket.on('close', () => upstream.destroy());
+}
+
+/**
+ * Forward a plain http request, which arrives with an absolute URL
+ */
+function forward(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let target: URL;
+    try {
+        target = parseAllowedUrl(req.url || '');
+    } catch {
+        res.writeHead(403).end();
+        return;
+    }
+    if (target.protocol !== 'http:') {
+        res.writeHead(400).end();
+        return;
+    }
+
+    const headers = { ...req.headers };
+    for (const header of PROXY_HEADERS) delete headers[header];
+
+    const upstream = http.request(target, { method: req.method, headers, agent: httpAgent }, (upstreamRes) => {
+        res.writeHead(upstreamRes.statusCode || 502, upstreamRes.headers);
+        upstreamRes.pipe(res);
+    });
+
+    upstream.on('error', (error: NodeJS.ErrnoException) => {
+        if (!res.headersSent) {
+            res.writeHead(error.code === 'URL_NOT_ALLOWED' ? 403 : 502);
+        }
+        res.end();
+    });
+    req.pipe(upstream);
+}
+
+/**
+ * Start a forward proxy on loopback whose outbound connections all go through the guarded lookup
+ * Point software that does its own networking at it: the host is resolved and checked by the
+ * proxy on the connection it opens, so it cannot resolve differently between check and use.
+ */
+export async function startGuardedProxy(): Promise<GuardedProxy> {
+    const server = http.createServer(forward);
+    const sockets = new Set<net.Socket>();
+
+    server.on('connection', (socket) => {
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+    });
+    server.on('connect', tunnel);
+    // Plain ws:// upgrades are refused; wss:// is tunnelled with CONNECT like any https request
+    server.on('upgrade', (_req, socket) => socket.destroy());
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    const { port } = server.address() as net.AddressInfo;
+    return {
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise<void>((resolve) => {
+            for (const socket of sockets) socket.destroy();
+            server.close(() => resolve());
+        }),
+    };
+}
+
+/**
+ * Whether the error, or one it wraps, is the given refusal
+ * A redirect refused in beforeRedirect arrives wrapped twice (axios, then follow-redirects).
+ */
+function refusedBy(error: any, refusal: string): boolean {
+    for (let current = error; current; current = current.cause) {
+        if (current.code === refusal || current.message === refusal) return true;
+    }
+    return false;
+}
+
+async function safeGet(rawUrl: string, options: SafeFetchOptions, config: AxiosRequestConfig) {
+    const url = parseAllowedUrl(rawUrl);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+
+    try {
+        return await axios.get(url.toString(), {
+            ...config,
+            headers: options.headers,
+            httpAgent,
+            httpsAgent,
+            proxy: false,
+            maxRedirects: MAX_REDIRECTS,
+            beforeRedirect: (redirect: { href?: string }) => {
+                if (redirect.href) parseAllowedUrl(redirect.href);
+            },
+            maxContentLength: maxBytes,
+            timeout: timeoutMs,
+            signal: AbortSignal.timeout(timeoutMs),
+        });
+    } catch (error: any) {
+        if (refusedBy(error, 'URL_NOT_ALLOWED')) {
+            throw new Error('URL_NOT_ALLOWED');
+        }
+        if (error?.message?.includes('maxContentLength')) {
+            throw new Error('RESPONSE_TOO_LARGE');
+        }
+        throw error;
+    }
+}
+
+/**
+ * Image type from the file's first bytes, or null if it is not a supported image
+ */
+export function sniffImageType(buffer: Buffer): ImageMimeType | null {
+    if (buffer.length < 12) return null;
+
+    if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg';
+    if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+    if (buffer.toString('ascii', 0, 4) === 'GIF8') return 'image/gif';
+    if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+
+    if (buffer.toString('ascii', 4, 8) === 'ftyp') {
+        const brand = buffer.toString('ascii', 8, 12);
+        if (brand === 'avif' || brand === 'avis') return 'image/avif';
+        if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+    }
+    return null;
+}
+
+/**
+ * Download an image - throws NOT_AN_IMAGE when the bytes are not a supported image format
+ */
+export async function safeFetchImage(url: string, options: SafeFetchOptions = {}): Promise<FetchedImage> {
+    const response = await safeGet(url, options, { responseType: 'arraybuffer' });
+    const buffer = Buffer.from(response.data);
+
+    const contentType = sniffImageType(buffer);
+    if (!contentType) {
+        throw new Error('NOT_AN_IMAGE');
+    }
+    return { buffer, contentType };
+}
+
+/**
+ * Download a text document (HTML pages)
+ */
+export async function safeFetchText(url: string, options: SafeFetchOptions = {}): Promise<string> {
+    const response = await safeGet(url, options, { responseType: 'text' });
+    return response.data;
+}
@@ -0,0 +1,96 @@
+/**
+ * Session Tokens
+ * HS256-signed access tokens (JWT) and opaque refresh tokens
+ */
+
+import crypto from 'crypto';
+
+const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900'); // 15 minutes
+const ISSUER = 'snatched-api';
+
+export interface AccessTokenPayload {
+    sub: string; // User ID
+    iat: number;
+    exp: number;
+    iss: string;
+}
+
+function getSecret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('JWT_SECRET is not set');
+    }
+    return secret;
+}
+
+function base64url(input: Buffer | string): string {
+    return Buffer.from(input).toString('base64url');
+}
+
+function sign(data: string): string {
+    return crypto.createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Sign a short-lived access token for a user
+ */
+export function signAccessToken(userId: string, extraClaims: Record<string, unknown> = {}): { token: string; expiresIn: number } {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64url(JSON.stringify({
+        ...extraClaims,
+        sub: userId,
+        iat: now,
+        exp: now + ACCESS_TOKEN_TTL_SECONDS,
+        iss: ISSUER,
+    }));
+
+    return {
+        token: `${header}.${payload}.${sign(`${header}.${payload}`)}`,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+}
+
+/**
+ * Verify an access token
+ * Returns the payload, or null if the token is malformed, forged, expired or not ours.
+ */
+export function verifyAccessToken<T extends AccessTokenPayload = AccessTokenPayload>(token: string): T | null {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+
+    const [header, payload, signature] = parts;
+
+    try {
+        const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+        if (alg !== 'HS256') return null;
+
+        const expected = Buffer.from(sign(`${header}.${payload}`));
+        const actual = Buffer.from(signature);
+        if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+            return null;
+        }
+
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as T;
+        if (claims.iss !== ISSUER || !claims.sub || claims.exp <= Math.floor(Date.now() / 1000)) {
+            return null;
+        }
+        return claims;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Generate an opaque refresh token (only its hash is stored)
+ */
+export function generateRefreshToken(): string {
+    return crypto.randomBytes(48).toString('base64url');
+}
+
+/**
+ * Hash a refresh token for storage and lookup
+ */
+export function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,97 @@
+/**
+ * Generation Worker
+ * Polls the generation_jobs queue and runs try-on jobs in the background
+ */
+
+import { GenerationService } from '../modules/generation/generation.service';
+import { generationJobsService, JOB_HEARTBEAT_MS } from '../modules/generation/generation-jobs.service';
+import { CreditsService } from '../modules/credits/credits.service';
+import { GenerationJob } from '../db/schema';
+import { logger } from '../utils/logger';
+
+const POLL_INTERVAL_MS = parseInt(process.env.GENERATION_WORKER_POLL_MS || '2000');
+const CONCURRENCY = parseInt(process.env.GENERATION_WORKER_CONCURRENCY || '2');
+
+const generationService = new GenerationService();
+const creditsService = new CreditsService();
+
+let timer: NodeJS.Timeout | null = null;
+let activeJobs = 0;
+let stopping = false;
+
+/**
+ * Run a single claimed job and record its outcome
+ */
+async function runJob(job: GenerationJob): Promise<void> {
+    const start = Date.now();
+    // Keeps the lock fresh so a long job is not re-claimed as orphaned
+    const heartbeat = setInterval(() => {
+        generationJobsService.heartbeat(job.id)
+            .catch(err => logger.warn({ jobId: job.id, error: err?.message }, 'Generation job heartbeat failed'));
+    }, JOB_HEARTBEAT_MS);
+
+    try {
+        logger.info({ jobId: job.id, userId: job.userId, attempt: job.attempts }, 'Generation job started');
+        const result = await generationService.processTryOnJob(job);
+        await generationJobsService.completeJob(job.id, result);
+        logger.info({ jobId: job.id, duration: Date.now() - start }, 'Generation job finished');
+    } catch (error: any) {
+        const rescheduled = await generationJobsService.failJob(job, error);
+
+        // Permanent failure - refund the held credit
+        if (!rescheduled && job.reservationId) {
+            await creditsService.releaseCredits(job.reservationId, `Generation failed (${error?.message || 'unknown error'})`);
+        }
+    } finally {
+        clearInterval(heartbeat);
+    }
+}
+
+/**
+ * Claim jobs until the concurrency limit is reached or the queue is empty
+ */
+async function tick(): Promise<void> {
+    while (!stopping && activeJobs < CONCURRENCY) {
+        const job = await generationJobsService.claimNextJob();
+        if (!job) return;
+
+        activeJobs++;
+        runJob(job)
+            .catch(err => logger.error({ jobId: job.id, error: err?.message }, 'Generation worker error'))
+            .finally(() => { activeJobs--; });
+    }
+}
+
+function scheduleNextTick() {
+    if (stopping) return;
+    timer = setTimeout(async () => {
+        try {
+            await tick();
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Generation worker poll failed');
+        }
+        scheduleNextTick();
+    }, POLL_INTERVAL_MS);
+}
+
+/**
+ * Start polling the generation queue
+ */
+export function startGenerationWorker(): void {
+    if (timer) return;
+    stopping = false;
+    scheduleNextTick();
+    logger.info({ concurrency: CONCURRENCY, pollMs: POLL_INTERVAL_MS }, 'Generation worker started');
+}
+
+/**
+ * Stop claiming new jobs (in-flight jobs are left to finish)
+ */
+export function stopGenerationWorker(): void {
+    stopping = true;
+    if (timer) {
+        clearTimeout(timer);
+        timer = null;
+    }
+    logger.info({ activeJobs }, 'Generation worker stopped');
+}
@@ -0,0 +1,136 @@
+/**
+ * Scheduler
+ * Runs periodic maintenance tasks. A Redis lock per task run makes sure only one
+ * instance executes a task when several servers are running.
+ */
+
+import { cacheService } from '../services/cache.service';
+import { CreditsService } from '../modules/credits/credits.service';
+import { PlansService } from '../modules/credits/plans.service';
+import { PromoService } from '../modules/credits/promo.service';
+import { TokenService } from '../modules/auth/token.service';
+import { AccountService } from '../modules/users/account.service';
+import { PriceWatchesService } from '../modules/price-watches/price-watches.service';
+import { ProductsService } from '../modules/products/products.service';
+import { generationCandidatesService } from '../modules/generation/generation-candidates.service';
+import { generationJobsService } from '../modules/generation/generation-jobs.service';
+import { logger } from '../utils/logger';
+
+interface ScheduledTask {
+    name: string;
+    intervalMs: number;
+    run: () => Promise<unknown>;
+}
+
+const creditsService = new CreditsService();
+const plansService = new PlansService();
+const promoService = new PromoService();
+const tokenService = new TokenService();
+const accountService = new AccountService();
+const priceWatchesService = new PriceWatchesService();
+const productsService = new ProductsService();
+
+const tasks: ScheduledTask[] = [
+    {
+        name: 'release-expired-credit-holds',
+        intervalMs: 60 * 1000,
+        run: () => creditsService.releaseExpiredReservations(),
+    },
+    {
+        name: 'release-expired-promo-holds',
+        intervalMs: 5 * 60 * 1000,
+        run: () => promoService.releaseExpiredCheckoutHolds(),
+    },
+    {
+        name: 'fail-abandoned-generation-jobs',
+        intervalMs: 5 * 60 * 1000,
+        run: () => generationJobsService.failAbandonedJobs(),
+    },
+    {
+        name: 'expire-plans',
+        intervalMs: 15 * 60 * 1000,
+        run: () => plansService.expirePlans(),
+    },
+    {
+        name: 'plan-expiry-reminders',
+        intervalMs: 60 * 60 * 1000,
+        run: () => plansService.sendExpiryReminders(),
+    },
+    {
+        name: 'purge-expired-refresh-tokens',
+        intervalMs: 24 * 60 * 60 * 1000,
+        run: () => tokenService.purgeExpired(),
+    },
+    {
+        name: 'process-data-exports',
+        intervalMs: 60 * 1000,
+        run: () => accountService.processPendingExports(),
+    },
+    {
+        name: 'purge-expired-data-exports',
+        intervalMs: 24 * 60 * 60 * 1000,
+        run: () => accountService.purgeExpiredExports(),
+    },
+    {
+        name: 'purge-deleted-accounts',
+        intervalMs: 60 * 60 * 1000,
+        run: () => accountService.purgeDueAccounts(),
+    },
+    {
+        name: 'check-price-watches',
+        intervalMs: 60 * 60 * 1000,
+        run: () => priceWatchesService.checkWatchedProducts(),
+    },
+    {
+        name: 'purge-expired-parsed-images',
+        intervalMs: 60 * 60 * 1000,
+        run: () => productsService.purgeExpiredParsedImages(),
+    },
+    {
+        name: 'purge-stale-generation-candidates',
+        intervalMs: 24 * 60 * 60 * 1000,
+        run: () => generationCandidatesService.purgeStaleCandidates(),
+    },
+];
+
+const timers: NodeJS.Timeout[] = [];
+
+/**
+ * Run a task if no other instance holds its lock for this interval
+ */
+async function runTask(task: ScheduledTask): Promise<void> {
+    const lockKey = `scheduler:lock:${task.name}`;
+    const lockTtlSeconds = Math.max(1, Math.floor(task.intervalMs / 1000) - 1);
+
+    const acquired = await cacheService.setIfAbsent(lockKey, Date.now(), lockTtlSeconds);
+    if (!acquired) return;
+
+    const start = Date.now();
+    try {
+        await task.run();
+        logger.debug({ task: task.name, duration: Date.now() - start }, 'Scheduled task finished');
+    } catch (error: any) {
+        logger.error({ task: task.name, error: error.message }, 'Scheduled task failed');
+    }
+}
+
+/**
+ * Start all scheduled tasks
+ */
+export function startScheduler(): void {
+    if (timers.length > 0) return;
+
+    for (const task of tasks) {
+        timers.push(setInterval(() => { runTask(task); }, task.intervalMs));
+    }
+    logger.info({ tasks: tasks.map(t => t.name) }, 'Scheduler started');
+}
+
+/**
+ * Stop all scheduled tasks
+ */
+export function stopScheduler(): void {
+    while (timers.length > 0) {
+        clearInterval(timers.pop()!);
+    }
+}
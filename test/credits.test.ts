@@ -0,0 +1,120 @@
+/**
+ * Credit reservation tests
+ * Run against an in-memory Postgres, so the balance guards and row updates are the real SQL.
+ */
+
+import { db, migrateTestDb, resetTestDb, createUser } from './helpers/db';
+import { test, before, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { users, creditReservations, creditTransactions } from '../src/db/schema';
+import { CreditsService } from '../src/modules/credits/credits.service';
+
+const credits = new CreditsService();
+
+async function balance(userId: string): Promise<number> {
+    const [user] = await db.select({ credits: users.credits }).from(users).where(eq(users.id, userId));
+    return user.credits;
+}
+
+async function status(reservationId: string) {
+    const [reservation] = await db.select({ status: creditReservations.status }).from(creditReservations).where(eq(creditReservations.id, reservationId));
+    return reservation.status;
+}
+
+before(migrateTestDb);
+beforeEach(resetTestDb);
+
+test('reserveCredits: takes the hold out of the balance and refuses one the balance cannot cover', async () => {
+    const user = await createUser({ credits: 5 });
+
+    const reservation = await credits.reserveCredits(user.id, 3, 'Try-on');
+    assert.equal(reservation.status, 'held');
+    assert.equal(await balance(user.id), 2);
+
+    await assert.rejects(credits.reserveCredits(user.id, 3, 'Try-on'), { message: 'INSUFFICIENT_CREDITS' });
+    assert.equal(await balance(user.id), 2);
+});
+
+test('reserveCredits: concurrent holds never spend more than the balance', async () => {
+    const user = await createUser({ credits: 5 });
+
+    const results = await Promise.allSettled(Array.from({ length: 4 }, () => credits.reserveCredits(user.id, 2, 'Try-on')));
+    assert.equal(results.filter(result => result.status === 'fulfilled').length, 2);
+    assert.equal(await balance(user.id), 1);
+});
+
+test('captureCredits: spends the hold once', async () => {
+    const user = await createUser({ credits: 5 });
+    const reservation = await credits.reserveCredits(user.id, 2, 'Try-on');
+
+    assert.equal(await credits.captureCredits(reservation.id), true);
+    assert.equal(await status(reservation.id), 'captured');
+    assert.equal(await balance(user.id), 3);
+
+    // Settled holds can be neither captured again nor released
+    assert.equal(await credits.captureCredits(reservation.id), false);
+    assert.equal(await credits.releaseCredits(reservation.id, 'Generation failed'), false);
+    assert.equal(await balance(user.id), 3);
+});
+
+test('captureCredits: a partial capture gives back the unused part of the hold', async () => {
+    const user = await createUser({ credits: 10 });
+    const reservation = await credits.reserveCredits(user.id, 4, 'Try-on (4 variants)');
+
+    assert.equal(await credits.captureCredits(reservation.id, {}, 3), true);
+    assert.equal(await balance(user.id), 7);
+
+    const transactions = await db.select({ type: creditTransactions.type, amount: creditTransactions.amount })
+        .from(creditTransactions)
+        .where(eq(creditTransactions.correlationId, reservation.id));
+    assert.deepEqual(transactions.map(({ type, amount }) => [type, amount]).sort(), [['capture', 0], ['hold', -4], ['release', 1]]);
+});
+
+test('captureCredits: a capture inside a transaction that rolls back leaves the hold in place', async () => {
+    const user = await createUser({ credits: 5 });
+    const reservation = await credits.reserveCredits(user.id, 2, 'Try-on');
+
+    await assert.rejects(db.transaction(async (tx) => {
+        assert.equal(await credits.captureCredits(reservation.id, {}, 1, tx), true);
+        throw new Error('SAVE_FAILED');
+    }), { message: 'SAVE_FAILED' });
+
+    assert.equal(await status(reservation.id), 'held');
+    assert.equal(await balance(user.id), 3);
+});
+
+test('releaseCredits: returns the whole hold to the balance', async () => {
+    const user = await createUser({ credits: 5 });
+    const reservation = await credits.reserveCredits(user.id, 2, 'Try-on');
+
+    assert.equal(await credits.releaseCredits(reservation.id, 'Generation failed'), true);
+    assert.equal(await status(reservation.id), 'released');
+    assert.equal(await balance(user.id), 5);
+
+    assert.equal(await credits.releaseCredits(reservation.id, 'Generation failed'), false);
+    assert.equal(await credits.captureCredits(reservation.id), false);
+    assert.equal(await credits.extendReservation(reservation.id), false);
+    assert.equal(await balance(user.id), 5);
+});
+
+test('releaseExpiredReservations: releases only holds past their expiry', async () => {
+    const user = await createUser({ credits: 5 });
+    const expired = await credits.reserveCredits(user.id, 2, 'Try-on');
+    const live = await credits.reserveCredits(user.id, 1, 'Try-on');
+    await db.update(creditReservations).set({ expiresAt: new Date(Date.now() - 1000) }).where(eq(creditReservations.id, expired.id));
+
+    assert.equal(await credits.releaseExpiredReservations(), 1);
+    assert.equal(await status(expired.id), 'released');
+    assert.equal(await status(live.id), 'held');
+    assert.equal(await balance(user.id), 4);
+});
+
+test('deductCredits: refuses to take the balance below zero', async () => {
+    const user = await createUser({ credits: 2 });
+
+    assert.equal(await credits.deductCredits(user.id, 3, 'generation'), false);
+    assert.equal(await balance(user.id), 2);
+    assert.equal(await credits.deductCredits(user.id, 2, 'generation'), true);
+    assert.equal(await balance(user.id), 0);
+});
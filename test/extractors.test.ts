@@ -0,0 +1,133 @@
+/**
+ * Product extractor tests
+ * Each fixture is a trimmed copy of a store's product page, keeping only the markup its extractor reads.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { extractProduct } from '../src/extractors';
+
+function fixture(name: string): string {
+    return readFileSync(path.join(__dirname, 'fixtures', 'extractors', `${name}.html`), 'utf8');
+}
+
+test('myntra: reads pdpData with sizes, colours and a measured size chart', () => {
+    const result = extractProduct(fixture('myntra'), 'https://www.myntra.com/shirts/roadster/11045618/buy');
+
+    assert.equal(result?.extractor, 'myntra');
+    const product = result!.product;
+    assert.equal(product.name, 'Roadster Men Navy Blue Checked Casual Shirt');
+    assert.equal(product.source, 'Myntra');
+    assert.deepEqual(product.imageUrls, [
+        'https://assets.myntassets.com/h_1440,q_90,w_1080/v1/assets/images/11045618/1.jpg',
+        'https://assets.myntassets.com/h_1440,q_90,w_1080/v1/assets/images/11045618/2.jpg',
+    ]);
+    assert.equal(product.price, '₹749');
+    assert.deepEqual(product.pricing, { amount: 749, currency: 'INR', originalAmount: 1499, discountPercent: 50, inStock: true });
+    assert.deepEqual(product.sizes, [
+        { label: 'S', inStock: false },
+        { label: 'M', inStock: true },
+        { label: 'L', inStock: true },
+    ]);
+    assert.deepEqual(product.variants.map(variant => [variant.id, variant.color, variant.url]), [
+        ['11045618', 'Navy Blue', 'https://www.myntra.com/shirts/roadster/11045618/buy'],
+        ['11045620', 'Olive', 'https://www.myntra.com/shirts/roadster/11045620/buy'],
+    ]);
+    assert.equal(product.material, '100% Cotton Machine Wash');
+    assert.deepEqual(product.sizeChart, {
+        headers: ['Size', 'Chest (in)', 'Length (in)'],
+        rows: [['S', '38.0', '28.0'], ['M', '40.0', '29.0'], ['L', '42.0', '30.0']],
+    });
+});
+
+test('ajio: reads the preloaded state, keeping only zoom images', () => {
+    const result = extractProduct(fixture('ajio'), 'https://www.ajio.com/dnmx-jeans/p/469581402_blue');
+
+    assert.equal(result?.extractor, 'ajio');
+    const product = result!.product;
+    assert.equal(product.name, 'DNMX Mid-Rise Slim Fit Jeans');
+    assert.equal(product.source, 'AJIO');
+    assert.deepEqual(product.imageUrls, [
+        'https://assets.ajio.com/medias/sys_master/root/20230621/a1/zoom-1.jpg',
+        'https://assets.ajio.com/medias/sys_master/root/20230621/a1/zoom-2.jpg',
+    ]);
+    assert.deepEqual(product.pricing, { amount: 899, currency: 'INR', originalAmount: 1299, discountPercent: 31, inStock: true });
+    assert.deepEqual(product.sizes, [
+        { label: '30', inStock: true },
+        { label: '32', inStock: false },
+        { label: '34', inStock: true },
+    ]);
+    assert.equal(product.material, '98% Cotton, 2% Elastane');
+});
+
+test('hm: falls back to Next.js page props when there is no JSON-LD', () => {
+    const result = extractProduct(fixture('hm'), 'https://www2.hm.com/en_in/productpage.0608945001.html');
+
+    assert.equal(result?.extractor, 'hm');
+    const product = result!.product;
+    assert.equal(product.name, 'Relaxed Fit T-shirt');
+    assert.equal(product.source, 'H&M');
+    assert.equal(product.imageUrls.length, 2);
+    assert.equal(product.price, '₹599');
+    assert.deepEqual(product.pricing, { amount: 599, currency: 'INR', originalAmount: 799, discountPercent: 25, inStock: true });
+    assert.deepEqual(product.sizes.map(size => size.label), ['S', 'M', 'L']);
+    assert.deepEqual(product.variants.map(variant => [variant.id, variant.color, variant.inStock]), [
+        ['0608945001', 'White', true],
+        ['0608945002', 'Black', false],
+    ]);
+    assert.equal(product.material, 'Cotton 100%');
+});
+
+test('zara: groups the per-colour JSON-LD products into variants', () => {
+    const result = extractProduct(fixture('zara'), 'https://www.zara.com/in/en/textured-knit-sweater-p04331400.html');
+
+    assert.equal(result?.extractor, 'zara');
+    const product = result!.product;
+    assert.equal(product.name, 'TEXTURED KNIT SWEATER');
+    assert.equal(product.source, 'Zara');
+    assert.equal(product.price, '₹2,990');
+    assert.equal(product.pricing.inStock, true);
+    assert.deepEqual(product.sizes, [
+        { label: 'S', inStock: true },
+        { label: 'M', inStock: false },
+    ]);
+    assert.deepEqual(product.variants.map(variant => [variant.id, variant.color, variant.imageUrls.length]), [
+        ['ecru', 'Ecru', 1],
+        ['black', 'Black', 1],
+    ]);
+});
+
+test('json-ld: reads any store publishing a schema.org Product', () => {
+    const result = extractProduct(fixture('jsonld'), 'https://www.example-store.com/products/linen-wrap-dress');
+
+    assert.equal(result?.extractor, 'json-ld');
+    const product = result!.product;
+    assert.equal(product.name, 'Linen Wrap Dress & Belt');
+    assert.equal(product.source, 'Example Label');
+    assert.deepEqual(product.imageUrls, [
+        'https://www.example-store.com/images/wrap-dress-1.jpg',
+        'https://cdn.example-store.com/images/wrap-dress-2.jpg',
+    ]);
+    assert.equal(product.price, '$49.90');
+    assert.deepEqual(product.pricing, { amount: 49.9, currency: 'USD', originalAmount: 79.9, discountPercent: 38, inStock: true });
+    assert.equal(product.material, 'Linen');
+    assert.deepEqual(product.sizeChart, {
+        headers: ['Size', 'Bust (cm)', 'Waist (cm)'],
+        rows: [['S', '86', '68'], ['M', '90', '72']],
+    });
+});
+
+test('myntra: a page without pdpData is read from its JSON-LD', () => {
+    const result = extractProduct(fixture('jsonld'), 'https://www.myntra.com/dresses/example/123/buy');
+
+    assert.equal(result?.extractor, 'myntra');
+    assert.equal(result?.product.source, 'Myntra');
+    assert.equal(result?.product.name, 'Linen Wrap Dress & Belt');
+});
+
+test('returns null when no extractor can read the page', () => {
+    const html = '<html><head><title>Not a product</title></head><body></body></html>';
+    assert.equal(extractProduct(html, 'https://www.example-store.com/about'), null);
+});
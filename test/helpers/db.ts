@@ -0,0 +1,44 @@
+/**
+ * In-memory Postgres (PGlite) for service tests
+ * Importing this module puts a PGlite-backed db in place of src/db, so it must be imported
+ * before anything that imports src/db.
+ */
+
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import { sql } from 'drizzle-orm';
+import * as schema from '../../src/db/schema';
+
+const client = new PGlite();
+export const db = drizzle(client, { schema });
+
+const dbModulePath = require.resolve('../../src/db');
+require.cache[dbModulePath] = { id: dbModulePath, filename: dbModulePath, loaded: true, exports: { db } } as NodeModule;
+
+/**
+ * Apply every migration in drizzle/
+ */
+export async function migrateTestDb(): Promise<void> {
+    await migrate(db, { migrationsFolder: path.join(__dirname, '..', '..', 'drizzle') });
+}
+
+/**
+ * Empty every table between tests
+ */
+export async function resetTestDb(): Promise<void> {
+    const tables = await db.execute<{ tablename: string }>(sql`select tablename from pg_tables where schemaname = 'public'`);
+    const names = tables.rows.map(row => `"${row.tablename}"`).join(', ');
+    if (names) {
+        await db.execute(sql.raw(`truncate ${names} cascade`));
+    }
+}
+
+/**
+ * Insert a user with the given balance
+ */
+export async function createUser(values: Partial<typeof schema.users.$inferInsert> = {}) {
+    const [user] = await db.insert(schema.users).values({ credits: 0, ...values }).returning();
+    return user;
+}
@@ -0,0 +1,72 @@
+/**
+ * Plan expiry tests
+ * Run against an in-memory Postgres; balances are built through the credits service so the ledger is real.
+ */
+
+import { db, migrateTestDb, resetTestDb, createUser } from './helpers/db';
+import { test, before, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { users } from '../src/db/schema';
+import { CreditsService } from '../src/modules/credits/credits.service';
+import { PlansService } from '../src/modules/credits/plans.service';
+
+const credits = new CreditsService();
+const plans = new PlansService();
+
+async function lapse(userId: string) {
+    await db.update(users).set({ planExpiresAt: new Date(Date.now() - 1000) }).where(eq(users.id, userId));
+}
+
+async function account(userId: string) {
+    const [user] = await db.select({ credits: users.credits, plan: users.plan }).from(users).where(eq(users.id, userId));
+    return user;
+}
+
+before(migrateTestDb);
+beforeEach(resetTestDb);
+
+test('expirePlans: forfeits unused plan credits but keeps credits from other sources', async () => {
+    const user = await createUser({ credits: 3 }); // Sign-up credits
+    await credits.addCredits(user.id, 20, 'purchase', 'basic');
+    await credits.addCredits(user.id, 10, 'referral_bonus');
+    assert.equal(await credits.deductCredits(user.id, 5, 'generation'), true);
+
+    await lapse(user.id);
+    assert.equal(await plans.expirePlans(), 1);
+
+    // 15 of the plan's 20 were unspent; the sign-up and referral credits stay
+    assert.deepEqual(await account(user.id), { credits: 13, plan: 'free' });
+});
+
+test('expirePlans: spending comes out of plan credits first, and settled holds count', async () => {
+    const user = await createUser({ credits: 0 });
+    await credits.addCredits(user.id, 10, 'referral_bonus');
+    await credits.addCredits(user.id, 40, 'purchase', 'premium');
+
+    const spent = await credits.reserveCredits(user.id, 12, 'Try-on');
+    await credits.captureCredits(spent.id, {}, 8); // 4 of the hold go back
+    const failed = await credits.reserveCredits(user.id, 5, 'Try-on');
+    await credits.releaseCredits(failed.id, 'Generation failed');
+
+    await lapse(user.id);
+    await plans.expirePlans();
+
+    // 32 plan credits unspent, 20 of them roll over on Premium
+    assert.deepEqual(await account(user.id), { credits: 30, plan: 'free' });
+});
+
+test('expirePlans: credits bought in an earlier period are not forfeited again', async () => {
+    const user = await createUser({ credits: 0 });
+    await credits.addCredits(user.id, 20, 'purchase', 'basic');
+    await lapse(user.id);
+    await plans.expirePlans();
+    assert.equal((await account(user.id)).credits, 0);
+
+    await credits.addCredits(user.id, 10, 'referral_bonus');
+    await credits.addCredits(user.id, 20, 'purchase', 'basic');
+    await lapse(user.id);
+    await plans.expirePlans();
+
+    assert.deepEqual(await account(user.id), { credits: 10, plan: 'free' });
+});
@@ -0,0 +1,125 @@
+/**
+ * Promo limit tests
+ * Checkouts go through the payments service against an in-memory Postgres, with a payment
+ * provider that accepts every signature.
+ */
+
+import { db, migrateTestDb, resetTestDb, createUser } from './helpers/db';
+import { test, before, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { users, payments, promoCodes, promoRedemptions, NewPromoCode } from '../src/db/schema';
+import { PaymentsService } from '../src/modules/credits/payments.service';
+import { PromoService } from '../src/modules/credits/promo.service';
+import { setPaymentProvider } from '../src/modules/credits/payment.provider';
+
+const paymentsService = new PaymentsService();
+const promoService = new PromoService();
+
+let orders = 0;
+
+before(async () => {
+    await migrateTestDb();
+    setPaymentProvider({
+        name: 'test',
+        publicKey: null,
+        createOrder: async ({ amount, currency }) => ({ orderId: `order_${++orders}`, amount, currency }),
+        verifyPaymentSignature: () => true,
+        verifyWebhookSignature: () => true,
+    });
+});
+
+after(() => setPaymentProvider(null));
+
+beforeEach(resetTestDb);
+
+async function createPromo(values: Partial<NewPromoCode> = {}) {
+    const [promo] = await db.insert(promoCodes).values({ code: 'LAUNCH', type: 'percent_off', value: 20, ...values }).returning();
+    return promo;
+}
+
+async function redemptionCount(promoId: string): Promise<number> {
+    const [promo] = await db.select({ redemptionCount: promoCodes.redemptionCount }).from(promoCodes).where(eq(promoCodes.id, promoId));
+    return promo.redemptionCount;
+}
+
+async function failPayment(orderId: string) {
+    const body = { event: 'payment.failed', payload: { payment: { entity: { id: 'pay_failed', order_id: orderId, error_description: 'Card declined' } } } };
+    assert.equal(await paymentsService.handleWebhook(Buffer.from(JSON.stringify(body)), 'signature'), true);
+}
+
+test('createOrder: holds the code, so unpaid checkouts count against the total limit', async () => {
+    const promo = await createPromo({ maxRedemptions: 1 });
+    const [first, second] = [await createUser(), await createUser()];
+
+    const order = await paymentsService.createOrder(first.id, 'basic', 'launch');
+    assert.equal(order.discountAmount, 9980);
+    assert.equal(await redemptionCount(promo.id), 1);
+
+    await assert.rejects(paymentsService.createOrder(second.id, 'basic', 'LAUNCH'), { message: 'PROMO_EXHAUSTED' });
+    // The refused checkout left no payment behind
+    assert.equal((await db.select().from(payments).where(eq(payments.userId, second.id))).length, 0);
+});
+
+test('createOrder: a user cannot hold the code twice past the per-user limit', async () => {
+    await createPromo({ perUserLimit: 1 });
+    const user = await createUser();
+
+    await paymentsService.createOrder(user.id, 'basic', 'LAUNCH');
+    await assert.rejects(paymentsService.createOrder(user.id, 'premium', 'LAUNCH'), { message: 'PROMO_ALREADY_USED' });
+});
+
+test('concurrent checkouts never hold more than the code allows', async () => {
+    const promo = await createPromo({ maxRedemptions: 2, perUserLimit: 5 });
+    const user = await createUser();
+
+    const results = await Promise.allSettled(Array.from({ length: 5 }, () => paymentsService.createOrder(user.id, 'basic', 'LAUNCH')));
+    assert.equal(results.filter(result => result.status === 'fulfilled').length, 2);
+    assert.equal(await redemptionCount(promo.id), 2);
+});
+
+test('a failed payment gives the code back', async () => {
+    const promo = await createPromo({ maxRedemptions: 1 });
+    const [first, second] = [await createUser(), await createUser()];
+
+    const order = await paymentsService.createOrder(first.id, 'basic', 'LAUNCH');
+    await failPayment(order.orderId);
+    assert.equal(await redemptionCount(promo.id), 0);
+
+    await paymentsService.createOrder(second.id, 'basic', 'LAUNCH');
+    assert.equal(await redemptionCount(promo.id), 1);
+});
+
+test('paying redeems the held code once and grants its bonus', async () => {
+    const promo = await createPromo({ type: 'bonus_credits', value: 5, maxRedemptions: 1 });
+    const user = await createUser();
+
+    const order = await paymentsService.createOrder(user.id, 'basic', 'LAUNCH');
+    assert.equal(order.bonusCredits, 5);
+    await paymentsService.verifyPayment(user.id, order.orderId, 'pay_1', 'signature');
+    await paymentsService.verifyPayment(user.id, order.orderId, 'pay_1', 'signature');
+
+    const redemptions = await db.select().from(promoRedemptions).where(eq(promoRedemptions.promoCodeId, promo.id));
+    assert.deepEqual(redemptions.map(({ status, creditsGranted }) => [status, creditsGranted]), [['redeemed', 5]]);
+    assert.equal(await redemptionCount(promo.id), 1);
+
+    const [account] = await db.select({ credits: users.credits }).from(users).where(eq(users.id, user.id));
+    assert.equal(account.credits, 25);
+});
+
+test('a checkout paid after its hold expired is not redeemed once the code is used up', async () => {
+    const promo = await createPromo({ type: 'bonus_credits', value: 5, maxRedemptions: 1 });
+    const [late, other] = [await createUser(), await createUser()];
+
+    const lateOrder = await paymentsService.createOrder(late.id, 'basic', 'LAUNCH');
+    await db.update(promoRedemptions).set({ expiresAt: new Date(Date.now() - 1000) });
+    assert.equal(await promoService.releaseExpiredCheckoutHolds(), 1);
+
+    const otherOrder = await paymentsService.createOrder(other.id, 'basic', 'LAUNCH');
+    await paymentsService.verifyPayment(other.id, otherOrder.orderId, 'pay_other', 'signature');
+    await paymentsService.verifyPayment(late.id, lateOrder.orderId, 'pay_late', 'signature');
+
+    assert.equal(await redemptionCount(promo.id), 1);
+    const [account] = await db.select({ credits: users.credits }).from(users).where(eq(users.id, late.id));
+    assert.equal(account.credits, 20); // The plan, without the bonus
+});
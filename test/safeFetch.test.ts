@@ -0,0 +1,137 @@
+/**
+ * Safe fetch tests
+ * Names are resolved by a stubbed DNS lookup, and every connection the guarded lookup approves is
+ * delivered to a local server standing in for the internet - loopback itself is never allowed.
+ */
+
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import dns from 'dns';
+import http from 'http';
+import net from 'net';
+import { isBlockedAddress, sniffImageType, safeFetchImage, safeFetchText, assertPublicUrl } from '../src/utils/safeFetch';
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(16)]);
+
+// Test hostnames and what they resolve to
+const HOSTS: Record<string, string> = {
+    'shop.test': '93.184.216.34',
+    'internal.test': '10.0.0.5',
+    'metadata.test': '169.254.169.254',
+};
+
+let server: http.Server;
+let port: number;
+
+before(async () => {
+    server = http.createServer((req, res) => {
+        const redirects: Record<string, string> = {
+            '/to-image': `http://shop.test:${port}/image.png`,
+            '/to-private-name': `http://internal.test:${port}/image.png`,
+            '/to-metadata-name': `http://metadata.test:${port}/latest/meta-data`,
+            '/to-loopback-literal': `http://127.0.0.1:${port}/image.png`,
+            '/to-file': 'file:///etc/passwd',
+        };
+        if (req.url && redirects[req.url]) {
+            res.writeHead(302, { Location: redirects[req.url] }).end();
+        } else if (req.url === '/image.png') {
+            res.writeHead(200, { 'Content-Type': 'image/png' }).end(PNG);
+        } else if (req.url === '/fake.png') {
+            res.writeHead(200, { 'Content-Type': 'image/png' }).end('<html>not an image</html>');
+        } else {
+            res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html>ok</html>');
+        }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    port = (server.address() as net.AddressInfo).port;
+
+    const lookup = dns.lookup;
+    mock.method(dns, 'lookup', (hostname: string, options: any, callback: any) => {
+        const address = HOSTS[hostname];
+        if (!address) return lookup(hostname, options, callback);
+        if (options?.all) return callback(null, [{ address, family: 4 }]);
+        callback(null, address, 4);
+    });
+    const lookupAll = dns.promises.lookup;
+    mock.method(dns.promises, 'lookup', async (hostname: string, options: any) => {
+        const address = HOSTS[hostname];
+        return address ? [{ address, family: 4 }] : lookupAll(hostname, options);
+    });
+
+    // Connect only once the agent's lookup has approved the host
+    mock.method(http.Agent.prototype, 'createConnection', (options: any, oncreate: any) => {
+        options.lookup(options.host, {}, (error: Error | null) => {
+            if (error) return oncreate(error);
+            const socket = net.connect({ host: '127.0.0.1', port }, () => oncreate(null, socket));
+            socket.on('error', oncreate);
+        });
+    });
+});
+
+after(async () => {
+    mock.restoreAll();
+    await new Promise(resolve => server.close(resolve));
+});
+
+test('isBlockedAddress: refuses private, loopback, link-local and reserved addresses', () => {
+    for (const address of [
+        '10.1.2.3', '172.16.0.1', '192.168.1.1', '127.0.0.1', '0.0.0.0', '169.254.169.254', '100.64.0.1', '224.0.0.1',
+        '::1', '::', 'fe80::1', 'fc00::1', 'fd12:3456::1', '::ffff:10.0.0.1', '::ffff:127.0.0.1',
+        '2002:0a00:0001::1', '2002:c0a8:0101::1', '2001:0:4136:e378:8000:63bf:3fff:fdd2',
+        'not-an-ip',
+    ]) {
+        assert.equal(isBlockedAddress(address), true, address);
+    }
+});
+
+test('isBlockedAddress: allows public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '2a00:1450:4001:80b::200e', '::ffff:8.8.8.8']) {
+        assert.equal(isBlockedAddress(address), false, address);
+    }
+});
+
+test('sniffImageType: identifies images by their first bytes', () => {
+    const padded = (head: number[] | string) => Buffer.concat([Buffer.from(head as any), Buffer.alloc(12)]);
+
+    assert.equal(sniffImageType(padded([0xff, 0xd8, 0xff, 0xe0])), 'image/jpeg');
+    assert.equal(sniffImageType(PNG), 'image/png');
+    assert.equal(sniffImageType(padded('GIF89a')), 'image/gif');
+    assert.equal(sniffImageType(padded('RIFF\0\0\0\0WEBP')), 'image/webp');
+    assert.equal(sniffImageType(padded('\0\0\0\x1cftypavif')), 'image/avif');
+    assert.equal(sniffImageType(padded('\0\0\0\x18ftypheic')), 'image/heic');
+
+    assert.equal(sniffImageType(padded('<html><body>')), null);
+    assert.equal(sniffImageType(padded('%PDF-1.7')), null);
+    assert.equal(sniffImageType(Buffer.from([0xff, 0xd8, 0xff])), null); // Too short to be an image
+});
+
+test('assertPublicUrl: refuses non-http schemes, blocked literals and names resolving to blocked addresses', async () => {
+    for (const url of ['file:///etc/passwd', 'ftp://shop.test/', 'http://127.0.0.1/', 'http://[::1]/', 'http://[2002:a00:1::1]/', 'http://internal.test/', 'not a url']) {
+        await assert.rejects(assertPublicUrl(url), { message: 'URL_NOT_ALLOWED' }, url);
+    }
+    assert.equal((await assertPublicUrl('https://shop.test/product')).hostname, 'shop.test');
+});
+
+test('safeFetchImage: downloads from a public host and follows a redirect to another public URL', async () => {
+    const image = await safeFetchImage(`http://shop.test:${port}/to-image`);
+    assert.equal(image.contentType, 'image/png');
+    assert.deepEqual(image.buffer, PNG);
+});
+
+test('safeFetchImage: refuses a host that resolves to a private address', async () => {
+    await assert.rejects(safeFetchImage(`http://internal.test:${port}/image.png`), { message: 'URL_NOT_ALLOWED' });
+});
+
+test('safeFetch: re-checks every redirect target', async () => {
+    for (const path of ['/to-private-name', '/to-metadata-name', '/to-loopback-literal', '/to-file']) {
+        await assert.rejects(safeFetchText(`http://shop.test:${port}${path}`), { message: 'URL_NOT_ALLOWED' }, path);
+    }
+});
+
+test('safeFetchImage: trusts the bytes, not the Content-Type header', async () => {
+    await assert.rejects(safeFetchImage(`http://shop.test:${port}/fake.png`), { message: 'NOT_AN_IMAGE' });
+});
+
+test('safeFetchImage: refuses responses over the size limit', async () => {
+    await assert.rejects(safeFetchImage(`http://shop.test:${port}/image.png`, { maxBytes: 8 }), { message: 'RESPONSE_TOO_LARGE' });
+});